@@ -0,0 +1,35 @@
+-- Baseline: brings a database created by the first migration to the schema
+-- the approval routes migration starts from. The first migration created
+-- "User" with columns the schema no longer has and never created "Task".
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "chatId",
+DROP COLUMN "status";
+
+-- AlterTable
+ALTER TABLE "User" RENAME COLUMN "userId" TO "vkId";
+
+-- RenameIndex
+ALTER INDEX "User_userId_key" RENAME TO "User_vkId_key";
+
+-- CreateTable
+CREATE TABLE "Task" (
+    "id" UUID NOT NULL,
+    "userToId" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "text" TEXT,
+    "fileCaption" TEXT,
+    "fileId" TEXT,
+    "status" TEXT NOT NULL,
+    "remindInterval" INTEGER NOT NULL,
+    "lastRemind" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Task_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_id_idx" ON "Task"("id");
@@ -0,0 +1,60 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "currentStep" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ApprovalStep" (
+    "id" UUID NOT NULL,
+    "taskId" UUID NOT NULL,
+    "order" INTEGER NOT NULL,
+    "rule" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StepApprover" (
+    "id" UUID NOT NULL,
+    "stepId" UUID NOT NULL,
+    "userVkId" TEXT NOT NULL,
+    "decision" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StepApprover_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalStep_taskId_order_key" ON "ApprovalStep"("taskId", "order");
+
+-- CreateIndex
+CREATE INDEX "StepApprover_userVkId_idx" ON "StepApprover"("userVkId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StepApprover_stepId_userVkId_key" ON "StepApprover"("stepId", "userVkId");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalStep" ADD CONSTRAINT "ApprovalStep_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StepApprover" ADD CONSTRAINT "StepApprover_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "ApprovalStep"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: the single approver of every existing task becomes a one-step
+-- route. A decided task's step and approver carry its decision.
+INSERT INTO "ApprovalStep" ("id", "taskId", "order", "rule", "status", "createdAt", "updatedAt")
+SELECT gen_random_uuid(), "id", 0, 'ALL', "status", "createdAt", "updatedAt"
+FROM "Task";
+
+INSERT INTO "StepApprover" ("id", "stepId", "userVkId", "decision", "decidedAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid(), s."id", t."userToId",
+       CASE WHEN t."status" IN ('APPROVED', 'REJECTED') THEN t."status" END,
+       CASE WHEN t."status" IN ('APPROVED', 'REJECTED') THEN t."updatedAt" END,
+       t."createdAt", t."updatedAt"
+FROM "Task" t
+JOIN "ApprovalStep" s ON s."taskId" = t."id";
+
+-- AlterTable
+ALTER TABLE "Task" DROP COLUMN "userToId";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "rejectReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "StepApprover" ADD COLUMN     "comment" TEXT;
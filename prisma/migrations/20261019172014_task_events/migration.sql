@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "TaskEvent" (
+    "id" UUID NOT NULL,
+    "taskId" UUID NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorVkId" TEXT,
+    "payload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskEvent_taskId_createdAt_idx" ON "TaskEvent"("taskId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskEvent" ADD CONSTRAINT "TaskEvent_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
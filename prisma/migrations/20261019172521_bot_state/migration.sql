@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "BotState" (
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BotState_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "managerVkId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "backupApproverVkId" TEXT,
+ADD COLUMN     "deadline" TIMESTAMP(3),
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "escalationPolicy" TEXT;
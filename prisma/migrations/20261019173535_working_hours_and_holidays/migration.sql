@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "timeZone" TEXT,
+ADD COLUMN     "workDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[],
+ADD COLUMN     "workEnd" INTEGER NOT NULL DEFAULT 1080,
+ADD COLUMN     "workStart" INTEGER NOT NULL DEFAULT 540;
+
+-- AlterTable
+ALTER TABLE "StepApprover" ADD COLUMN     "lastRemindedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Holiday" (
+    "date" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("date")
+);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "outOfOfficeFrom" TIMESTAMP(3),
+ADD COLUMN     "outOfOfficeUntil" TIMESTAMP(3),
+ADD COLUMN     "substituteVkId" TEXT;
+
+-- AlterTable
+ALTER TABLE "StepApprover" ADD COLUMN     "delegatedFrom" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ApprovalStep" ADD COLUMN     "groupChatId" TEXT,
+ADD COLUMN     "groupRemindedAt" TIMESTAMP(3),
+ADD COLUMN     "quorum" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "department" TEXT,
+ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'MEMBER';
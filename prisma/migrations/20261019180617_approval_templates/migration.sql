@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ApprovalTemplate" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "steps" JSONB NOT NULL DEFAULT '[]',
+    "remindInterval" INTEGER NOT NULL,
+    "deadlineHours" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalTemplate_name_key" ON "ApprovalTemplate"("name");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "RecurringTask" (
+    "id" UUID NOT NULL,
+    "authorVkId" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "remindInterval" INTEGER NOT NULL,
+    "deadlineHours" INTEGER,
+    "schedule" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecurringTask_authorVkId_idx" ON "RecurringTask"("authorVkId");
+
+-- CreateIndex
+CREATE INDEX "RecurringTask_nextRunAt_idx" ON "RecurringTask"("nextRunAt");
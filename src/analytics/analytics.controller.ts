@@ -0,0 +1,36 @@
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { UsersService } from 'src/users/users.service';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsQueryDto } from './dto/analytics-query.dto';
+
+const DEFAULT_RANGE = 30 * 24 * 60 * 60 * 1000;
+
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Get()
+  @RequireScopes(API_KEY_SCOPE.TASKS_READ)
+  async getReport(@Query() query: AnalyticsQueryDto) {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - DEFAULT_RANGE);
+    if (from >= to) {
+      throw new BadRequestException('from must be earlier than to');
+    }
+
+    const visibleTo = await this.usersService.getVisibleUserIds(
+      query.viewerVkId,
+    );
+    return this.analyticsService.getReport({
+      from,
+      to,
+      authorVkId: query.authorVkId,
+      visibleTo: visibleTo ?? undefined,
+    });
+  }
+}
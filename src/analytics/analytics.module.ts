@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { UsersModule } from 'src/users/users.module';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsController } from './analytics.controller';
+
+@Module({
+  imports: [TasksModule, UsersModule],
+  providers: [AnalyticsService],
+  controllers: [AnalyticsController],
+  exports: [AnalyticsService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,256 @@
+import { MessageQueueService } from 'src/message-queue/message-queue.service';
+import { PrismaService } from 'src/prisma.service';
+import { TasksService } from 'src/tasks/tasks.service';
+import {
+  APPROVER_DECISION,
+  TASK_EVENT_TYPE,
+  TASK_STATUS,
+  TaskWithRoute,
+} from 'src/tasks/tasks.types';
+import { AnalyticsService } from './analytics.service';
+
+const HOUR = 60 * 60 * 1000;
+
+interface Event {
+  taskId: string;
+  type: string;
+  payload: unknown;
+  createdAt: Date;
+}
+
+/**
+ * A task with a single approver who decided `decisionTime` after creation,
+ * or an open task when no decision time is given.
+ */
+function createTask(
+  id: string,
+  createdAt: string,
+  decisionTime?: number,
+  status: string = TASK_STATUS.APPROVED,
+): TaskWithRoute {
+  const created = new Date(createdAt);
+  const decided = decisionTime !== undefined;
+  return {
+    id,
+    chatId: 'author',
+    text: id,
+    status: decided ? status : TASK_STATUS.PENDING,
+    currentStep: 0,
+    createdAt: created,
+    steps: [
+      {
+        order: 0,
+        groupChatId: null,
+        approvers: [
+          {
+            userVkId: 'approver',
+            decision: decided
+              ? status === TASK_STATUS.APPROVED
+                ? APPROVER_DECISION.APPROVED
+                : APPROVER_DECISION.REJECTED
+              : null,
+            decidedAt: decided
+              ? new Date(created.getTime() + decisionTime)
+              : null,
+            createdAt: created,
+          },
+        ],
+      },
+    ],
+  } as unknown as TaskWithRoute;
+}
+
+describe('AnalyticsService', () => {
+  let tasks: TaskWithRoute[];
+  let events: Event[];
+  let service: AnalyticsService;
+
+  beforeEach(() => {
+    tasks = [];
+    events = [];
+    const prisma = {
+      task: { findMany: async () => tasks },
+      taskEvent: { findMany: async () => events },
+    } as unknown as PrismaService;
+    service = new AnalyticsService(
+      prisma,
+      new TasksService(
+        null,
+        null,
+        null,
+        null,
+        { onOutcome: () => undefined } as unknown as MessageQueueService,
+        null,
+      ),
+    );
+  });
+
+  describe('decision time', () => {
+    it('interpolates the median and p90 between ranks', async () => {
+      tasks = [1, 4, 2, 3].map((hours, index) =>
+        createTask(`task-${index}`, '2026-10-05T10:00:00Z', hours * HOUR),
+      );
+
+      const report = await service.getReport({
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-08T00:00:00Z'),
+      });
+
+      expect(report.decisionTime).toEqual({
+        count: 4,
+        median: 2.5 * HOUR,
+        p90: 3.7 * HOUR,
+      });
+    });
+
+    it('leaves out undecided tasks', async () => {
+      tasks = [
+        createTask('decided', '2026-10-05T10:00:00Z', HOUR),
+        createTask('open', '2026-10-05T10:00:00Z'),
+      ];
+
+      const report = await service.getReport({
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-08T00:00:00Z'),
+      });
+
+      expect(report.decisionTime).toEqual({
+        count: 1,
+        median: HOUR,
+        p90: HOUR,
+      });
+    });
+
+    it('has no percentiles without decided tasks', async () => {
+      const report = await service.getReport({
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-08T00:00:00Z'),
+      });
+
+      expect(report.decisionTime).toEqual({
+        count: 0,
+        median: null,
+        p90: null,
+      });
+    });
+  });
+
+  describe('approvers', () => {
+    it('counts a later step from the moment it became current', async () => {
+      const task = createTask('task', '2026-10-05T10:00:00Z');
+      task.currentStep = 1;
+      task.steps.push({
+        ...task.steps[0],
+        order: 1,
+        approvers: [
+          {
+            ...task.steps[0].approvers[0],
+            userVkId: 'second',
+            decision: APPROVER_DECISION.APPROVED,
+            decidedAt: new Date('2026-10-05T15:00:00Z'),
+          },
+        ],
+      });
+      tasks = [task];
+      events = [
+        {
+          taskId: 'task',
+          type: TASK_EVENT_TYPE.STEP_ADVANCED,
+          payload: { from: 0, to: 1 },
+          createdAt: new Date('2026-10-05T13:00:00Z'),
+        },
+      ];
+
+      const report = await service.getReport({
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-08T00:00:00Z'),
+      });
+
+      expect(report.approvers).toEqual([
+        expect.objectContaining({
+          vkId: 'second',
+          approved: 1,
+          median: 2 * HOUR,
+        }),
+      ]);
+    });
+  });
+
+  describe('trend', () => {
+    it('uses daily buckets and keeps empty days', async () => {
+      tasks = [
+        createTask('first', '2026-10-05T08:00:00Z', HOUR),
+        createTask('second', '2026-10-05T20:00:00Z', 3 * HOUR),
+        createTask('third', '2026-10-07T23:59:59Z', HOUR, TASK_STATUS.REJECTED),
+      ];
+
+      const report = await service.getReport({
+        from: new Date('2026-10-05T00:00:00Z'),
+        to: new Date('2026-10-08T00:00:00Z'),
+      });
+
+      expect(report.trendBucket).toBe('day');
+      expect(report.trend).toEqual([
+        {
+          start: new Date('2026-10-05T00:00:00Z'),
+          created: 2,
+          approved: 2,
+          rejected: 0,
+          medianDecisionTime: 2 * HOUR,
+        },
+        {
+          start: new Date('2026-10-06T00:00:00Z'),
+          created: 0,
+          approved: 0,
+          rejected: 0,
+          medianDecisionTime: null,
+        },
+        {
+          start: new Date('2026-10-07T00:00:00Z'),
+          created: 1,
+          approved: 0,
+          rejected: 1,
+          medianDecisionTime: HOUR,
+        },
+      ]);
+    });
+
+    it('keeps daily buckets for a range of exactly 31 days', async () => {
+      const report = await service.getReport({
+        from: new Date('2026-09-01T00:00:00Z'),
+        to: new Date('2026-10-02T00:00:00Z'),
+      });
+
+      expect(report.trendBucket).toBe('day');
+      expect(report.trend).toHaveLength(31);
+    });
+
+    it('groups longer ranges by weeks starting on Monday', async () => {
+      tasks = [
+        createTask('sunday', '2026-09-06T23:00:00Z', HOUR),
+        createTask('monday', '2026-09-07T00:00:00Z', HOUR),
+      ];
+
+      // 2 September 2026 is a Wednesday.
+      const report = await service.getReport({
+        from: new Date('2026-09-02T00:00:00Z'),
+        to: new Date('2026-10-15T00:00:00Z'),
+      });
+
+      expect(report.trendBucket).toBe('week');
+      expect(report.trend.map((bucket) => bucket.start)).toEqual(
+        [
+          '2026-08-31',
+          '2026-09-07',
+          '2026-09-14',
+          '2026-09-21',
+          '2026-09-28',
+          '2026-10-05',
+          '2026-10-12',
+        ].map((day) => new Date(`${day}T00:00:00Z`)),
+      );
+      expect(report.trend[0].created).toBe(1);
+      expect(report.trend[1].created).toBe(1);
+    });
+  });
+});
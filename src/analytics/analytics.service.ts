@@ -0,0 +1,302 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma.service';
+import { TasksService } from 'src/tasks/tasks.service';
+import {
+  APPROVER_DECISION,
+  TASK_EVENT_TYPE,
+  TASK_STATUS,
+  TASK_WITH_ROUTE,
+  TaskWithRoute,
+} from 'src/tasks/tasks.types';
+import {
+  AnalyticsFilter,
+  AnalyticsReport,
+  ApproverStats,
+  DurationStats,
+  SlowTask,
+  TrendBucket,
+} from './analytics.types';
+
+const SLOWEST_OPEN_TASKS = 5;
+const DAY = 24 * 60 * 60 * 1000;
+/**
+ * Longer ranges are grouped by week so the trend stays readable.
+ */
+const MAX_DAILY_TREND_DAYS = 31;
+
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async getReport(
+    filter: AnalyticsFilter,
+    now: Date = new Date(),
+  ): Promise<AnalyticsReport> {
+    const where: Prisma.TaskWhereInput = {
+      createdAt: { gte: filter.from, lt: filter.to },
+      ...(filter.authorVkId && { chatId: filter.authorVkId }),
+      ...(filter.visibleTo && {
+        OR: [
+          { chatId: { in: filter.visibleTo } },
+          {
+            steps: {
+              some: {
+                approvers: { some: { userVkId: { in: filter.visibleTo } } },
+              },
+            },
+          },
+        ],
+      }),
+    };
+    const tasks = await this.prisma.task.findMany({
+      where,
+      include: TASK_WITH_ROUTE,
+      orderBy: { createdAt: 'asc' },
+    });
+    const events = await this.prisma.taskEvent.findMany({
+      where: {
+        taskId: { in: tasks.map((task) => task.id) },
+        type: {
+          in: [TASK_EVENT_TYPE.STEP_ADVANCED, TASK_EVENT_TYPE.REMINDER_SENT],
+        },
+      },
+      select: { taskId: true, type: true, payload: true, createdAt: true },
+    });
+
+    const reminders = new Map<string, number>();
+    // When each step became current; the first one starts with the task.
+    const stepStarts = new Map<string, Date>();
+    for (const event of events) {
+      if (event.type === TASK_EVENT_TYPE.REMINDER_SENT) {
+        reminders.set(event.taskId, (reminders.get(event.taskId) ?? 0) + 1);
+      } else {
+        const { to } = event.payload as { to: number };
+        stepStarts.set(`${event.taskId}:${to}`, event.createdAt);
+      }
+    }
+
+    const totals: Record<string, number> = { total: tasks.length };
+    for (const status of Object.values(TASK_STATUS)) {
+      totals[status] = tasks.filter((task) => task.status === status).length;
+    }
+
+    const reminderCounts = tasks.map((task) => reminders.get(task.id) ?? 0);
+    const totalReminders = reminderCounts.reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+
+    return {
+      from: filter.from,
+      to: filter.to,
+      totals,
+      decisionTime: this.getDurationStats(
+        tasks
+          .map((task) => this.getDecisionTime(task))
+          .filter((time): time is number => time !== null),
+      ),
+      approvers: this.getApproverStats(tasks, stepStarts),
+      reminders: {
+        total: totalReminders,
+        perTask: tasks.length > 0 ? totalReminders / tasks.length : 0,
+        max: Math.max(0, ...reminderCounts),
+      },
+      slowestOpenTasks: tasks
+        .filter((task) => task.status === TASK_STATUS.PENDING)
+        .slice(0, SLOWEST_OPEN_TASKS)
+        .map((task) => this.toSlowTask(task, reminders, now)),
+      ...this.getTrend(filter, tasks),
+    };
+  }
+
+  /**
+   * Time from creation to the final decision of an approved or rejected
+   * task, or null for tasks that were not decided.
+   */
+  private getDecisionTime(task: TaskWithRoute): number | null {
+    if (
+      task.status !== TASK_STATUS.APPROVED &&
+      task.status !== TASK_STATUS.REJECTED
+    ) {
+      return null;
+    }
+
+    const decidedAt = Math.max(
+      ...task.steps.flatMap((step) =>
+        step.approvers
+          .filter((approver) => approver.decidedAt)
+          .map((approver) => approver.decidedAt.getTime()),
+      ),
+    );
+    return Number.isFinite(decidedAt)
+      ? decidedAt - task.createdAt.getTime()
+      : null;
+  }
+
+  /**
+   * An approver's response time counts from the moment the approval reached
+   * them: when their step became current or, for forwarded approvals, when
+   * it was forwarded.
+   */
+  private getApproverStats(
+    tasks: TaskWithRoute[],
+    stepStarts: Map<string, Date>,
+  ): ApproverStats[] {
+    const approvers = new Map<
+      string,
+      { approved: number; rejected: number; pending: number; times: number[] }
+    >();
+    const getEntry = (vkId: string) => {
+      if (!approvers.has(vkId)) {
+        approvers.set(vkId, {
+          approved: 0,
+          rejected: 0,
+          pending: 0,
+          times: [],
+        });
+      }
+      return approvers.get(vkId);
+    };
+
+    for (const task of tasks) {
+      for (const vkId of this.tasksService.getAwaitingApprovers(task)) {
+        getEntry(vkId).pending += 1;
+      }
+
+      for (const step of task.steps) {
+        const stepStart =
+          step.order === 0
+            ? task.createdAt
+            : stepStarts.get(`${task.id}:${step.order}`);
+        for (const approver of step.approvers) {
+          if (!approver.decision || !approver.decidedAt || !stepStart) {
+            continue;
+          }
+          const entry = getEntry(approver.userVkId);
+          if (approver.decision === APPROVER_DECISION.APPROVED) {
+            entry.approved += 1;
+          } else {
+            entry.rejected += 1;
+          }
+          const receivedAt = Math.max(
+            stepStart.getTime(),
+            approver.createdAt.getTime(),
+          );
+          entry.times.push(approver.decidedAt.getTime() - receivedAt);
+        }
+      }
+    }
+
+    return [...approvers.entries()]
+      .map(([vkId, { approved, rejected, pending, times }]) => ({
+        vkId,
+        approved,
+        rejected,
+        pending,
+        ...this.getDurationStats(times),
+      }))
+      .sort((a, b) => (b.median ?? 0) - (a.median ?? 0));
+  }
+
+  private toSlowTask(
+    task: TaskWithRoute,
+    reminders: Map<string, number>,
+    now: Date,
+  ): SlowTask {
+    const step = this.tasksService.getCurrentStep(task);
+    return {
+      taskId: task.id,
+      text: task.text,
+      authorVkId: task.chatId,
+      createdAt: task.createdAt,
+      age: now.getTime() - task.createdAt.getTime(),
+      reminders: reminders.get(task.id) ?? 0,
+      waitingFor: step?.groupChatId
+        ? [step.groupChatId]
+        : this.tasksService.getAwaitingApprovers(task),
+    };
+  }
+
+  /**
+   * Daily buckets for ranges up to a month, weekly (from Monday) for longer
+   * ones. Empty buckets are kept so gaps show up in the trend.
+   */
+  private getTrend(
+    filter: AnalyticsFilter,
+    tasks: TaskWithRoute[],
+  ): Pick<AnalyticsReport, 'trendBucket' | 'trend'> {
+    const trendBucket =
+      filter.to.getTime() - filter.from.getTime() <= MAX_DAILY_TREND_DAYS * DAY
+        ? 'day'
+        : 'week';
+    const bucketSize = trendBucket === 'day' ? DAY : 7 * DAY;
+    const getBucketStart = (date: Date) => {
+      const day = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+      );
+      if (trendBucket === 'week') {
+        day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+      }
+      return day.getTime();
+    };
+
+    const buckets = new Map<number, TaskWithRoute[]>();
+    for (
+      let start = getBucketStart(filter.from);
+      start < filter.to.getTime();
+      start += bucketSize
+    ) {
+      buckets.set(start, []);
+    }
+    for (const task of tasks) {
+      buckets.get(getBucketStart(task.createdAt))?.push(task);
+    }
+
+    const trend: TrendBucket[] = [...buckets.entries()].map(
+      ([start, bucketTasks]) => ({
+        start: new Date(start),
+        created: bucketTasks.length,
+        approved: bucketTasks.filter(
+          (task) => task.status === TASK_STATUS.APPROVED,
+        ).length,
+        rejected: bucketTasks.filter(
+          (task) => task.status === TASK_STATUS.REJECTED,
+        ).length,
+        medianDecisionTime: this.getDurationStats(
+          bucketTasks
+            .map((task) => this.getDecisionTime(task))
+            .filter((time): time is number => time !== null),
+        ).median,
+      }),
+    );
+    return { trendBucket, trend };
+  }
+
+  private getDurationStats(durations: number[]): DurationStats {
+    const sorted = [...durations].sort((a, b) => a - b);
+    return {
+      count: sorted.length,
+      median: this.getPercentile(sorted, 0.5),
+      p90: this.getPercentile(sorted, 0.9),
+    };
+  }
+
+  /**
+   * Percentile of sorted values with linear interpolation between ranks.
+   */
+  private getPercentile(sorted: number[], percentile: number): number | null {
+    if (sorted.length === 0) {
+      return null;
+    }
+    const rank = (sorted.length - 1) * percentile;
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return Math.round(
+      sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower),
+    );
+  }
+}
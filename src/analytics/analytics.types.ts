@@ -0,0 +1,68 @@
+export interface AnalyticsFilter {
+  /**
+   * Tasks created in `[from, to)` are analysed.
+   */
+  from: Date;
+  to: Date;
+  authorVkId?: string;
+  /**
+   * Only tasks authored by or routed to one of these users.
+   */
+  visibleTo?: string[];
+}
+
+/**
+ * Durations are in milliseconds; null when there is nothing to measure.
+ */
+export interface DurationStats {
+  count: number;
+  median: number | null;
+  p90: number | null;
+}
+
+export interface ApproverStats extends DurationStats {
+  vkId: string;
+  approved: number;
+  rejected: number;
+  /**
+   * Approvals currently waiting for this user.
+   */
+  pending: number;
+}
+
+export interface SlowTask {
+  taskId: string;
+  text: string | null;
+  authorVkId: string;
+  createdAt: Date;
+  age: number;
+  reminders: number;
+  waitingFor: string[];
+}
+
+export interface TrendBucket {
+  /**
+   * Start of the day or week (UTC) the bucket covers.
+   */
+  start: Date;
+  created: number;
+  approved: number;
+  rejected: number;
+  medianDecisionTime: number | null;
+}
+
+export interface AnalyticsReport {
+  from: Date;
+  to: Date;
+  totals: Record<string, number>;
+  decisionTime: DurationStats;
+  approvers: ApproverStats[];
+  reminders: {
+    total: number;
+    perTask: number;
+    max: number;
+  };
+  slowestOpenTasks: SlowTask[];
+  trendBucket: 'day' | 'week';
+  trend: TrendBucket[];
+}
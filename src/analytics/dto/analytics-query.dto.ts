@@ -0,0 +1,32 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class AnalyticsQueryDto {
+  /**
+   * Defaults to 30 days before `to`.
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly from?: Date;
+
+  /**
+   * Defaults to now.
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly to?: Date;
+
+  @IsOptional()
+  @IsString()
+  readonly authorVkId?: string;
+
+  /**
+   * User on whose behalf the API is called. The report is restricted to
+   * tasks this user is allowed to see.
+   */
+  @IsString()
+  @IsNotEmpty()
+  readonly viewerVkId: string;
+}
@@ -1,7 +1,9 @@
 import {
   IsArray,
   IsBoolean,
+  IsIn,
   IsNumber,
+  IsOptional,
   IsString,
   validateSync,
 } from 'class-validator';
@@ -36,6 +38,38 @@ export class AppConfig {
 
   @IsString()
   readonly VK_BOT_TOKEN: string;
+
+  @IsOptional()
+  @IsString()
+  readonly VK_TEAMS_API_URL?: string;
+
+  @IsOptional()
+  @IsNumber()
+  readonly MESSENGER_RATE_LIMIT?: number;
+
+  @IsOptional()
+  @IsIn(['polling', 'webhook'])
+  readonly BOT_EVENTS_MODE?: 'polling' | 'webhook';
+
+  @IsOptional()
+  @IsString()
+  readonly BOT_WEBHOOK_SECRET?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly DEFAULT_TIME_ZONE?: string;
+
+  @IsOptional()
+  @IsArray()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      : value,
+  )
+  readonly ADMIN_VK_IDS?: string[];
 }
 
 export function validateAppConfig(config: Record<string, unknown>) {
@@ -6,6 +6,8 @@ import { validateAppConfig } from './app.config';
 import { BotModule } from './bot/bot.module';
 import { ScheduleModule } from '@nestjs/schedule';
 import { RedisModule } from '@liaoliaots/nestjs-redis';
+import { PrismaModule } from './prisma.module';
+import { AuthModule } from './auth/auth.module';
 
 @Module({
   imports: [
@@ -14,11 +16,13 @@ import { RedisModule } from '@liaoliaots/nestjs-redis';
       validate: validateAppConfig,
     }),
     ScheduleModule.forRoot(),
+    PrismaModule,
     RedisModule.forRoot({
       config: {
         url: `redis://${process.env.REDIS_HOST || '127.0.0.1'}:${Number(process.env.REDIS_PORT) || 6380}`,
       },
     }),
+    AuthModule,
     BotModule,
   ],
   controllers: [AppController],
@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from './api-keys.service';
+import { IS_PUBLIC_KEY, SCOPES_KEY } from './auth.decorators';
+import { API_KEY_HEADER } from './auth.types';
+
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const key = request.headers[API_KEY_HEADER];
+    if (typeof key !== 'string' || !key) {
+      throw new UnauthorizedException('API key is required');
+    }
+
+    const apiKey = await this.apiKeysService.verify(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const scopes =
+      this.reflector.getAllAndOverride<string[]>(SCOPES_KEY, targets) || [];
+    if (!this.apiKeysService.hasScopes(apiKey, scopes)) {
+      throw new ForbiddenException(
+        `API key lacks required scopes: ${scopes.join(', ')}`,
+      );
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+}
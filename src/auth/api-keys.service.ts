@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKey } from '@prisma/client';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { AppConfig } from 'src/app.config';
+import { PrismaService } from 'src/prisma.service';
+import { API_KEY_SCOPE, IssuedApiKey } from './auth.types';
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  isAdmin(vkId: string): boolean {
+    const adminIds =
+      this.configService.get<AppConfig['ADMIN_VK_IDS']>('ADMIN_VK_IDS') || [];
+    return adminIds.includes(vkId);
+  }
+
+  /**
+   * Creates a key of the form `ak_<prefix>_<secret>`. Only its SHA-256 hash
+   * is stored, so the plain key has to be handed out right away.
+   */
+  async issue(
+    name: string,
+    scopes: string[],
+    createdByVkId?: string,
+  ): Promise<IssuedApiKey> {
+    const prefix = randomBytes(4).toString('hex');
+    const secret = randomBytes(24).toString('base64url');
+    const key = `ak_${prefix}_${secret}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name,
+        prefix,
+        keyHash: this.hash(key),
+        scopes,
+        createdByVkId,
+      },
+    });
+    this.logger.log(`API key ${prefix} issued by ${createdByVkId}`);
+
+    return { apiKey, key };
+  }
+
+  async revoke(prefix: string): Promise<boolean> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { prefix, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return this.prisma.apiKey.findMany({ orderBy: { createdAt: 'desc' } });
+  }
+
+  /**
+   * Returns the active key matching the plain value, or null.
+   */
+  async verify(key: string): Promise<ApiKey | null> {
+    const match = key.match(/^ak_([0-9a-f]{8})_[\w-]+$/);
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { prefix: match[1] },
+    });
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(this.hash(key), 'hex');
+    if (!timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+    return apiKey;
+  }
+
+  hasScopes(apiKey: ApiKey, scopes: string[]): boolean {
+    return (
+      apiKey.scopes.includes(API_KEY_SCOPE.ADMIN) ||
+      scopes.every((scope) => apiKey.scopes.includes(scope))
+    );
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const SCOPES_KEY = 'scopes';
+
+/** Skips API key authentication for a route or a whole controller. */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/** Requires an API key holding every listed scope (or the admin scope). */
+export const RequireScopes = (...scopes: string[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
@@ -0,0 +1,16 @@
+import { ApiKey } from '@prisma/client';
+
+export const API_KEY_SCOPE = {
+  TASKS_READ: 'tasks:read',
+  TASKS_CREATE: 'tasks:create',
+  TASKS_DECIDE: 'tasks:decide',
+  ADMIN: 'admin',
+};
+
+export const API_KEY_HEADER = 'x-api-key';
+
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  /** The plain key. It is only available at issue time. */
+  key: string;
+}
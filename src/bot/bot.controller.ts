@@ -1,6 +1,18 @@
-import { Body, Controller, Get, Post, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  Post,
+  Query,
+} from '@nestjs/common';
 import { BotService } from './bot.service';
+import { Public, RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { VkTeamsEvent } from 'src/vk-teams/vk-teams.types';
 
+@RequireScopes(API_KEY_SCOPE.ADMIN)
 @Controller('bot')
 export class BotController {
   constructor(private readonly botService: BotService) {}
@@ -17,4 +29,15 @@ export class BotController {
   ) {
     return this.botService.getEvents(lastEventId, pollTime);
   }
+
+  @Public()
+  @Post('webhook')
+  @HttpCode(200)
+  async handleWebhook(
+    @Headers('x-bot-webhook-secret') secret: string,
+    @Body() body: { events: VkTeamsEvent[] } | VkTeamsEvent,
+  ) {
+    this.botService.verifyWebhookSecret(secret);
+    return this.botService.handleWebhook(body);
+  }
 }
@@ -1,10 +1,37 @@
 import { Module } from '@nestjs/common';
 import { BotService } from './bot.service';
 import { BotController } from './bot.controller';
-import { PrismaService } from 'src/prisma.service';
+import { ConversationStateService } from './conversation-state.service';
+import { CommandRouterService } from './command-router.service';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { NotificationsModule } from 'src/notifications/notifications.module';
+import { CalendarModule } from 'src/calendar/calendar.module';
+import { AuthModule } from 'src/auth/auth.module';
+import { VkTeamsModule } from 'src/vk-teams/vk-teams.module';
+import { MessageQueueModule } from 'src/message-queue/message-queue.module';
+import { UsersModule } from 'src/users/users.module';
+import { TemplatesModule } from 'src/templates/templates.module';
+import { RecurringTasksModule } from 'src/recurring-tasks/recurring-tasks.module';
+import { AnalyticsModule } from 'src/analytics/analytics.module';
+import { ExportsModule } from 'src/exports/exports.module';
+import { I18nModule } from 'src/i18n/i18n.module';
 
 @Module({
-  providers: [BotService, PrismaService],
+  imports: [
+    TasksModule,
+    NotificationsModule,
+    CalendarModule,
+    AuthModule,
+    VkTeamsModule,
+    MessageQueueModule,
+    UsersModule,
+    TemplatesModule,
+    RecurringTasksModule,
+    AnalyticsModule,
+    ExportsModule,
+    I18nModule,
+  ],
+  providers: [BotService, ConversationStateService, CommandRouterService],
   controllers: [BotController],
 })
 export class BotModule {}
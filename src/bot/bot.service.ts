@@ -1,62 +1,258 @@
-import { Injectable, Logger } from '@nestjs/common';
-import axios from 'axios';
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
 import { ConfigService } from '@nestjs/config';
 import { AppConfig } from 'src/app.config';
 import { SchedulerRegistry } from '@nestjs/schedule';
-import { RedisService } from '@liaoliaots/nestjs-redis';
 import { PrismaService } from 'src/prisma.service';
-import { TASK_STATUS, USER_STEPS } from './bot.types';
+import { UsersService } from 'src/users/users.service';
+import { USER_ROLE, USER_ROLE_LABELS } from 'src/users/users.types';
+import { TemplatesService } from 'src/templates/templates.service';
+import { RecurringTasksService } from 'src/recurring-tasks/recurring-tasks.service';
+import { AnalyticsService } from 'src/analytics/analytics.service';
+import { ExportsService } from 'src/exports/exports.service';
+import { EXPORT_FORMAT, ExportFilter } from 'src/exports/exports.types';
+import { I18nService } from 'src/i18n/i18n.service';
+import {
+  DEFAULT_LANGUAGE,
+  MessageKey,
+  MessageParams,
+} from 'src/i18n/i18n.types';
+import {
+  BotCommand,
+  CommandContext,
+  CommandReply,
+  GROUP_CHAT_ID_SUFFIX,
+  REMINDER_MESSAGE_KIND,
+  TASK_ROLE_FILTER,
+  TASK_ROLE_FILTER_LABELS,
+  TASK_STATUS_FILTER_LABELS,
+  TaskBrowserState,
+  USER_STEPS,
+} from './bot.types';
+import { CommandRouterService } from './command-router.service';
+import { ConversationStateService } from './conversation-state.service';
+import { TasksService } from 'src/tasks/tasks.service';
+import { TaskEventsService } from 'src/tasks/task-events.service';
+import { CalendarService } from 'src/calendar/calendar.service';
+import { ApiKeysService } from 'src/auth/api-keys.service';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { NOTIFICATION_TYPE_LABELS } from 'src/notifications/notifications.types';
+import { VkTeamsClient } from 'src/vk-teams/vk-teams.client';
+import { MessageQueueService } from 'src/message-queue/message-queue.service';
+import {
+  MESSAGE_OUTCOME,
+  MessageOutcome,
+} from 'src/message-queue/message-queue.types';
+import { bold, code, join } from 'src/markdown/markdown.nodes';
+import { MarkdownNode } from 'src/markdown/markdown.types';
+import {
+  GetEventsResponse,
+  SelfResponse,
+  VkTeamsButton,
+  VkTeamsCallbackQueryEvent,
+  VkTeamsEvent,
+  VkTeamsFilePart,
+  VkTeamsKeyboard,
+  VkTeamsNewMessageEvent,
+  VkTeamsResponse,
+} from 'src/vk-teams/vk-teams.types';
+import {
+  APPROVER_DECISION,
+  DecisionResult,
+  DELEGATION_REASON,
+  EditTaskInput,
+  STEP_RULE,
+  TASK_EVENT_LABELS,
+  TASK_EVENT_TYPE,
+  TASK_STATUS,
+  TaskWithRoute,
+  ESCALATION_POLICY,
+} from 'src/tasks/tasks.types';
+
+const TASKS_PAGE_SIZE = 5;
 
 @Injectable()
 export class BotService {
-  private readonly apiUrl = 'https://myteam.mail.ru/bot/v1';
-  private lastEventId: number = 0;
+  private readonly lastEventIdKey = 'lastEventId';
+  private lastEventId: number | null = null;
+  private eventsProcessing: Promise<void> = Promise.resolve();
+  private polling = false;
   private readonly logger = new Logger(BotService.name);
 
   constructor(
     private readonly configService: ConfigService,
     private readonly schedulerRegistry: SchedulerRegistry,
-    private readonly redisService: RedisService,
+    private readonly conversationState: ConversationStateService,
     private readonly prisma: PrismaService,
+    private readonly tasksService: TasksService,
+    private readonly taskEventsService: TaskEventsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly calendarService: CalendarService,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly vkTeamsClient: VkTeamsClient,
+    private readonly messageQueueService: MessageQueueService,
+    private readonly commandRouter: CommandRouterService,
+    private readonly usersService: UsersService,
+    private readonly templatesService: TemplatesService,
+    private readonly recurringTasksService: RecurringTasksService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly exportsService: ExportsService,
+    private readonly i18nService: I18nService,
   ) {
+    this.registerCommands();
+    this.messageQueueService.onOutcome(REMINDER_MESSAGE_KIND, (outcome) =>
+      this.handleReminderOutcome(outcome),
+    );
     this.startPolling();
     this.startReminderChecks();
   }
 
-  async onModuleInit() {
-    const redis = this.redisService.getOrThrow();
-    console.log('Clearing Redis data...');
-    await redis.flushdb();
-    console.log('Redis cleared.');
-  }
-
   private startPolling() {
+    if (this.getEventsMode() !== 'polling') {
+      this.logger.log('Webhook mode is enabled, events polling is disabled');
+      return;
+    }
+
     const pollTime = 3;
     const interval = setInterval(async () => {
+      // The long poll itself lasts up to the interval, so a slow batch would
+      // otherwise start the next poll before the cursor has moved.
+      if (this.polling) {
+        return;
+      }
+      this.polling = true;
       try {
-        this.logger.log(`Polling events with lastEventId: ${this.lastEventId}`);
-        const events = await this.getEvents(this.lastEventId, pollTime);
+        const lastEventId = await this.getLastEventId();
+        this.logger.log(`Polling events with lastEventId: ${lastEventId}`);
+        const events = await this.getEvents(lastEventId, pollTime);
         if (events.ok && events.events.length > 0) {
-          for (const event of events.events) {
-            this.logger.log(`New event: ${JSON.stringify(event)}`);
-            if (event.type === 'newMessage') {
-              const { chat, text } = event.payload;
-              const chatId = chat.chatId;
-              await this.handleMessage(chatId, text, event);
-            } else if (event.type === 'callbackQuery') {
-              await this.handleCallback(event);
-            }
-            this.lastEventId = event.eventId;
-          }
+          await this.processEvents(events.events);
         }
       } catch (error) {
         this.logger.error(`Error polling events: ${error.message}`);
+      } finally {
+        this.polling = false;
       }
     }, pollTime * 1000);
 
     this.schedulerRegistry.addInterval('pollEvents', interval);
   }
 
+  /**
+   * Dispatches a batch of events in order and moves the persisted cursor
+   * after each one, so a restart resumes right after the last handled event.
+   * Events at or below the cursor were already handled and are skipped.
+   * Batches are handled one after another, never interleaved, so an event
+   * delivered twice is dispatched once.
+   */
+  private processEvents(events: VkTeamsEvent[]): Promise<void> {
+    const processing = this.eventsProcessing.then(() =>
+      this.dispatchNewEvents(events),
+    );
+    // A failed batch must not stop the ones queued after it.
+    this.eventsProcessing = processing.catch(() => undefined);
+    return processing;
+  }
+
+  private async dispatchNewEvents(events: VkTeamsEvent[]): Promise<void> {
+    for (const event of events) {
+      const lastEventId = await this.getLastEventId();
+      if (typeof event.eventId === 'number' && event.eventId <= lastEventId) {
+        this.logger.log(`Skipping already handled event ${event.eventId}`);
+        continue;
+      }
+
+      await this.dispatchEvent(event);
+
+      if (typeof event.eventId === 'number') {
+        await this.saveLastEventId(event.eventId);
+      }
+    }
+  }
+
+  async dispatchEvent(event: VkTeamsEvent): Promise<void> {
+    this.logger.log(`New event: ${JSON.stringify(event)}`);
+    if (event.type === 'newMessage') {
+      const { chat, text } = event.payload;
+      const chatId = chat.chatId;
+      if (chat.type === 'group') {
+        await this.handleGroupMessage(chatId, text, event);
+      } else {
+        await this.handleMessage(chatId, text, event);
+      }
+    } else if (event.type === 'callbackQuery') {
+      if (event.payload.message.chat.type === 'group') {
+        await this.handleGroupCallback(event);
+      } else {
+        await this.handleCallback(event);
+      }
+    }
+  }
+
+  async handleWebhook(
+    body: { events: VkTeamsEvent[] } | VkTeamsEvent,
+  ): Promise<{ ok: boolean }> {
+    const events = 'events' in body ? body.events : [body];
+    await this.processEvents(events);
+    return { ok: true };
+  }
+
+  verifyWebhookSecret(secret: string | undefined): void {
+    if (this.getEventsMode() !== 'webhook') {
+      throw new ForbiddenException('Webhook mode is disabled');
+    }
+
+    const expected =
+      this.configService.get<AppConfig['BOT_WEBHOOK_SECRET']>(
+        'BOT_WEBHOOK_SECRET',
+      );
+    if (!expected) {
+      this.logger.error('BOT_WEBHOOK_SECRET is not configured');
+      throw new UnauthorizedException('Invalid webhook secret');
+    }
+
+    const expectedBuffer = Buffer.from(expected);
+    const secretBuffer = Buffer.from(secret || '');
+    if (
+      expectedBuffer.length !== secretBuffer.length ||
+      !timingSafeEqual(expectedBuffer, secretBuffer)
+    ) {
+      throw new UnauthorizedException('Invalid webhook secret');
+    }
+  }
+
+  private getEventsMode(): AppConfig['BOT_EVENTS_MODE'] {
+    return this.configService.get<AppConfig['BOT_EVENTS_MODE']>(
+      'BOT_EVENTS_MODE',
+      'polling',
+    );
+  }
+
+  private async getLastEventId(): Promise<number> {
+    if (this.lastEventId === null) {
+      const state = await this.prisma.botState.findUnique({
+        where: { key: this.lastEventIdKey },
+      });
+      this.lastEventId = state ? Number(state.value) : 0;
+    }
+    return this.lastEventId;
+  }
+
+  private async saveLastEventId(eventId: number): Promise<void> {
+    await this.prisma.botState.upsert({
+      where: { key: this.lastEventIdKey },
+      update: { value: String(eventId) },
+      create: { key: this.lastEventIdKey, value: String(eventId) },
+    });
+    this.lastEventId = eventId;
+  }
+
   private startReminderChecks() {
     const reminderCheckInterval = 30 * 1000;
     const interval = setInterval(async () => {
@@ -64,19 +260,47 @@ export class BotService {
         this.logger.log('Checking for pending reminders...');
         const now = new Date();
 
-        const tasks = await this.prisma.task.findMany({
-          where: {
-            status: 'PENDING',
-            lastRemind: {
-              lt: now,
-            },
-          },
-        });
+        await this.tasksService.escalateOverdueTasks(now);
+        await this.tasksService.forwardOutOfOfficeApprovals(now);
+        const tasks = await this.tasksService.findTasksDueForReminder(now);
 
         for (const task of tasks) {
           try {
-            const message = `У вас есть задача на утверждение: ${task.text}`;
-            await this.sendReminderWithButtons(task.userToId, task.id);
+            const approverIds = this.tasksService.getReminderRecipients(task);
+            const workingIds = await this.calendarService.filterWorkingUsers(
+              approverIds,
+              now,
+            );
+            // Reminders for approvers outside their working hours are held:
+            // the task stays due and is picked up again once they start work.
+            const heldIds = approverIds.filter((id) => !workingIds.has(id));
+
+            for (const approverId of approverIds) {
+              if (
+                !workingIds.has(approverId) ||
+                !this.tasksService.isApproverDueForReminder(
+                  task,
+                  approverId,
+                  now,
+                )
+              ) {
+                continue;
+              }
+
+              const queued = await this.queueReminder(approverId, task);
+              if (!queued) {
+                this.logger.log(
+                  `Reminder for task ${task.id} to ${approverId} is still queued`,
+                );
+              }
+            }
+
+            if (heldIds.length > 0) {
+              this.logger.log(
+                `Reminder for task ${task.id} held until working hours of: ${heldIds.join(', ')}`,
+              );
+              continue;
+            }
 
             const newLastRemind = new Date(
               now.getTime() + task.remindInterval * 60 * 1000,
@@ -86,7 +310,7 @@ export class BotService {
               data: { lastRemind: newLastRemind },
             });
 
-            this.logger.log(`Reminder sent for task: ${task.id}`);
+            this.logger.log(`Reminders queued for task: ${task.id}`);
           } catch (error) {
             this.logger.error(
               `Error sending reminder for task ${task.id}: ${error.message}`,
@@ -101,603 +325,3802 @@ export class BotService {
     this.schedulerRegistry.addInterval('reminderChecks', interval);
   }
 
-  private async sendReminderWithButtons(
+  /**
+   * Queues a reminder with decision buttons. The approver is marked as
+   * reminded only once the message is actually delivered. Returns false if
+   * an earlier reminder to them is still in the queue.
+   */
+  private async queueReminder(
     chatId: string,
-    taskId: string,
-  ): Promise<void> {
-    const task = await this.prisma.task.findUnique({
-      where: { id: taskId },
-    });
+    task: TaskWithRoute,
+  ): Promise<boolean> {
+    const taskId = task.id;
+    const language = await this.i18nService.getLanguage(chatId);
 
-    if (!task) {
-      this.logger.error(`Задача с ID ${taskId} не найдена.`);
-      throw new Error(`Задача с ID ${taskId} не найдена.`);
+    const lines: MarkdownNode[] = [
+      this.format(language, 'card.title'),
+      '',
+      this.format(language, 'card.from', {
+        name: `${task.firstName} ${task.lastName}`,
+      }),
+    ];
+    if (task.steps.length > 1) {
+      lines.push(
+        this.format(language, 'card.step', {
+          step: task.currentStep + 1,
+          total: task.steps.length,
+        }),
+      );
+    }
+    const currentStep = this.tasksService.getCurrentStep(task);
+    const groupStep = currentStep?.groupChatId ? currentStep : null;
+    if (groupStep) {
+      lines.push(
+        this.format(language, 'card.quorum', { quorum: groupStep.quorum ?? 1 }),
+      );
+    }
+    if (task.deadline) {
+      lines.push(
+        this.format(language, 'card.deadline', {
+          date: this.calendarService.formatDate(
+            task.deadline,
+            await this.calendarService.getUserTimeZone(chatId),
+            language,
+          ),
+        }),
+      );
     }
-
-    let messageText =
-      `📨 *Новая задача на утверждение*\n\n` +
-      `*От:* ${task.firstName} ${task.lastName}\n`;
     if (task.text) {
-      messageText += `*Описание задачи:* ${task.text || 'Описание отсутствует'}\n`;
+      lines.push(
+        this.format(language, 'card.description', { text: task.text }),
+      );
     }
     if (task.fileId) {
-      messageText += `*Описание файла:* ${task.fileCaption || 'Описание отсутствует'}\n`;
+      lines.push(
+        this.format(language, 'card.fileCaption', {
+          text: task.fileCaption || this.t(language, 'common.noDescription'),
+        }),
+      );
+    }
+    const delegatedFrom =
+      currentStep?.approvers.find((approver) => approver.userVkId === chatId)
+        ?.delegatedFrom ?? [];
+    if (delegatedFrom.length > 0) {
+      const names = await this.notificationsService.getUserNames(delegatedFrom);
+      lines.push(
+        this.format(language, 'card.forwarded', {
+          chain: [
+            ...delegatedFrom.map((vkId) => names.get(vkId)),
+            this.t(language, 'card.forwardedToYou'),
+          ].join(' → '),
+        }),
+      );
     }
 
-    const inlineKeyboardMarkup = [
-      [
-        {
-          text: 'Подтвердить',
-          callbackData: `approve_${taskId}`,
-          style: 'primary',
-        },
-        {
-          text: 'Отклонить',
-          callbackData: `reject_${taskId}`,
-          style: 'attention',
-        },
-      ],
+    const decisionButtons: VkTeamsButton[] = [
+      {
+        text: this.t(language, 'button.approve'),
+        callbackData: `approve_${taskId}`,
+        style: 'primary',
+      },
+      {
+        text: this.t(language, 'button.reject'),
+        callbackData: `reject_${taskId}`,
+        style: 'attention',
+      },
     ];
+    // A group card is shared by all members, so it cannot be forwarded and
+    // has no personal history.
+    const inlineKeyboardMarkup: VkTeamsKeyboard = groupStep
+      ? [decisionButtons]
+      : [
+          [
+            ...decisionButtons,
+            {
+              text: this.t(language, 'button.forward'),
+              callbackData: `forward_${taskId}`,
+              style: 'base',
+            },
+          ],
+          [
+            {
+              text: this.t(language, 'button.history'),
+              callbackData: `history_${taskId}`,
+              style: 'base',
+            },
+          ],
+        ];
 
-    if (task.fileId) {
-      const fileUrl = `${this.apiUrl}/messages/sendFile`;
-      const fileParams = {
-        token:
-          this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
-        chatId,
-        fileId: task.fileId,
-        caption: messageText,
-        inlineKeyboardMarkup: JSON.stringify(inlineKeyboardMarkup),
-        parseMode: 'MarkdownV2',
-      };
-
-      try {
-        await axios.get(fileUrl, { params: fileParams });
-        this.logger.log(
-          `Файл с сообщением отправлен в ${chatId}: ${task.fileId}`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `Ошибка при отправке файла в ${chatId}: ${error.message}`,
-        );
-        throw error;
-      }
-    } else {
-      const textUrl = `${this.apiUrl}/messages/sendText`;
-      const textParams = {
-        token:
-          this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
-        chatId,
-        text: messageText,
-        parseMode: 'MarkdownV2',
-        inlineKeyboardMarkup: JSON.stringify(inlineKeyboardMarkup),
-      };
+    const context = {
+      kind: REMINDER_MESSAGE_KIND,
+      taskId,
+      approverVkId: chatId,
+      step: task.currentStep,
+    };
+    return this.messageQueueService.enqueueMarkdown(chatId, join(lines, '\n'), {
+      fileId: task.fileId ?? undefined,
+      inlineKeyboardMarkup,
+      context,
+      dedupeKey: `reminder:${taskId}:${chatId}`,
+    });
+  }
 
-      try {
-        await axios.post(textUrl, null, { params: textParams });
-        this.logger.log(
-          `Сообщение с кнопками отправлено в ${chatId}: ${messageText}`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `Ошибка при отправке сообщения в ${chatId}: ${error.message}`,
-        );
-        throw error;
-      }
+  private async handleReminderOutcome({
+    outcome,
+    message,
+    error,
+  }: MessageOutcome): Promise<void> {
+    const { taskId, approverVkId, step } = message.context;
+    if (outcome === MESSAGE_OUTCOME.DELIVERED) {
+      await this.tasksService.markApproverReminded(
+        String(taskId),
+        Number(step),
+        String(approverVkId),
+        new Date(),
+      );
+      await this.taskEventsService.record({
+        taskId: String(taskId),
+        type: TASK_EVENT_TYPE.REMINDER_SENT,
+        payload: { recipient: approverVkId, step },
+      });
+      return;
     }
-  }
 
-  async getSelfInfo(): Promise<any> {
-    const url = `${this.apiUrl}/self/get`;
-    const params = {
-      token: this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
-    };
+    await this.taskEventsService.record({
+      taskId: String(taskId),
+      type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+      payload: { kind: 'reminder', recipient: approverVkId, error },
+    });
+  }
 
+  async getSelfInfo(): Promise<SelfResponse> {
     try {
-      const response = await axios.get(url, { params });
-      return response.data;
+      return await this.vkTeamsClient.getSelf();
     } catch (error) {
       this.logger.error(`Failed to get self info: ${error.message}`);
       throw error;
     }
   }
 
-  async getEvents(lastEventId: number, pollTime: number): Promise<any> {
-    const url = `${this.apiUrl}/events/get`;
-    const params = {
-      token: this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
-      lastEventId,
-      pollTime,
-    };
-
+  async getEvents(
+    lastEventId: number,
+    pollTime: number,
+  ): Promise<GetEventsResponse> {
     try {
-      const response = await axios.get(url, { params });
-      return response.data;
+      return await this.vkTeamsClient.getEvents({ lastEventId, pollTime });
     } catch (error) {
       this.logger.error(`Failed to get events: ${error.message}`);
       throw error;
     }
   }
 
-  async handleMessage(chatId: string, text: string, event: any): Promise<any> {
-    const url = `${this.apiUrl}/messages/sendText`;
-    let responseText: string;
-    let inlineKeyboardMarkup: any[] = [];
+  async handleMessage(
+    chatId: string,
+    text: string,
+    event: VkTeamsNewMessageEvent,
+  ): Promise<void> {
+    let responseText: MarkdownNode;
+    let inlineKeyboardMarkup: VkTeamsKeyboard = [];
 
-    const redis = this.redisService.getOrThrow();
-    const userState = await redis.get(chatId);
+    const userState = await this.conversationState.get(chatId);
+    const language = await this.i18nService.getLanguage(
+      chatId,
+      event.payload.from.language,
+    );
 
     const file = event.payload.parts?.find(
-      (part: any) => part.type === 'file',
+      (part): part is VkTeamsFilePart => part.type === 'file',
     )?.payload;
 
-    if (userState) {
-      const { step, taskData } = JSON.parse(userState);
+    const command = this.commandRouter.find(text);
 
-      let urlParts;
-      let contactId;
+    if (userState && !command?.availableInDialog) {
+      const { step, taskData } = userState;
 
       switch (step) {
         case USER_STEPS.AWAITING_DESCRIPTION:
-          taskData.description = text;
-          taskData.firstName = event.payload.from.firstName;
-          taskData.lastName = event.payload.from.lastName;
-          if (file) {
-            taskData.fileId = file.fileId;
-            taskData.fileCaption = file.caption;
-          }
-          await redis.set(
+          responseText = await this.startRouteCollection(
             chatId,
-            JSON.stringify({ step: USER_STEPS.AWAITING_USER_ID, taskData }),
-            'EX',
-            3600,
+            text,
+            event,
+            language,
+            taskData?.schedule
+              ? { schedule: taskData.schedule, timeZone: taskData.timeZone }
+              : undefined,
           );
-          responseText =
-            'Отправьте контакт из ваших контактов, кому нужно назначить задачу:';
           break;
 
         case USER_STEPS.AWAITING_USER_ID:
-          urlParts = text.split('/');
-          contactId = urlParts[urlParts.length - 1];
+        case USER_STEPS.AWAITING_STEP_RULE:
+        case USER_STEPS.AWAITING_NEXT_STEP:
+          const contactIds = this.parseContactIds(text);
 
-          if (!contactId || !contactId.includes('@')) {
-            responseText =
-              'Некорректная ссылка. Отправьте контакт из ваших контактов.';
+          if (!contactIds) {
+            responseText = this.t(language, 'route.invalidContact');
+            break;
+          }
+
+          const routeStep = taskData.steps[taskData.steps.length - 1];
+          const groupChatIds = contactIds.filter((id) =>
+            id.endsWith(GROUP_CHAT_ID_SUFFIX),
+          );
+          if (
+            routeStep.groupChatId ||
+            (groupChatIds.length > 0 &&
+              (contactIds.length > 1 || routeStep.approvers.length > 0))
+          ) {
+            responseText = this.t(language, 'route.groupStepAlone');
+            break;
+          }
+          if (groupChatIds.length > 0) {
+            responseText = await this.addGroupStep(
+              chatId,
+              taskData,
+              groupChatIds[0],
+              language,
+            );
             break;
           }
 
           try {
-            const user = await this.prisma.user.findUnique({
-              where: { vkId: contactId },
+            const users = await this.prisma.user.findMany({
+              where: { vkId: { in: contactIds } },
             });
+            const missingIds = contactIds.filter(
+              (id) => !users.some((user) => user.vkId === id),
+            );
 
-            if (!user) {
-              responseText = 'Пользователь с таким userId не найден.';
+            if (missingIds.length > 0) {
+              responseText = this.t(language, 'common.usersNotFound', {
+                ids: missingIds.join(', '),
+              });
+              break;
+            }
+            const assignmentError = await this.getAssignmentError(
+              chatId,
+              contactIds,
+              language,
+            );
+            if (assignmentError) {
+              responseText = assignmentError;
               break;
             }
 
-            taskData.userId = contactId;
+            const currentStep = taskData.steps[taskData.steps.length - 1];
+            for (const id of contactIds) {
+              if (!currentStep.approvers.includes(id)) {
+                currentStep.approvers.push(id);
+              }
+            }
             if (file) {
               taskData.fileId = file.fileId;
               taskData.fileCaption = file.caption;
             }
 
-            await redis.set(
-              chatId,
-              JSON.stringify({ step: USER_STEPS.AWAITING_TIME, taskData }),
-              'EX',
-              3600,
-            );
-            responseText = 'Введите интервал напоминания в минутах:';
+            const nextStep =
+              currentStep.approvers.length > 1 && !currentStep.rule
+                ? USER_STEPS.AWAITING_STEP_RULE
+                : USER_STEPS.AWAITING_NEXT_STEP;
+
+            await this.conversationState.set(chatId, nextStep, taskData);
+            responseText = this.t(language, 'route.stepApprovers', {
+              step: taskData.steps.length,
+              count: currentStep.approvers.length,
+            });
+            inlineKeyboardMarkup =
+              nextStep === USER_STEPS.AWAITING_STEP_RULE
+                ? this.getStepRuleKeyboard(language)
+                : this.getNextStepKeyboard(language);
           } catch (error) {
             this.logger.error(
               `Ошибка при проверке пользователя: ${error.message}`,
             );
-            responseText =
-              'Произошла ошибка при проверке вашего аккаунта. Попробуйте снова.';
+            responseText = this.t(language, 'error.checkAccount');
+          }
+          break;
+
+        case USER_STEPS.AWAITING_QUORUM:
+          const groupStep = taskData.steps[taskData.steps.length - 1];
+          const quorum = parseInt(text, 10);
+          if (isNaN(quorum) || quorum < 1 || quorum > groupStep.groupSize) {
+            responseText = this.t(language, 'route.quorumRange', {
+              max: groupStep.groupSize,
+            });
+            break;
           }
+
+          groupStep.quorum = quorum;
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_NEXT_STEP,
+            taskData,
+          );
+          responseText = this.t(language, 'route.quorumSaved', { quorum });
+          inlineKeyboardMarkup = this.getNextStepKeyboard(language);
           break;
 
         case USER_STEPS.AWAITING_USER_ID_FOR_TASKS:
-          urlParts = text.split('/');
-          contactId = urlParts[urlParts.length - 1];
+          const userTasks = await this.getUserTasksReply(
+            chatId,
+            text,
+            language,
+          );
+          responseText = userTasks.text;
+          inlineKeyboardMarkup = userTasks.keyboard || [];
+          break;
 
-          if (!contactId || !contactId.includes('@')) {
-            responseText =
-              'Некорректная ссылка. Отправьте контакт из ваших контактов.';
+        case USER_STEPS.AWAITING_REJECT_REASON:
+          if (!text || !text.trim()) {
+            responseText = this.t(language, 'decision.reasonRequired');
             break;
           }
 
           try {
-            const userToCheck = await this.prisma.user.findUnique({
-              where: { vkId: contactId },
-            });
+            const decision = await this.tasksService.decide(
+              taskData.taskId,
+              event.payload.from.userId,
+              APPROVER_DECISION.REJECTED,
+              text,
+            );
+            responseText = this.getDecisionResponseText(decision, language);
+          } catch (error) {
+            this.logger.error(`Ошибка при отклонении задачи: ${error.message}`);
+            responseText = this.t(language, 'error.processTask');
+            break;
+          }
 
-            if (!userToCheck) {
-              responseText = 'Пользователь с таким userId не найден.';
-              break;
-            }
+          await this.conversationState.clear(chatId);
+          break;
 
-            const tasks = await this.prisma.task.findMany({
-              where: {
-                userToId: contactId,
-              },
-              orderBy: {
-                createdAt: 'desc',
-              },
-              take: 10,
-            });
+        case USER_STEPS.AWAITING_APPROVE_COMMENT:
+          if (!text || !text.trim()) {
+            responseText = this.t(language, 'decision.commentEmpty');
+            break;
+          }
 
-            if (tasks.length === 0) {
-              responseText = `У пользователя ${userToCheck.firstName} ${userToCheck.lastName} нет задач.`;
-            } else {
-              responseText = `📝 *Последние 10 задач пользователя ${userToCheck.firstName} ${userToCheck.lastName}:*\n\n`;
-
-              for (const task of tasks) {
-                const assignedUser = await this.prisma.user.findUnique({
-                  where: { vkId: task.userToId },
-                });
-
-                responseText +=
-                  `*Задача ${tasks.indexOf(task) + 1}:*\n` +
-                  `*Описание:* ${task.text ? task.text : task.fileCaption || 'Описание отсутствует'}\n` +
-                  `*Для кого:* ${assignedUser ? `${assignedUser.firstName} ${assignedUser.lastName}` : 'Неизвестный пользователь'}\n` +
-                  `*Статус:* ${task.status === 'APPROVED' ? 'Подтверждена' : task.status === 'REJECTED' ? 'Отклонена' : 'В ожидании'}\n` +
-                  `*Создано:* ${task.createdAt.toLocaleString()}\n\n`;
-              }
-            }
+          try {
+            const saved = await this.tasksService.addComment(
+              taskData.taskId,
+              event.payload.from.userId,
+              taskData.stepOrder,
+              text,
+            );
+            responseText = this.t(
+              language,
+              saved ? 'decision.commentSaved' : 'decision.decisionNotFound',
+            );
+          } catch (error) {
+            this.logger.error(
+              `Ошибка при сохранении комментария: ${error.message}`,
+            );
+            responseText = this.t(language, 'error.saveComment');
+            break;
+          }
+
+          await this.conversationState.clear(chatId);
+          break;
+
+        case USER_STEPS.AWAITING_EDIT_VALUE:
+          try {
+            responseText = await this.applyTaskEdit(
+              chatId,
+              taskData,
+              text,
+              file,
+              language,
+            );
+          } catch (error) {
+            this.logger.error(`Ошибка при изменении задачи: ${error.message}`);
+            responseText = this.t(language, 'error.editTask');
+          }
+          break;
 
-            await redis.del(chatId);
+        case USER_STEPS.AWAITING_FORWARD_CONTACT:
+          try {
+            responseText = await this.forwardTask(
+              chatId,
+              taskData.taskId,
+              event.payload.from.userId,
+              text,
+              language,
+            );
           } catch (error) {
-            this.logger.error(`Ошибка при получении задач: ${error.message}`);
-            responseText =
-              'Произошла ошибка при получении задач. Попробуйте снова.';
+            this.logger.error(
+              `Ошибка при переадресации задачи: ${error.message}`,
+            );
+            responseText = this.t(language, 'error.forwardTask');
+          }
+          break;
+
+        case USER_STEPS.AWAITING_TEMPLATE_FIELD:
+          if (!text || !text.trim()) {
+            responseText = this.t(language, 'template.valueEmpty');
+            break;
           }
+
+          taskData.values[taskData.fields[taskData.fieldIndex]] = text.trim();
+          taskData.fieldIndex += 1;
+          const fieldReply = await this.askTemplateField(
+            chatId,
+            taskData,
+            language,
+          );
+          responseText = fieldReply.text;
+          inlineKeyboardMarkup = fieldReply.keyboard || [];
           break;
 
         case USER_STEPS.AWAITING_TIME:
           const interval = parseInt(text, 10);
           if (isNaN(interval) || interval <= 0) {
-            responseText =
-              'Неверный формат интервала. Введите положительное число.';
+            responseText = this.t(language, 'route.invalidInterval');
             break;
           }
 
           taskData.remindInterval = interval;
 
-          try {
-            await this.prisma.task.create({
-              data: {
-                userToId: taskData.userId,
-                chatId: chatId,
-                firstName: taskData.firstName,
-                lastName: taskData.lastName,
-                text: taskData.description,
-                fileId: taskData.fileId,
-                fileCaption: taskData.fileCaption,
-                status: TASK_STATUS.PENDING,
-                remindInterval: taskData.remindInterval,
-                lastRemind: new Date(),
-              },
-            });
-            this.logger.log(`Задача создана: ${JSON.stringify(taskData)}`);
-            responseText = 'Задача успешно создана!';
-          } catch (error) {
-            this.logger.error(`Ошибка при создании задачи: ${error.message}`);
-            responseText =
-              'Произошла ошибка при создании задачи. Попробуйте снова.';
+          if (taskData.schedule) {
+            await this.conversationState.set(
+              chatId,
+              USER_STEPS.AWAITING_RECURRING_DEADLINE,
+              taskData,
+            );
+            responseText = this.t(language, 'route.askRecurringDeadline');
+            inlineKeyboardMarkup = this.getDeadlineSkipKeyboard(language);
             break;
           }
 
-          await redis.del(chatId);
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_DEADLINE,
+            taskData,
+          );
+          responseText = this.t(language, 'route.askDeadline');
+          inlineKeyboardMarkup = this.getDeadlineSkipKeyboard(language);
           break;
 
-        default:
-          responseText =
-            'Неизвестная команда. Используйте /help для списка команд.';
+        case USER_STEPS.AWAITING_DEADLINE:
+          const deadline = this.parseDeadline(
+            text,
+            await this.calendarService.getUserTimeZone(chatId),
+          );
+          if (!deadline) {
+            responseText = this.t(language, 'route.invalidDeadline');
+            break;
+          }
+
+          taskData.deadline = deadline.toISOString();
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_ESCALATION,
+            taskData,
+          );
+          responseText = this.t(language, 'route.askEscalation');
+          inlineKeyboardMarkup = this.getEscalationKeyboard(language);
           break;
-      }
-    } else {
-      const command = text.split(' ')[0];
 
-      switch (command) {
-        case '/start':
-          await redis.del(chatId);
+        case USER_STEPS.AWAITING_RECURRING_DEADLINE:
+          const deadlineHours = parseInt(text, 10);
+          if (isNaN(deadlineHours) || deadlineHours <= 0) {
+            responseText = this.t(language, 'route.invalidDeadlineHours');
+            break;
+          }
+
+          taskData.deadlineHours = deadlineHours;
+          responseText = await this.createRecurringTaskFromState(
+            chatId,
+            taskData,
+            language,
+          );
+          break;
 
-          const { firstName, lastName } = event.payload.from;
+        case USER_STEPS.AWAITING_BACKUP_APPROVER:
+          const backupIds = this.parseContactIds(text);
+          if (!backupIds || backupIds.length !== 1) {
+            responseText = this.t(language, 'route.invalidSingleContact');
+            break;
+          }
 
           try {
-            await this.prisma.user.upsert({
-              where: { vkId: chatId },
-              update: {},
-              create: {
-                vkId: chatId,
-                firstName,
-                lastName,
-              },
+            const backupApprover = await this.prisma.user.findUnique({
+              where: { vkId: backupIds[0] },
             });
-            this.logger.log(
-              `Пользователь ${chatId} добавлен или уже существует.`,
+            if (!backupApprover) {
+              responseText = this.t(language, 'common.userNotFound');
+              break;
+            }
+            const backupError = await this.getAssignmentError(
+              chatId,
+              backupIds,
+              language,
             );
+            if (backupError) {
+              responseText = backupError;
+              break;
+            }
           } catch (error) {
             this.logger.error(
-              `Ошибка при добавлении пользователя: ${error.message}`,
+              `Ошибка при проверке пользователя: ${error.message}`,
             );
-            throw error;
+            responseText = this.t(language, 'error.checkUser');
+            break;
           }
 
-          responseText = `Добро пожаловать! Выберите команду:`;
-          inlineKeyboardMarkup = [
-            [
-              {
-                text: 'Создать задачу',
-                callbackData: 'create_task',
-                style: 'primary',
-              },
-              {
-                text: 'Посмотреть задачи пользователя',
-                callbackData: 'check_user_tasks',
-                style: 'primary',
-              },
-            ],
-            [
-              {
-                text: 'Просмотреть последние задачи',
-                callbackData: 'watch_tasks',
-                style: 'primary',
-              },
-            ],
-            [
-              {
-                text: 'Просмотреть статистику',
-                callbackData: 'watch_statistics',
-                style: 'primary',
-              },
-            ],
-          ];
-          break;
-
-        case '/help':
-          responseText = `Доступные команды:
-    /start - Начать работу с ботом
-    /create-task - Создать новую задачу
-    /delete-task - Удалить задачу
-    /watch-last-tasks - Просмотреть последние задачи
-    /help - Получить список команд`;
+          taskData.backupApproverVkId = backupIds[0];
+          responseText = await this.createTaskFromState(
+            chatId,
+            taskData,
+            language,
+          );
           break;
 
         default:
-          responseText =
-            'Неизвестная команда. Используйте /help для списка команд.';
+          responseText = this.t(language, 'common.unknownCommand');
           break;
       }
+    } else {
+      const reply = await this.commandRouter.dispatch(text, {
+        chatId,
+        userId: event.payload.from.userId,
+        isAdmin: await this.usersService.isAdminId(chatId),
+        language,
+        event,
+      });
+      responseText = reply.text;
+      inlineKeyboardMarkup = reply.keyboard || [];
     }
 
-    const params = {
-      token: this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
-      chatId,
-      text: responseText,
-      parseMode: 'MarkdownV2',
-      inlineKeyboardMarkup:
-        inlineKeyboardMarkup.length > 0
-          ? JSON.stringify(inlineKeyboardMarkup)
-          : null,
-    };
-
-    try {
-      this.logger.log(
-        `Отправка сообщения: ${JSON.stringify({ chatId, text: responseText, inlineKeyboardMarkup })}`,
-      );
-      const response = await axios.post(url, null, { params });
-      this.logger.log(`Ответ от API: ${JSON.stringify(response.data)}`);
-      return response.data;
-    } catch (error) {
-      this.logger.error(`Ошибка при отправке сообщения: ${error.message}`);
-      throw error;
-    }
+    await this.reply(chatId, responseText, inlineKeyboardMarkup);
   }
 
-  async handleCallback(event: any): Promise<any> {
+  async handleCallback(event: VkTeamsCallbackQueryEvent): Promise<void> {
     console.log('Получен callback:', event);
 
     const { callbackData, queryId } = event.payload;
     const chatId = event.payload.message.chat.chatId;
     const userId = event.payload.from.userId;
 
-    let responseText: string;
+    let responseText: MarkdownNode;
+    let inlineKeyboardMarkup: VkTeamsKeyboard = [];
 
-    const redis = this.redisService.getOrThrow();
-    const userState = await redis.get(chatId);
-    const { step, taskData } = userState
-      ? JSON.parse(userState)
-      : { step: null, taskData: {} };
+    const userState = await this.conversationState.get(chatId);
+    const { step, taskData } = userState || { step: null, taskData: {} };
+    const language = await this.i18nService.getLanguage(
+      userId,
+      event.payload.from.language,
+    );
 
-    if (
-      callbackData.startsWith('approve_') ||
-      callbackData.startsWith('reject_')
-    ) {
-      const [action, taskId] = callbackData.split('_');
+    const taskButton = callbackData.match(
+      /^(approve|reject|forward|comment|history)_([^_]+)/,
+    );
+    if (taskButton) {
+      await this.taskEventsService.record({
+        taskId: taskButton[2],
+        type: TASK_EVENT_TYPE.BUTTON_PRESSED,
+        actorVkId: userId,
+        payload: { button: taskButton[1] },
+      });
+    }
+
+    if (callbackData.startsWith('approve_')) {
+      const [, taskId] = callbackData.split('_');
 
       try {
-        const task = await this.prisma.task.findUnique({
-          where: { id: taskId },
-          select: { status: true },
-        });
+        const decision = await this.tasksService.decide(
+          taskId,
+          userId,
+          APPROVER_DECISION.APPROVED,
+        );
+        responseText = this.getDecisionResponseText(decision, language);
 
-        if (!task) {
-          responseText = 'Задача не найдена.';
-        } else if (task.status === 'PENDING') {
-          const newStatus = action === 'approve' ? 'APPROVED' : 'REJECTED';
-          await this.prisma.task.update({
-            where: { id: taskId },
-            data: { status: newStatus },
-          });
+        if (
+          decision.result === 'RECORDED' ||
+          decision.result === 'STEP_APPROVED' ||
+          decision.result === 'APPROVED'
+        ) {
+          inlineKeyboardMarkup = [
+            [
+              {
+                text: this.t(language, 'button.addComment'),
+                callbackData: `comment_${taskId}_${decision.stepOrder}`,
+                style: 'primary',
+              },
+            ],
+          ];
+        }
+      } catch (error) {
+        this.logger.error(`Ошибка при обновлении задачи: ${error.message}`);
+        responseText = this.t(language, 'error.processTask');
+      }
+    } else if (callbackData.startsWith('reject_')) {
+      const [, taskId] = callbackData.split('_');
+
+      try {
+        const blocker = await this.tasksService.checkCanDecide(taskId, userId);
 
-          responseText =
-            action === 'approve'
-              ? 'Задача успешно подтверждена!'
-              : 'Задача отклонена.';
-        } else if (task.status === 'APPROVED') {
-          responseText = 'Задача уже подтверждена.';
-        } else if (task.status === 'REJECTED') {
-          responseText = 'Задача уже отклонена.';
+        if (blocker) {
+          responseText = this.getDecisionResponseText(blocker, language);
         } else {
-          responseText = 'Неизвестный статус задачи.';
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_REJECT_REASON,
+            { taskId },
+          );
+          responseText = this.t(language, 'decision.askRejectReason');
         }
       } catch (error) {
-        this.logger.error(`Ошибка при обновлении задачи: ${error.message}`);
-        responseText =
-          'Произошла ошибка при обработке задачи. Попробуйте снова.';
+        this.logger.error(`Ошибка при проверке задачи: ${error.message}`);
+        responseText = this.t(language, 'error.processTask');
+      }
+    } else if (callbackData.startsWith('forward_')) {
+      const [, taskId] = callbackData.split('_');
+
+      try {
+        const blocker = await this.tasksService.checkCanDecide(taskId, userId);
+
+        if (blocker) {
+          responseText = this.getDecisionResponseText(blocker, language);
+        } else {
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_FORWARD_CONTACT,
+            { taskId },
+          );
+          responseText = this.t(language, 'forward.askContact');
+        }
+      } catch (error) {
+        this.logger.error(`Ошибка при проверке задачи: ${error.message}`);
+        responseText = this.t(language, 'error.processTask');
+      }
+    } else if (callbackData.startsWith('notify_toggle_')) {
+      const type = callbackData.slice('notify_toggle_'.length);
+
+      try {
+        if (!NOTIFICATION_TYPE_LABELS[type]) {
+          responseText = this.t(language, 'notifications.unknownType');
+        } else {
+          const mutedTypes = await this.notificationsService.toggleMuted(
+            userId,
+            type,
+          );
+          responseText = this.t(
+            language,
+            mutedTypes.includes(type)
+              ? 'notifications.muted'
+              : 'notifications.unmuted',
+            { type: this.t(language, NOTIFICATION_TYPE_LABELS[type]) },
+          );
+          inlineKeyboardMarkup = this.getNotificationSettingsKeyboard(
+            mutedTypes,
+            language,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Ошибка при изменении настроек уведомлений: ${error.message}`,
+        );
+        responseText = this.t(language, 'error.changeSettings');
+      }
+    } else if (callbackData.startsWith('history_')) {
+      const [, taskId] = callbackData.split('_');
+
+      try {
+        responseText = await this.formatTaskTimeline(taskId, userId, language);
+      } catch (error) {
+        this.logger.error(
+          `Ошибка при получении истории задачи: ${error.message}`,
+        );
+        responseText = this.t(language, 'error.taskHistory');
+      }
+    } else if (callbackData.startsWith('tasks_')) {
+      const state = this.parseTaskBrowserCallback(callbackData);
+      if (state) {
+        const tasksPage = await this.getTaskBrowserReply(
+          userId,
+          language,
+          state,
+        );
+        responseText = tasksPage.text;
+        inlineKeyboardMarkup = tasksPage.keyboard || [];
+      } else {
+        responseText = this.t(language, 'common.unknownCommand');
+      }
+    } else if (callbackData.startsWith('task_')) {
+      try {
+        const detail = await this.getTaskDetailReply(
+          callbackData.slice('task_'.length),
+          userId,
+          language,
+        );
+        responseText = detail.text;
+        inlineKeyboardMarkup = detail.keyboard || [];
+      } catch (error) {
+        this.logger.error(`Ошибка при получении задачи: ${error.message}`);
+        responseText = this.t(language, 'error.tasks');
+      }
+    } else if (callbackData.startsWith('escalate_')) {
+      const policy = callbackData.slice('escalate_'.length);
+
+      if (
+        step !== USER_STEPS.AWAITING_ESCALATION ||
+        !Object.values(ESCALATION_POLICY).includes(policy)
+      ) {
+        responseText = this.t(language, 'route.escalationUnavailable');
+      } else if (policy === ESCALATION_POLICY.BACKUP_APPROVER) {
+        taskData.escalationPolicy = policy;
+        await this.conversationState.set(
+          chatId,
+          USER_STEPS.AWAITING_BACKUP_APPROVER,
+          taskData,
+        );
+        responseText = this.t(language, 'route.askBackupApprover');
+      } else {
+        taskData.escalationPolicy = policy;
+        responseText = await this.createTaskFromState(
+          chatId,
+          taskData,
+          language,
+        );
+      }
+    } else if (callbackData.startsWith('edit_')) {
+      const field = callbackData.match(
+        /^edit_(text|file|interval|approver)_(.+)$/,
+      );
+
+      if (field) {
+        await this.conversationState.set(
+          chatId,
+          USER_STEPS.AWAITING_EDIT_VALUE,
+          { taskId: field[2], field: field[1] },
+        );
+        responseText = this.t(
+          language,
+          (
+            {
+              text: 'edit.askText',
+              file: 'edit.askFile',
+              interval: 'edit.askInterval',
+              approver: 'edit.askApprover',
+            } as const
+          )[field[1]],
+        );
+      } else {
+        responseText = this.t(language, 'edit.askField');
+        inlineKeyboardMarkup = this.getTaskEditKeyboard(
+          callbackData.slice('edit_'.length),
+          language,
+        );
+      }
+    } else if (callbackData.startsWith('cancel_task_')) {
+      try {
+        responseText = await this.cancelOwnTask(
+          callbackData.slice('cancel_task_'.length),
+          userId,
+          language,
+        );
+      } catch (error) {
+        this.logger.error(`Ошибка при отмене задачи: ${error.message}`);
+        responseText = this.t(language, 'error.cancelTask');
       }
+    } else if (callbackData.startsWith('template_')) {
+      const templateReply = await this.startTemplateTask(
+        chatId,
+        callbackData.slice('template_'.length),
+        event.payload.from.firstName,
+        event.payload.from.lastName,
+        language,
+      );
+      responseText = templateReply.text;
+      inlineKeyboardMarkup = templateReply.keyboard || [];
+    } else if (callbackData.startsWith('recurring_')) {
+      const [, action, recurringTaskId] = callbackData.split('_');
+      const recurringReply = await this.manageRecurringTask(
+        chatId,
+        recurringTaskId,
+        action,
+        language,
+      );
+      responseText = recurringReply.text;
+      inlineKeyboardMarkup = recurringReply.keyboard || [];
+    } else if (callbackData.startsWith('language_')) {
+      responseText = await this.setLanguage(
+        userId,
+        callbackData.slice('language_'.length),
+        language,
+      );
+    } else if (callbackData.startsWith('comment_')) {
+      const [, taskId, stepOrder] = callbackData.split('_');
+
+      await this.conversationState.set(
+        chatId,
+        USER_STEPS.AWAITING_APPROVE_COMMENT,
+        { taskId, stepOrder: Number(stepOrder) },
+      );
+      responseText = this.t(language, 'decision.askComment');
     } else {
       switch (callbackData) {
         case 'create_task':
-          await redis.set(
+          await this.conversationState.set(
             chatId,
-            JSON.stringify({
-              step: USER_STEPS.AWAITING_DESCRIPTION,
-              taskData: {},
-            }),
+            USER_STEPS.AWAITING_DESCRIPTION,
           );
-          responseText = 'Введите описание задачи:';
+          responseText = this.t(language, 'route.askDescription');
           break;
 
-        case 'watch_tasks':
-          try {
-            const tasks = await this.prisma.task.findMany({
-              where: {
-                chatId: userId,
-              },
-              orderBy: {
-                createdAt: 'desc',
-              },
-              take: 10,
-            });
+        case 'create_from_template':
+          const templates = await this.getTemplatesReply(language);
+          responseText = templates.text;
+          inlineKeyboardMarkup = templates.keyboard || [];
+          break;
 
-            if (tasks.length === 0) {
-              responseText = 'У вас нет созданных задач.';
-            } else {
-              responseText = '📝 *Последние 10 задач:*\n\n';
-
-              for (const task of tasks) {
-                const assignedUser = await this.prisma.user.findUnique({
-                  where: { vkId: task.userToId },
-                });
-
-                responseText +=
-                  `*Задача ${tasks.indexOf(task) + 1}:*\n` +
-                  `*Описание:* ${task.text ? task.text : task.fileCaption || 'Описание отсутствует'}\n` +
-                  `*Для кого:* ${assignedUser ? `${assignedUser.firstName} ${assignedUser.lastName}` : 'Неизвестный пользователь'}\n` +
-                  `*Статус:* ${task.status === 'APPROVED' ? 'Подтверждена' : task.status === 'REJECTED' ? 'Отклонена' : 'В ожидании'}\n` +
-                  `*Создано:* ${task.createdAt.toLocaleString()}\n\n`;
-              }
-            }
-          } catch (error) {
-            this.logger.error(`Ошибка при получении задач: ${error.message}`);
-            responseText =
-              'Произошла ошибка при получении задач. Попробуйте снова.';
+        case 'route_rule_all':
+        case 'route_rule_any':
+          if (step !== USER_STEPS.AWAITING_STEP_RULE) {
+            responseText = this.t(language, 'route.ruleUnavailable');
+            break;
           }
-          break;
 
-        case 'check_user_tasks':
-          await redis.set(
+          taskData.steps[taskData.steps.length - 1].rule =
+            callbackData === 'route_rule_any' ? STEP_RULE.ANY : STEP_RULE.ALL;
+          await this.conversationState.set(
             chatId,
-            JSON.stringify({
-              step: USER_STEPS.AWAITING_USER_ID_FOR_TASKS,
-              taskData: {},
-            }),
+            USER_STEPS.AWAITING_NEXT_STEP,
+            taskData,
           );
-          responseText = 'Отправьте контакт пользователя:';
+          responseText = this.t(language, 'route.ruleSaved');
+          inlineKeyboardMarkup = this.getNextStepKeyboard(language);
           break;
 
-        case 'watch_statistics':
-          try {
-            const totalTasks = await this.prisma.task.count({
-              where: {
-                chatId: userId,
-              },
-            });
+        case 'route_next_step':
+          if (step !== USER_STEPS.AWAITING_NEXT_STEP) {
+            responseText = this.t(language, 'route.nextStepUnavailable');
+            break;
+          }
 
-            const approvedTasks = await this.prisma.task.count({
-              where: {
-                chatId: userId,
-                status: 'APPROVED',
-              },
-            });
+          taskData.steps.push({ rule: null, approvers: [] });
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_USER_ID,
+            taskData,
+          );
+          responseText = this.t(language, 'route.askStepApprovers', {
+            step: taskData.steps.length,
+          });
+          break;
 
-            const rejectedTasks = await this.prisma.task.count({
-              where: {
-                chatId: userId,
-                status: 'REJECTED',
-              },
-            });
+        case 'deadline_skip':
+          if (step === USER_STEPS.AWAITING_RECURRING_DEADLINE) {
+            responseText = await this.createRecurringTaskFromState(
+              chatId,
+              taskData,
+              language,
+            );
+            break;
+          }
+          if (step !== USER_STEPS.AWAITING_DEADLINE) {
+            responseText = this.t(language, 'route.deadlineSkipUnavailable');
+            break;
+          }
 
-            const pendingTasks = await this.prisma.task.count({
-              where: {
-                chatId: userId,
-                status: 'PENDING',
-              },
-            });
+          responseText = await this.createTaskFromState(
+            chatId,
+            taskData,
+            language,
+          );
+          break;
 
-            responseText =
-              `📊 *Статистика по вашим задачам:*\n\n` +
-              `• Всего создано задач: ${totalTasks}\n` +
-              `• Одобрено: ${approvedTasks}\n` +
-              `• Отклонено: ${rejectedTasks}\n` +
-              `• В ожидании: ${pendingTasks}`;
-          } catch (error) {
-            this.logger.error(
-              `Ошибка при получении статистики: ${error.message}`,
+        case 'route_done':
+          if (step !== USER_STEPS.AWAITING_NEXT_STEP) {
+            responseText = this.t(language, 'route.doneUnavailable');
+            break;
+          }
+          if (taskData.templateId) {
+            // Reminder interval and deadline come from the template.
+            responseText = await this.createTaskFromState(
+              chatId,
+              taskData,
+              language,
             );
-            responseText =
-              'Произошла ошибка при получении статистики. Попробуйте снова.';
+            break;
           }
+
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_TIME,
+            taskData,
+          );
+          responseText = this.t(language, 'route.askInterval');
+          break;
+
+        case 'watch_tasks':
+          const tasksPage = await this.getTaskBrowserReply(userId, language);
+          responseText = tasksPage.text;
+          inlineKeyboardMarkup = tasksPage.keyboard || [];
+          break;
+
+        case 'check_user_tasks':
+          await this.conversationState.set(
+            chatId,
+            USER_STEPS.AWAITING_USER_ID_FOR_TASKS,
+          );
+          responseText = this.t(language, 'tasks.askUserContact');
+          break;
+
+        case 'notification_settings':
+          const settings = await this.getNotificationSettingsReply(
+            userId,
+            language,
+          );
+          responseText = settings.text;
+          inlineKeyboardMarkup = settings.keyboard || [];
+          break;
+
+        case 'choose_language':
+          const languages = this.getLanguageReply(language);
+          responseText = languages.text;
+          inlineKeyboardMarkup = languages.keyboard || [];
+          break;
+
+        case 'watch_statistics':
+          responseText = (await this.getStatisticsReply(userId, language)).text;
           break;
 
         default:
-          responseText =
-            'Неизвестная команда. Используйте /help для списка команд.';
+          responseText = this.t(language, 'common.unknownCommand');
           break;
       }
     }
 
+    // The answer only stops the button spinner: without it the reply is
+    // still sent and the event still counts as handled.
+    try {
+      await this.answerCallbackQuery(
+        queryId,
+        this.t(language, 'common.commandHandled'),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to answer callback query: ${error.message}`);
+    }
+
+    await this.reply(chatId, responseText, inlineKeyboardMarkup);
+  }
+
+  /**
+   * Group chats are not a place for dialogs: the bot only listens for the
+   * rejection reason of a member who pressed «Отклонить» on a group card.
+   */
+  async handleGroupMessage(
+    chatId: string,
+    text: string,
+    event: VkTeamsNewMessageEvent,
+  ): Promise<void> {
+    const memberId = event.payload.from.userId;
+    const stateKey = this.getGroupStateKey(chatId, memberId);
+    const memberState = await this.conversationState.get(stateKey);
+    if (memberState?.step !== USER_STEPS.AWAITING_REJECT_REASON) {
+      return;
+    }
+    if (!text || !text.trim()) {
+      return;
+    }
+
+    // Messages posted to the group are in the default language.
+    const language = DEFAULT_LANGUAGE;
+    let responseText: string;
+    try {
+      const decision = await this.tasksService.decide(
+        memberState.taskData.taskId,
+        memberId,
+        APPROVER_DECISION.REJECTED,
+        text,
+      );
+      // Recorded decisions are announced in the group by the tasks
+      // service; only a failed attempt needs an answer here.
+      responseText = [
+        'RECORDED',
+        'STEP_APPROVED',
+        'APPROVED',
+        'REJECTED',
+      ].includes(decision.result)
+        ? ''
+        : `${event.payload.from.firstName}, ${this.getDecisionResponseText(decision, language)}`;
+    } catch (error) {
+      this.logger.error(`Ошибка при отклонении задачи: ${error.message}`);
+      responseText = this.t(language, 'error.processTask');
+    }
+
+    await this.conversationState.clear(stateKey);
+    if (responseText) {
+      await this.reply(chatId, responseText, []);
+    }
+  }
+
+  /**
+   * Buttons of approval cards posted to group chats. Only members of the
+   * group may decide; each member gets a personal answer to the button
+   * press, and the decision is announced in the group by the tasks service.
+   */
+  async handleGroupCallback(event: VkTeamsCallbackQueryEvent): Promise<void> {
+    const { callbackData, queryId, from } = event.payload;
+    const chatId = event.payload.message.chat.chatId;
+
+    // The answer to a button press is shown only to the member who pressed
+    // it, so it is in their language.
+    const language = await this.i18nService.getLanguage(
+      from.userId,
+      from.language,
+    );
+    const taskButton = callbackData.match(/^(approve|reject)_(.+)$/);
+    let answer: string;
+    if (!taskButton) {
+      answer = this.t(language, 'group.buttonUnavailable');
+    } else {
+      const [, button, taskId] = taskButton;
+      await this.taskEventsService.record({
+        taskId,
+        type: TASK_EVENT_TYPE.BUTTON_PRESSED,
+        actorVkId: from.userId,
+        payload: { button, chatId },
+      });
+
+      try {
+        const blocker = await this.tasksService.checkCanDecide(
+          taskId,
+          from.userId,
+        );
+        if (blocker) {
+          answer = this.getDecisionResponseText(blocker, language);
+        } else {
+          // Members are registered on their first press so decisions and
+          // the timeline show their names.
+          await this.prisma.user.upsert({
+            where: { vkId: from.userId },
+            update: {},
+            create: {
+              vkId: from.userId,
+              firstName: from.firstName,
+              lastName: from.lastName ?? '',
+            },
+          });
+
+          if (button === 'approve') {
+            const decision = await this.tasksService.decide(
+              taskId,
+              from.userId,
+              APPROVER_DECISION.APPROVED,
+            );
+            answer = this.getDecisionResponseText(decision, language);
+          } else {
+            await this.conversationState.set(
+              this.getGroupStateKey(chatId, from.userId),
+              USER_STEPS.AWAITING_REJECT_REASON,
+              { taskId },
+            );
+            await this.reply(
+              chatId,
+              this.t(DEFAULT_LANGUAGE, 'group.askRejectReason', {
+                name: from.firstName,
+              }),
+              [],
+            );
+            answer = this.t(language, 'group.rejectReasonInChat');
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Ошибка при обработке задачи: ${error.message}`);
+        answer = this.t(language, 'error.processTask');
+      }
+    }
+
     try {
-      await this.answerCallbackQuery(queryId, 'Команда обработана');
+      await this.answerCallbackQuery(queryId, answer);
     } catch (error) {
       this.logger.error(`Failed to answer callback query: ${error.message}`);
+    }
+  }
+
+  /**
+   * Conversation state of one member inside a group chat.
+   */
+  private getGroupStateKey(chatId: string, userId: string): string {
+    return `${chatId}:${userId}`;
+  }
+
+  /**
+   * Replies go through the message queue so a temporary messenger outage
+   * does not lose them.
+   */
+  private async reply(
+    chatId: string,
+    text: MarkdownNode,
+    inlineKeyboardMarkup: VkTeamsKeyboard,
+  ): Promise<void> {
+    try {
+      this.logger.log(
+        `Отправка сообщения: ${JSON.stringify({ chatId, text, inlineKeyboardMarkup })}`,
+      );
+      await this.messageQueueService.enqueueMarkdown(chatId, text, {
+        inlineKeyboardMarkup,
+      });
+    } catch (error) {
+      this.logger.error(`Ошибка при отправке сообщения: ${error.message}`);
       throw error;
     }
+  }
+
+  private t(language: string, key: MessageKey, params?: MessageParams): string {
+    return this.i18nService.t(language, key, params);
+  }
+
+  private format(
+    language: string,
+    key: MessageKey,
+    params?: MessageParams,
+  ): MarkdownNode {
+    return this.i18nService.format(language, key, params);
+  }
+
+  private getDecisionResponseText(
+    decision: DecisionResult,
+    language: string,
+  ): string {
+    switch (decision.result) {
+      case 'NOT_FOUND':
+        return this.t(language, 'decision.taskNotFound');
+      case 'NOT_PENDING':
+        if (decision.status === TASK_STATUS.APPROVED) {
+          return this.t(language, 'decision.alreadyApproved');
+        }
+        if (decision.status === TASK_STATUS.REJECTED) {
+          return this.t(language, 'decision.alreadyRejected');
+        }
+        if (decision.status === TASK_STATUS.EXPIRED) {
+          return this.t(language, 'decision.expired');
+        }
+        if (decision.status === TASK_STATUS.CANCELLED) {
+          return this.t(language, 'decision.cancelled');
+        }
+        return this.t(language, 'decision.unknownStatus');
+      case 'NOT_APPROVER':
+        return this.t(language, 'decision.notApprover');
+      case 'NOT_GROUP_MEMBER':
+        return this.t(language, 'decision.notGroupMember');
+      case 'ALREADY_DECIDED':
+        return this.t(language, 'decision.alreadyDecided');
+      case 'RECORDED':
+        return this.t(language, 'decision.recorded');
+      case 'STEP_APPROVED':
+        return this.t(language, 'decision.stepApproved', {
+          step: decision.stepOrder + 1,
+          nextStep: decision.nextStepOrder + 1,
+        });
+      case 'APPROVED':
+        return this.t(language, 'decision.approved');
+      case 'REJECTED':
+        return this.t(language, 'decision.rejected');
+    }
+  }
+
+  /**
+   * Extracts user ids from one or more contact links separated by spaces,
+   * commas or new lines. Returns null if any of the links is malformed.
+   */
+  private parseContactIds(text: string): string[] | null {
+    const links = (text || '').split(/[\s,]+/).filter(Boolean);
+    if (links.length === 0) {
+      return null;
+    }
+
+    const ids: string[] = [];
+    for (const link of links) {
+      const urlParts = link.split('/');
+      const contactId = urlParts[urlParts.length - 1];
+      if (!contactId || !contactId.includes('@')) {
+        return null;
+      }
+      ids.push(contactId);
+    }
+    return [...new Set(ids)];
+  }
+
+  /**
+   * Turns the route step being collected into a group chat step and asks
+   * for the quorum. The bot has to be in the chat to post the card there.
+   */
+  private async addGroupStep(
+    chatId: string,
+    taskData: Record<string, any>,
+    groupChatId: string,
+    language: string,
+  ): Promise<string> {
+    const members = await this.tasksService.getGroupMembers(groupChatId);
+    if (!members) {
+      return this.t(language, 'route.botNotInGroup');
+    }
 
-    const url = `${this.apiUrl}/messages/sendText`;
-    const params = {
-      token: this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
+    const routeStep = taskData.steps[taskData.steps.length - 1];
+    routeStep.rule = STEP_RULE.QUORUM;
+    routeStep.groupChatId = groupChatId;
+    routeStep.groupSize = members.length;
+    await this.conversationState.set(
       chatId,
-      text: responseText,
-      parseMode: 'MarkdownV2',
-    };
+      USER_STEPS.AWAITING_QUORUM,
+      taskData,
+    );
+    return this.t(language, 'route.askQuorum', {
+      step: taskData.steps.length,
+      count: members.length,
+    });
+  }
+
+  /**
+   * Names the users the actor may not send tasks to, or returns null if all
+   * of them are allowed.
+   */
+  private async getAssignmentError(
+    actorVkId: string,
+    vkIds: string[],
+    language: string,
+  ): Promise<string | null> {
+    const forbiddenIds = await this.usersService.findForbiddenAssignees(
+      actorVkId,
+      vkIds,
+    );
+    if (forbiddenIds.length === 0) {
+      return null;
+    }
+    const names = await this.notificationsService.getUserNames(forbiddenIds);
+    return this.t(language, 'route.assignmentForbidden', {
+      names: forbiddenIds.map((vkId) => names.get(vkId)).join(', '),
+    });
+  }
+
+  /**
+   * Creates the task collected by a dialog. A deadline given in hours, as
+   * templates do, counts from now rather than from the start of the dialog.
+   */
+  private async createTaskFromState(
+    chatId: string,
+    taskData: Record<string, any>,
+    language: string,
+  ): Promise<string> {
+    const deadline = taskData.deadline
+      ? new Date(taskData.deadline)
+      : taskData.deadlineHours
+        ? new Date(Date.now() + taskData.deadlineHours * 60 * 60 * 1000)
+        : undefined;
 
     try {
-      console.log('Отправка сообщения:', { chatId, text: responseText });
-      const response = await axios.post(url, null, { params });
-      console.log('Ответ от API:', response.data);
-      return response.data;
+      await this.tasksService.createTask({
+        chatId: chatId,
+        firstName: taskData.firstName,
+        lastName: taskData.lastName,
+        text: taskData.description,
+        fileId: taskData.fileId,
+        fileCaption: taskData.fileCaption,
+        remindInterval: taskData.remindInterval,
+        deadline,
+        escalationPolicy: taskData.escalationPolicy,
+        backupApproverVkId: taskData.backupApproverVkId,
+        steps: taskData.steps.map((step) => ({
+          rule: step.rule || STEP_RULE.ALL,
+          approvers: step.approvers,
+          groupChatId: step.groupChatId,
+          quorum: step.quorum,
+        })),
+      });
+      this.logger.log(`Задача создана: ${JSON.stringify(taskData)}`);
     } catch (error) {
-      this.logger.error(`Failed to send message: ${error.message}`);
-      throw error;
+      this.logger.error(`Ошибка при создании задачи: ${error.message}`);
+      return this.t(language, 'error.createTask');
+    }
+
+    await this.conversationState.clear(chatId);
+    return this.t(language, 'route.taskCreated');
+  }
+
+  private async createRecurringTaskFromState(
+    chatId: string,
+    taskData: Record<string, any>,
+    language: string,
+  ): Promise<string> {
+    let nextRunAt: Date;
+    try {
+      const recurringTask = await this.recurringTasksService.create({
+        authorVkId: chatId,
+        firstName: taskData.firstName,
+        lastName: taskData.lastName,
+        text: taskData.description,
+        steps: taskData.steps.map((step) => ({
+          rule: step.rule || STEP_RULE.ALL,
+          approvers: step.approvers,
+          groupChatId: step.groupChatId,
+          quorum: step.quorum,
+        })),
+        remindInterval: taskData.remindInterval,
+        deadlineHours: taskData.deadlineHours,
+        schedule: taskData.schedule,
+        timeZone: taskData.timeZone,
+      });
+      nextRunAt = recurringTask.nextRunAt;
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при создании повторяющейся задачи: ${error.message}`,
+      );
+      return this.t(language, 'error.createRecurringTask');
     }
+
+    await this.conversationState.clear(chatId);
+    return this.t(language, 'recurring.created', {
+      date: this.calendarService.formatDate(
+        nextRunAt,
+        taskData.timeZone,
+        language,
+      ),
+    });
   }
 
-  async answerCallbackQuery(queryId: string, text?: string): Promise<any> {
-    const url = `${this.apiUrl}/messages/answerCallbackQuery`;
-    const params = {
-      token: this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
-      queryId,
-      text,
+  /**
+   * Accepts an absolute date (`ДД.ММ.ГГГГ` with optional `ЧЧ:ММ`) or a
+   * relative `через N ч` (`in N h`). Returns null for unparsable or past
+   * dates.
+   */
+  private parseDeadline(text: string, timeZone: string): Date | null {
+    const value = (text || '').trim().toLowerCase();
+
+    const relative = value.match(
+      /^(?:через\s+|in\s+)?(\d+)\s*(?:ч|час|часа|часов|h|hours?)\.?$/,
+    );
+    if (relative) {
+      const hours = parseInt(relative[1], 10);
+      return hours > 0 ? new Date(Date.now() + hours * 60 * 60 * 1000) : null;
+    }
+
+    const absolute = value.match(
+      /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:\s+(\d{1,2}):(\d{2}))?$/,
+    );
+    if (!absolute) {
+      return null;
+    }
+
+    const [, day, month, year, hours, minutes] = absolute;
+    const local = {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: hours ? Number(hours) : 23,
+      minute: minutes ? Number(minutes) : 59,
     };
+    if (
+      local.month < 1 ||
+      local.month > 12 ||
+      local.day < 1 ||
+      local.day > new Date(Date.UTC(local.year, local.month, 0)).getUTCDate() ||
+      local.hour > 23 ||
+      local.minute > 59
+    ) {
+      return null;
+    }
+
+    const deadline = this.calendarService.toUtc(local, timeZone);
+    return deadline.getTime() > Date.now() ? deadline : null;
+  }
+
+  /**
+   * Accepts `ДД.ММ.ГГГГ-ДД.ММ.ГГГГ`. The period covers both days in full.
+   * Returns null for unparsable periods.
+   */
+  private parsePeriod(
+    text: string,
+    timeZone: string,
+  ): { from: Date; until: Date } | null {
+    const match = (text || '')
+      .trim()
+      .match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})-(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (!match) {
+      return null;
+    }
+
+    const [from, until] = [match.slice(1, 4), match.slice(4, 7)].map(
+      ([day, month, year], index) => {
+        const local = {
+          year: Number(year),
+          month: Number(month),
+          day: Number(day),
+          hour: index === 0 ? 0 : 23,
+          minute: index === 0 ? 0 : 59,
+        };
+        const daysInMonth = new Date(
+          Date.UTC(local.year, local.month, 0),
+        ).getUTCDate();
+        return local.month < 1 ||
+          local.month > 12 ||
+          local.day < 1 ||
+          local.day > daysInMonth
+          ? null
+          : this.calendarService.toUtc(local, timeZone);
+      },
+    );
+    if (!from || !until || from > until) {
+      return null;
+    }
+    return { from, until };
+  }
+
+  private registerCommands(): void {
+    const commands: BotCommand[] = [
+      {
+        name: '/start',
+        description: 'command.start',
+        handler: (context) => this.handleStartCommand(context),
+      },
+      {
+        name: '/create-task',
+        aliases: ['/new'],
+        description: 'command.createTask',
+        args: [
+          {
+            name: 'description',
+            label: 'arg.description',
+            optional: true,
+            rest: true,
+          },
+        ],
+        handler: (context) => this.handleCreateTaskCommand(context),
+      },
+      {
+        name: '/templates',
+        description: 'command.templates',
+        handler: (context) => this.getTemplatesReply(context.language),
+      },
+      {
+        name: '/template-create',
+        description: 'command.templateCreate',
+        adminOnly: true,
+        args: [
+          {
+            name: 'template',
+            label: 'arg.template',
+            rest: true,
+          },
+        ],
+        handler: (context) => this.handleTemplateCreateCommand(context),
+      },
+      {
+        name: '/template-delete',
+        description: 'command.templateDelete',
+        adminOnly: true,
+        args: [{ name: 'name', label: 'arg.templateName', rest: true }],
+        handler: (context) => this.handleTemplateDeleteCommand(context),
+      },
+      {
+        name: '/recurring',
+        description: 'command.recurring',
+        handler: (context) =>
+          this.getRecurringTasksReply(context.chatId, context.language),
+      },
+      {
+        name: '/recurring-create',
+        description: 'command.recurringCreate',
+        args: [
+          {
+            name: 'schedule',
+            label: 'arg.cron',
+            rest: true,
+          },
+        ],
+        handler: (context) => this.handleRecurringCreateCommand(context),
+      },
+      {
+        name: '/delete-task',
+        aliases: ['/cancel-task'],
+        description: 'command.deleteTask',
+        args: [{ name: 'taskId', label: 'arg.taskId' }],
+        handler: (context) => this.handleDeleteTaskCommand(context),
+      },
+      {
+        name: '/edit-task',
+        description: 'command.editTask',
+        args: [{ name: 'taskId', label: 'arg.taskId' }],
+        handler: (context) => this.handleEditTaskCommand(context),
+      },
+      {
+        name: '/watch-last-tasks',
+        aliases: ['/tasks'],
+        description: 'command.watchLastTasks',
+        handler: (context) =>
+          this.getTaskBrowserReply(context.userId, context.language),
+      },
+      {
+        name: '/user-tasks',
+        description: 'command.userTasks',
+        args: [{ name: 'contact', label: 'arg.contact', optional: true }],
+        handler: (context) => this.handleUserTasksCommand(context),
+      },
+      {
+        name: '/stats',
+        aliases: ['/statistics'],
+        description: 'command.stats',
+        args: [{ name: 'period', label: 'arg.period', optional: true }],
+        handler: (context) =>
+          this.getStatisticsReply(
+            context.userId,
+            context.language,
+            context.args.period,
+          ),
+      },
+      {
+        name: '/export',
+        description: 'command.export',
+        args: [
+          {
+            name: 'options',
+            label: 'arg.exportOptions',
+            optional: true,
+            rest: true,
+          },
+        ],
+        handler: (context) => this.handleExportCommand(context),
+      },
+      {
+        name: '/notifications',
+        description: 'command.notifications',
+        handler: (context) =>
+          this.getNotificationSettingsReply(context.userId, context.language),
+      },
+      {
+        name: '/timezone',
+        description: 'command.timezone',
+        args: [{ name: 'timeZone', label: 'arg.timeZone' }],
+        handler: (context) => this.handleTimeZoneCommand(context),
+      },
+      {
+        name: '/work-hours',
+        description: 'command.workHours',
+        args: [{ name: 'schedule', label: 'arg.workHours', rest: true }],
+        handler: (context) => this.handleWorkHoursCommand(context),
+      },
+      {
+        name: '/out-of-office',
+        aliases: ['/ooo'],
+        description: 'command.outOfOffice',
+        args: [
+          { name: 'period', label: 'arg.period', optional: true },
+          { name: 'contact', label: 'arg.deputyContact', optional: true },
+        ],
+        handler: (context) => this.handleOutOfOfficeCommand(context),
+      },
+      {
+        name: '/holidays',
+        description: 'command.holidays',
+        handler: (context) => this.handleHolidaysCommand(context),
+      },
+      {
+        name: '/api-keys',
+        description: 'command.apiKeys',
+        adminOnly: true,
+        handler: (context) => this.handleApiKeysCommand(context),
+      },
+      {
+        name: '/api-key-create',
+        description: 'command.apiKeyCreate',
+        adminOnly: true,
+        args: [
+          { name: 'name', label: 'arg.apiKeyName' },
+          {
+            name: 'scopes',
+            label: 'arg.scopes',
+            labelParams: { scopes: Object.values(API_KEY_SCOPE).join(',') },
+          },
+        ],
+        handler: (context) => this.handleApiKeyCreateCommand(context),
+      },
+      {
+        name: '/api-key-revoke',
+        description: 'command.apiKeyRevoke',
+        adminOnly: true,
+        args: [{ name: 'prefix', label: 'arg.prefix' }],
+        handler: (context) => this.handleApiKeyRevokeCommand(context),
+      },
+      {
+        name: '/users',
+        description: 'command.users',
+        adminOnly: true,
+        handler: (context) => this.handleUsersCommand(context),
+      },
+      {
+        name: '/user-role',
+        description: 'command.userRole',
+        adminOnly: true,
+        args: [
+          { name: 'contact', label: 'arg.contact' },
+          { name: 'role', label: 'arg.role' },
+        ],
+        handler: (context) => this.handleUserRoleCommand(context),
+      },
+      {
+        name: '/user-department',
+        description: 'command.userDepartment',
+        adminOnly: true,
+        args: [
+          { name: 'contact', label: 'arg.contact' },
+          {
+            name: 'department',
+            label: 'arg.department',
+            optional: true,
+            rest: true,
+          },
+        ],
+        handler: (context) => this.handleUserDepartmentCommand(context),
+      },
+      {
+        name: '/set-manager',
+        description: 'command.setManager',
+        adminOnly: true,
+        args: [
+          { name: 'contact', label: 'arg.contact' },
+          { name: 'manager', label: 'arg.managerContact', optional: true },
+        ],
+        handler: (context) => this.handleSetManagerCommand(context),
+      },
+      {
+        name: '/language',
+        description: 'command.language',
+        args: [{ name: 'language', label: 'arg.language', optional: true }],
+        handler: (context) => this.handleLanguageCommand(context),
+      },
+      {
+        name: '/cancel',
+        description: 'command.cancel',
+        availableInDialog: true,
+        handler: (context) => this.handleCancelCommand(context),
+      },
+      {
+        name: '/help',
+        description: 'command.help',
+        availableInDialog: true,
+        handler: async (context) => ({
+          text: this.commandRouter.getHelp(context.isAdmin, context.language),
+        }),
+      },
+    ];
+
+    for (const command of commands) {
+      this.commandRouter.register(command);
+    }
+  }
+
+  private async handleStartCommand({
+    chatId,
+    language,
+    event,
+  }: CommandContext): Promise<CommandReply> {
+    await this.conversationState.clear(chatId);
+
+    const { firstName, lastName } = event.payload.from;
+
+    try {
+      await this.prisma.user.upsert({
+        where: { vkId: chatId },
+        update: {},
+        create: {
+          vkId: chatId,
+          firstName,
+          lastName,
+        },
+      });
+      this.logger.log(`Пользователь ${chatId} добавлен или уже существует.`);
+    } catch (error) {
+      this.logger.error(`Ошибка при добавлении пользователя: ${error.message}`);
+      throw error;
+    }
+
+    return {
+      text: this.t(language, 'start.welcome'),
+      keyboard: [
+        [
+          {
+            text: this.t(language, 'button.createTask'),
+            callbackData: 'create_task',
+            style: 'primary',
+          },
+          {
+            text: this.t(language, 'button.createFromTemplate'),
+            callbackData: 'create_from_template',
+            style: 'primary',
+          },
+        ],
+        [
+          {
+            text: this.t(language, 'button.userTasks'),
+            callbackData: 'check_user_tasks',
+            style: 'primary',
+          },
+        ],
+        [
+          {
+            text: this.t(language, 'button.recentTasks'),
+            callbackData: 'watch_tasks',
+            style: 'primary',
+          },
+        ],
+        [
+          {
+            text: this.t(language, 'button.statistics'),
+            callbackData: 'watch_statistics',
+            style: 'primary',
+          },
+        ],
+        [
+          {
+            text: this.t(language, 'button.notificationSettings'),
+            callbackData: 'notification_settings',
+            style: 'primary',
+          },
+        ],
+        [
+          {
+            text: this.t(language, 'button.language'),
+            callbackData: 'choose_language',
+            style: 'base',
+          },
+        ],
+      ],
+    };
+  }
+
+  private async handleCreateTaskCommand({
+    chatId,
+    args,
+    language,
+    event,
+  }: CommandContext): Promise<CommandReply> {
+    if (args.description) {
+      return {
+        text: await this.startRouteCollection(
+          chatId,
+          args.description,
+          event,
+          language,
+        ),
+      };
+    }
+
+    await this.conversationState.set(chatId, USER_STEPS.AWAITING_DESCRIPTION);
+    return { text: this.t(language, 'route.askDescription') };
+  }
+
+  /**
+   * Accepts the full task id or the short one shown in task lists. Only the
+   * author's pending tasks are looked up.
+   */
+  private async handleDeleteTaskCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const lookup = await this.findOwnPendingTask(chatId, args.taskId);
+      if ('error' in lookup) {
+        return { text: this.t(language, lookup.error) };
+      }
+      return {
+        text: await this.cancelOwnTask(lookup.taskId, chatId, language),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при отмене задачи: ${error.message}`);
+      return { text: this.t(language, 'error.cancelTask') };
+    }
+  }
+
+  private async handleEditTaskCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const lookup = await this.findOwnPendingTask(chatId, args.taskId);
+      if ('error' in lookup) {
+        return { text: this.t(language, lookup.error) };
+      }
+      return {
+        text: this.t(language, 'edit.askField'),
+        keyboard: this.getTaskEditKeyboard(lookup.taskId, language),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при поиске задачи: ${error.message}`);
+      return { text: this.t(language, 'error.findTask') };
+    }
+  }
+
+  /**
+   * Accepts the full task id or the short one shown in task lists. Only the
+   * author's pending tasks are looked up.
+   */
+  private async findOwnPendingTask(
+    chatId: string,
+    taskIdText: string,
+  ): Promise<{ taskId: string } | { error: MessageKey }> {
+    const taskId = taskIdText.toLowerCase();
+    const tasks = await this.prisma.task.findMany({
+      where: { chatId, status: TASK_STATUS.PENDING },
+      select: { id: true },
+    });
+    const matches = tasks.filter(
+      (task) =>
+        task.id === taskId ||
+        (taskId.length >= 8 && task.id.startsWith(taskId)),
+    );
+
+    if (matches.length === 0) {
+      return { error: 'ownTask.notFound' };
+    }
+    if (matches.length > 1) {
+      return { error: 'ownTask.ambiguousId' };
+    }
+    return { taskId: matches[0].id };
+  }
+
+  private async cancelOwnTask(
+    taskId: string,
+    chatId: string,
+    language: string,
+  ): Promise<string> {
+    const { result } = await this.tasksService.cancelTask(taskId, chatId);
+    switch (result) {
+      case 'CANCELLED':
+        return this.t(language, 'ownTask.cancelled');
+      case 'NOT_PENDING':
+        return this.t(language, 'ownTask.notPending');
+      default:
+        return this.t(language, 'decision.taskNotFound');
+    }
+  }
+
+  /**
+   * Forwards the approver's part of the task to the user whose contact was
+   * sent. Asks again if the contact cannot take the task over.
+   */
+  private async forwardTask(
+    chatId: string,
+    taskId: string,
+    userId: string,
+    text: string,
+    language: string,
+  ): Promise<string> {
+    const contactIds = this.parseContactIds(text);
+    if (!contactIds || contactIds.length !== 1) {
+      return this.t(language, 'forward.oneContact');
+    }
+    const recipient = await this.tasksService.findUser(contactIds[0]);
+    if (!recipient) {
+      return this.t(language, 'forward.userNotFound');
+    }
+    const assignmentError = await this.getAssignmentError(
+      userId,
+      [recipient.vkId],
+      language,
+    );
+    if (assignmentError) {
+      return this.t(language, 'forward.sendAnother', {
+        error: assignmentError,
+      });
+    }
+
+    const delegation = await this.tasksService.delegate(
+      taskId,
+      userId,
+      recipient.vkId,
+    );
+    switch (delegation.result) {
+      case 'SAME_USER':
+        return this.t(language, 'forward.sameUser');
+      case 'ALREADY_APPROVER':
+        return this.t(language, 'forward.alreadyApprover');
+    }
+
+    await this.conversationState.clear(chatId);
+    if (delegation.result !== 'DELEGATED') {
+      return this.getDecisionResponseText(delegation, language);
+    }
+
+    const names = await this.notificationsService.getUserNames(
+      delegation.chain,
+    );
+    return this.t(language, 'forward.done', {
+      chain: delegation.chain.map((vkId) => names.get(vkId)).join(' → '),
+    });
+  }
+
+  /**
+   * Applies the value the author sent for the field chosen in the edit
+   * menu. On invalid input the dialog stays open so the author can retry.
+   */
+  private async applyTaskEdit(
+    chatId: string,
+    taskData: Record<string, any>,
+    text: string,
+    file: VkTeamsFilePart['payload'] | undefined,
+    language: string,
+  ): Promise<string> {
+    let input: EditTaskInput;
+
+    switch (taskData.field) {
+      case 'text':
+        if (!text?.trim()) {
+          return this.t(language, 'edit.textEmpty');
+        }
+        input = { text: text.trim() };
+        break;
+
+      case 'file':
+        if (!file) {
+          return this.t(language, 'edit.fileMissing');
+        }
+        input = { fileId: file.fileId, fileCaption: file.caption ?? text };
+        break;
+
+      case 'interval':
+        const interval = parseInt(text, 10);
+        if (isNaN(interval) || interval <= 0) {
+          return this.t(language, 'route.invalidInterval');
+        }
+        input = { remindInterval: interval };
+        break;
+
+      case 'approver':
+        const contactIds = this.parseContactIds(text);
+        if (!contactIds || contactIds.length !== 2) {
+          return this.t(language, 'edit.askApprover');
+        }
+        const [unknownId] = await this.tasksService.findUnknownUsers([
+          contactIds[1],
+        ]);
+        if (unknownId) {
+          return this.t(language, 'common.usersNotFound', { ids: unknownId });
+        }
+        const assignmentError = await this.getAssignmentError(
+          chatId,
+          [contactIds[1]],
+          language,
+        );
+        if (assignmentError) {
+          return assignmentError;
+        }
+        input = { replaceApprover: { from: contactIds[0], to: contactIds[1] } };
+        break;
+
+      default:
+        await this.conversationState.clear(chatId);
+        return this.t(language, 'edit.unavailable');
+    }
+
+    const edit = await this.tasksService.editTask(
+      taskData.taskId,
+      chatId,
+      input,
+    );
+    if (edit.result === 'NOT_IN_ROUTE') {
+      return this.t(language, 'edit.notInRoute');
+    }
+
+    await this.conversationState.clear(chatId);
+    switch (edit.result) {
+      case 'EDITED':
+        return this.t(language, 'edit.edited');
+      case 'NO_CHANGES':
+        return this.t(language, 'edit.noChanges');
+      case 'HAS_DECISIONS':
+        return this.t(language, 'edit.hasDecisions');
+      case 'NOT_PENDING':
+        return this.t(language, 'ownTask.notPending');
+      default:
+        return this.t(language, 'decision.taskNotFound');
+    }
+  }
+
+  private async handleUserTasksCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    if (args.contact) {
+      return this.getUserTasksReply(chatId, args.contact, language);
+    }
+
+    await this.conversationState.set(
+      chatId,
+      USER_STEPS.AWAITING_USER_ID_FOR_TASKS,
+    );
+    return { text: this.t(language, 'tasks.askUserContact') };
+  }
+
+  private async handleTimeZoneCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const { timeZone } = args;
+    if (!this.calendarService.isValidTimeZone(timeZone)) {
+      return { text: this.t(language, 'settings.timeZoneUsage') };
+    }
+
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { vkId: chatId },
+        data: { timeZone },
+      });
+      return {
+        text:
+          count > 0
+            ? this.t(language, 'settings.timeZoneSaved', { timeZone })
+            : this.t(language, 'common.startFirst'),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при сохранении часового пояса: ${error.message}`,
+      );
+      return { text: this.t(language, 'error.saveSettings') };
+    }
+  }
+
+  private async handleWorkHoursCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const schedule = this.parseWorkingHours(args.schedule);
+    if (!schedule) {
+      return { text: this.t(language, 'settings.workHoursUsage') };
+    }
+
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { vkId: chatId },
+        data: schedule,
+      });
+      return {
+        text:
+          count > 0
+            ? this.t(language, 'settings.workHoursSaved', {
+                start: this.calendarService.formatMinutes(schedule.workStart),
+                end: this.calendarService.formatMinutes(schedule.workEnd),
+                days: schedule.workDays.join(', '),
+              })
+            : this.t(language, 'common.startFirst'),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при сохранении рабочего времени: ${error.message}`,
+      );
+      return { text: this.t(language, 'error.saveSettings') };
+    }
+  }
+
+  private async handleOutOfOfficeCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const usage = this.t(language, 'outOfOffice.usage');
+
+    try {
+      const user = await this.tasksService.findUser(chatId);
+      if (!user) {
+        return { text: this.t(language, 'common.startFirst') };
+      }
+      const timeZone = await this.calendarService.getUserTimeZone(chatId);
+
+      if (!args.period) {
+        if (
+          !user.substituteVkId ||
+          !user.outOfOfficeFrom ||
+          !user.outOfOfficeUntil ||
+          user.outOfOfficeUntil < new Date()
+        ) {
+          return { text: this.t(language, 'outOfOffice.notSet', { usage }) };
+        }
+        const names = await this.notificationsService.getUserNames([
+          user.substituteVkId,
+        ]);
+        return {
+          text: this.t(language, 'outOfOffice.current', {
+            from: this.calendarService.formatDate(
+              user.outOfOfficeFrom,
+              timeZone,
+              language,
+            ),
+            until: this.calendarService.formatDate(
+              user.outOfOfficeUntil,
+              timeZone,
+              language,
+            ),
+            name: names.get(user.substituteVkId),
+          }),
+        };
+      }
+
+      if (args.period.toLowerCase() === 'off') {
+        await this.tasksService.setOutOfOffice(chatId, null);
+        return { text: this.t(language, 'outOfOffice.cancelled') };
+      }
+
+      const period = this.parsePeriod(args.period, timeZone);
+      if (!period || period.until.getTime() <= Date.now()) {
+        return { text: usage };
+      }
+      const substituteIds = this.parseContactIds(args.contact ?? '');
+      if (!substituteIds || substituteIds.length !== 1) {
+        return { text: usage };
+      }
+      if (substituteIds[0] === chatId) {
+        return { text: this.t(language, 'outOfOffice.selfSubstitute') };
+      }
+      const substitute = await this.tasksService.findUser(substituteIds[0]);
+      if (!substitute) {
+        return { text: this.t(language, 'common.userNotFound') };
+      }
+      const assignmentError = await this.getAssignmentError(
+        chatId,
+        [substitute.vkId],
+        language,
+      );
+      if (assignmentError) {
+        return { text: assignmentError };
+      }
+
+      await this.tasksService.setOutOfOffice(chatId, {
+        ...period,
+        substituteVkId: substitute.vkId,
+      });
+      return {
+        text: this.t(language, 'outOfOffice.saved', {
+          from: this.calendarService.formatDate(
+            period.from,
+            timeZone,
+            language,
+          ),
+          until: this.calendarService.formatDate(
+            period.until,
+            timeZone,
+            language,
+          ),
+          name: `${substitute.firstName} ${substitute.lastName}`,
+        }),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при сохранении отсутствия: ${error.message}`);
+      return { text: this.t(language, 'error.saveSettings') };
+    }
+  }
+
+  private async handleHolidaysCommand({
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const holidays = await this.calendarService.getHolidays();
+      return {
+        text:
+          holidays.length === 0
+            ? this.t(language, 'holidays.none')
+            : [
+                this.format(language, 'holidays.title'),
+                '\n\n',
+                holidays
+                  .map((holiday) => `${holiday.date} — ${holiday.name}`)
+                  .join('\n'),
+              ],
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при получении праздников: ${error.message}`);
+      return { text: this.t(language, 'error.holidays') };
+    }
+  }
+
+  private async handleApiKeysCommand({
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const apiKeys = await this.apiKeysService.list();
+      if (apiKeys.length === 0) {
+        return { text: this.t(language, 'apiKeys.none') };
+      }
+      return {
+        text: [
+          this.format(language, 'apiKeys.title'),
+          '\n\n',
+          join(
+            apiKeys.map((apiKey) => [
+              code(apiKey.prefix),
+              ` ${apiKey.name} (${apiKey.scopes.join(', ')})`,
+              apiKey.revokedAt ? this.t(language, 'apiKeys.revokedMark') : '',
+            ]),
+            '\n',
+          ),
+        ],
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при работе с API-ключами: ${error.message}`);
+      return { text: this.t(language, 'error.apiKeys') };
+    }
+  }
+
+  private async handleApiKeyCreateCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const scopes = args.scopes.split(',').filter(Boolean);
+    const knownScopes = Object.values(API_KEY_SCOPE);
+    if (
+      scopes.length === 0 ||
+      scopes.some((scope) => !knownScopes.includes(scope))
+    ) {
+      return {
+        text: this.t(language, 'apiKeys.createUsage', {
+          scopes: knownScopes.join(','),
+        }),
+      };
+    }
+
+    try {
+      const { key } = await this.apiKeysService.issue(
+        args.name,
+        scopes,
+        chatId,
+      );
+      return {
+        text: this.format(language, 'apiKeys.issued', {
+          name: args.name,
+          key,
+        }),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при работе с API-ключами: ${error.message}`);
+      return { text: this.t(language, 'error.apiKeys') };
+    }
+  }
+
+  private async handleApiKeyRevokeCommand({
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const revoked = await this.apiKeysService.revoke(args.prefix);
+      return {
+        text: revoked
+          ? this.t(language, 'apiKeys.revoked', { prefix: args.prefix })
+          : this.t(language, 'apiKeys.notFound'),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при работе с API-ключами: ${error.message}`);
+      return { text: this.t(language, 'error.apiKeys') };
+    }
+  }
+
+  private async handleUsersCommand({
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const users = await this.usersService.listUsers();
+      if (users.length === 0) {
+        return { text: this.t(language, 'users.none') };
+      }
+      return {
+        text: [
+          this.format(language, 'users.title'),
+          '\n\n',
+          users
+            .map(
+              (user) =>
+                `${user.firstName} ${user.lastName} (${user.vkId}) — ${USER_ROLE_LABELS[user.role] ? this.t(language, USER_ROLE_LABELS[user.role]) : user.role}, ${user.department || this.t(language, 'users.noDepartment')}`,
+            )
+            .join('\n'),
+        ],
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при получении пользователей: ${error.message}`);
+      return { text: this.t(language, 'error.users') };
+    }
+  }
+
+  private async handleUserRoleCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const userIds = this.parseContactIds(args.contact);
+    const role = Object.values(USER_ROLE).find(
+      (item) => item === args.role.toUpperCase(),
+    );
+    if (!userIds || userIds.length !== 1 || !role) {
+      return { text: this.t(language, 'users.roleUsage') };
+    }
+    if (userIds[0] === chatId) {
+      return { text: this.t(language, 'users.ownRole') };
+    }
+
+    try {
+      const user = await this.usersService.setRole(userIds[0], role);
+      return {
+        text: user
+          ? this.t(language, 'users.roleSaved', {
+              name: `${user.firstName} ${user.lastName}`,
+              role: this.t(language, USER_ROLE_LABELS[role]),
+            })
+          : this.t(language, 'common.userNotFound'),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при сохранении роли: ${error.message}`);
+      return { text: this.t(language, 'error.saveRole') };
+    }
+  }
+
+  private async handleUserDepartmentCommand({
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const userIds = this.parseContactIds(args.contact);
+    if (!userIds || userIds.length !== 1) {
+      return { text: this.t(language, 'users.departmentUsage') };
+    }
+
+    try {
+      const department = args.department?.trim() || null;
+      const user = await this.usersService.setDepartment(
+        userIds[0],
+        department,
+      );
+      return {
+        text: !user
+          ? this.t(language, 'common.userNotFound')
+          : this.t(
+              language,
+              department ? 'users.departmentSaved' : 'users.departmentRemoved',
+              { name: `${user.firstName} ${user.lastName}`, department },
+            ),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при сохранении отдела: ${error.message}`);
+      return { text: this.t(language, 'error.saveDepartment') };
+    }
+  }
+
+  private async handleSetManagerCommand({
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const userIds = this.parseContactIds(args.contact);
+    const managerIds = args.manager ? this.parseContactIds(args.manager) : [];
+    if (
+      !userIds ||
+      userIds.length !== 1 ||
+      !managerIds ||
+      managerIds.length > 1
+    ) {
+      return { text: this.t(language, 'users.managerUsage') };
+    }
+    if (managerIds[0] === userIds[0]) {
+      return { text: this.t(language, 'users.ownManager') };
+    }
+
+    try {
+      const manager = managerIds[0]
+        ? await this.usersService.findUser(managerIds[0])
+        : null;
+      if (managerIds[0] && !manager) {
+        return { text: this.t(language, 'common.userNotFound') };
+      }
+
+      const user = await this.usersService.setManager(
+        userIds[0],
+        manager?.vkId ?? null,
+      );
+      if (!user) {
+        return { text: this.t(language, 'common.userNotFound') };
+      }
+      const name = `${user.firstName} ${user.lastName}`;
+      return {
+        text: manager
+          ? this.t(language, 'users.managerSaved', {
+              name,
+              manager: `${manager.firstName} ${manager.lastName}`,
+            })
+          : this.t(language, 'users.managerRemoved', { name }),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при сохранении руководителя: ${error.message}`);
+      return { text: this.t(language, 'error.saveManager') };
+    }
+  }
+
+  /**
+   * `название | интервал | срок | описание | контакты`: the contacts make up
+   * a single step where everyone has to approve; without them the author
+   * picks the route when creating the task.
+   */
+  private async handleTemplateCreateCommand({
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const usage = this.t(language, 'template.createUsage');
+    const parts = args.template.split('|').map((part) => part.trim());
+    if (parts.length < 4 || parts.length > 5) {
+      return { text: usage };
+    }
+
+    const [name, intervalText, deadlineText, description, contacts] = parts;
+    const remindInterval = parseInt(intervalText, 10);
+    const deadlineHours =
+      deadlineText === '-' ? null : parseInt(deadlineText, 10);
+    if (
+      !name ||
+      !description ||
+      isNaN(remindInterval) ||
+      remindInterval <= 0 ||
+      (deadlineHours !== null && (isNaN(deadlineHours) || deadlineHours <= 0))
+    ) {
+      return { text: usage };
+    }
+
+    const approvers = contacts ? this.parseContactIds(contacts) : [];
+    if (!approvers) {
+      return { text: this.t(language, 'template.invalidContact') };
+    }
+
+    try {
+      if (await this.templatesService.findByName(name)) {
+        return { text: this.t(language, 'template.exists', { name }) };
+      }
+      const unknownIds = await this.tasksService.findUnknownUsers(approvers);
+      if (unknownIds.length > 0) {
+        return {
+          text: this.t(language, 'common.usersNotFound', {
+            ids: unknownIds.join(', '),
+          }),
+        };
+      }
+
+      const template = await this.templatesService.create({
+        name,
+        description,
+        steps: approvers.length > 0 ? [{ rule: STEP_RULE.ALL, approvers }] : [],
+        remindInterval,
+        deadlineHours,
+      });
+      const fields = this.templatesService.getFields(template.description);
+      return {
+        text: this.t(language, 'template.created', {
+          name: template.name,
+          fields:
+            fields.length > 0
+              ? fields.join(', ')
+              : this.t(language, 'template.noFields'),
+        }),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при создании шаблона: ${error.message}`);
+      return { text: this.t(language, 'error.createTemplate') };
+    }
+  }
+
+  private async handleTemplateDeleteCommand({
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    try {
+      const template = await this.templatesService.findByName(args.name.trim());
+      if (!template || !(await this.templatesService.remove(template.id))) {
+        return { text: this.t(language, 'template.notFound') };
+      }
+      return {
+        text: this.t(language, 'template.deleted', { name: template.name }),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при удалении шаблона: ${error.message}`);
+      return { text: this.t(language, 'error.deleteTemplate') };
+    }
+  }
+
+  private async handleRecurringCreateCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const timeZone = await this.calendarService.getUserTimeZone(chatId);
+    const nextRunAt = this.recurringTasksService.getNextRun(
+      args.schedule,
+      timeZone,
+      new Date(),
+    );
+    if (!nextRunAt) {
+      return { text: this.format(language, 'recurring.invalidSchedule') };
+    }
+
+    await this.conversationState.set(chatId, USER_STEPS.AWAITING_DESCRIPTION, {
+      schedule: args.schedule.trim(),
+      timeZone,
+    });
+    return {
+      text: this.t(language, 'recurring.askDescription', {
+        date: this.calendarService.formatDate(nextRunAt, timeZone, language),
+      }),
+    };
+  }
+
+  private async getRecurringTasksReply(
+    chatId: string,
+    language: string,
+  ): Promise<CommandReply> {
+    try {
+      const recurringTasks =
+        await this.recurringTasksService.listByAuthor(chatId);
+      if (recurringTasks.length === 0) {
+        return { text: this.t(language, 'recurring.none') };
+      }
+
+      return {
+        text: [
+          this.format(language, 'recurring.title'),
+          '\n\n',
+          recurringTasks
+            .map(
+              (recurringTask, index) =>
+                `${index + 1}. ${recurringTask.text}\n` +
+                `${this.t(language, 'recurring.schedule', { schedule: recurringTask.schedule })}\n` +
+                (recurringTask.paused
+                  ? this.t(language, 'recurring.paused')
+                  : this.t(language, 'recurring.nextRun', {
+                      date: this.calendarService.formatDate(
+                        recurringTask.nextRunAt,
+                        recurringTask.timeZone,
+                        language,
+                      ),
+                    })),
+            )
+            .join('\n\n'),
+        ],
+        keyboard: recurringTasks.map((recurringTask, index) => [
+          recurringTask.paused
+            ? {
+                text: this.t(language, 'button.resume', { index: index + 1 }),
+                callbackData: `recurring_resume_${recurringTask.id}`,
+                style: 'primary',
+              }
+            : {
+                text: this.t(language, 'button.pause', { index: index + 1 }),
+                callbackData: `recurring_pause_${recurringTask.id}`,
+                style: 'base',
+              },
+          {
+            text: this.t(language, 'button.delete', { index: index + 1 }),
+            callbackData: `recurring_delete_${recurringTask.id}`,
+            style: 'attention',
+          },
+        ]),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при получении повторяющихся задач: ${error.message}`,
+      );
+      return { text: this.t(language, 'error.recurringTasks') };
+    }
+  }
+
+  /**
+   * Buttons of the recurring task list. Answers with the updated list.
+   */
+  private async manageRecurringTask(
+    chatId: string,
+    recurringTaskId: string,
+    action: string,
+    language: string,
+  ): Promise<CommandReply> {
+    try {
+      const found =
+        action === 'delete'
+          ? await this.recurringTasksService.remove(recurringTaskId, chatId)
+          : await this.recurringTasksService.setPaused(
+              recurringTaskId,
+              chatId,
+              action === 'pause',
+            );
+      if (!found) {
+        return { text: this.t(language, 'recurring.notFound') };
+      }
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при изменении повторяющейся задачи: ${error.message}`,
+      );
+      return { text: this.t(language, 'error.changeRecurringTask') };
+    }
+
+    return this.getRecurringTasksReply(chatId, language);
+  }
+
+  private async handleCancelCommand({
+    chatId,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const cleared = await this.conversationState.clear(chatId);
+    return {
+      text: this.t(language, cleared ? 'cancel.done' : 'cancel.nothing'),
+    };
+  }
+
+  private async handleLanguageCommand({
+    userId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    if (!args.language) {
+      return this.getLanguageReply(language);
+    }
+    return { text: await this.setLanguage(userId, args.language, language) };
+  }
+
+  private getLanguageReply(language: string): CommandReply {
+    return {
+      text: this.t(language, 'language.choose', {
+        language: this.t(language, 'language.name'),
+      }),
+      keyboard: [
+        this.i18nService.getLanguages().map((item) => ({
+          text: this.t(item, 'language.name'),
+          callbackData: `language_${item}`,
+          style: item === language ? 'primary' : 'base',
+        })),
+      ],
+    };
+  }
+
+  /**
+   * Saves the chosen language and confirms in it; an unknown one is
+   * reported in the current language.
+   */
+  private async setLanguage(
+    userId: string,
+    value: string,
+    currentLanguage: string,
+  ): Promise<string> {
+    const language = value.toLowerCase();
+    if (!this.i18nService.getLanguages().includes(language)) {
+      return this.t(currentLanguage, 'language.unknown', {
+        languages: this.i18nService.getLanguages().join(', '),
+      });
+    }
+
+    try {
+      const user = await this.usersService.setLanguage(userId, language);
+      return user
+        ? this.t(language, 'language.saved', {
+            language: this.t(language, 'language.name'),
+          })
+        : this.t(language, 'common.startFirst');
+    } catch (error) {
+      this.logger.error(`Ошибка при сохранении языка: ${error.message}`);
+      return this.t(language, 'error.saveSettings');
+    }
+  }
+
+  /**
+   * Stores the description of a new task and asks for the approvers of its
+   * first step. `recurrence` carries the schedule when the route is
+   * collected for a recurring task.
+   */
+  private async startRouteCollection(
+    chatId: string,
+    description: string,
+    event: VkTeamsNewMessageEvent,
+    language: string,
+    recurrence?: { schedule: string; timeZone: string },
+  ): Promise<string> {
+    const file = event.payload.parts?.find(
+      (part): part is VkTeamsFilePart => part.type === 'file',
+    )?.payload;
+    const taskData: Record<string, any> = {
+      ...(recurrence && {
+        schedule: recurrence.schedule,
+        timeZone: recurrence.timeZone,
+      }),
+      description,
+      firstName: event.payload.from.firstName,
+      lastName: event.payload.from.lastName,
+      steps: [{ rule: null, approvers: [] }],
+    };
+    if (file) {
+      taskData.fileId = file.fileId;
+      taskData.fileCaption = file.caption;
+    }
+
+    await this.conversationState.set(
+      chatId,
+      USER_STEPS.AWAITING_USER_ID,
+      taskData,
+    );
+    return this.t(language, 'route.askFirstStepApprovers');
+  }
+
+  /**
+   * Starts a task from a template: the approvers, reminder interval and
+   * deadline are taken from the template, so only its fields (and the
+   * route, if the template has none) are asked for.
+   */
+  private async startTemplateTask(
+    chatId: string,
+    templateId: string,
+    firstName: string,
+    lastName: string,
+    language: string,
+  ): Promise<CommandReply> {
+    try {
+      const template = await this.templatesService.findById(templateId);
+      if (!template) {
+        return { text: this.t(language, 'template.notFound') };
+      }
+
+      const steps = this.templatesService.getSteps(template);
+      const assignmentError = await this.getAssignmentError(
+        chatId,
+        steps.flatMap((step) => step.approvers),
+        language,
+      );
+      if (assignmentError) {
+        return { text: assignmentError };
+      }
+
+      return this.askTemplateField(
+        chatId,
+        {
+          templateId: template.id,
+          template: template.description,
+          fields: this.templatesService.getFields(template.description),
+          fieldIndex: 0,
+          values: {},
+          firstName,
+          lastName,
+          steps: steps.length > 0 ? steps : [{ rule: null, approvers: [] }],
+          hasRoute: steps.length > 0,
+          remindInterval: template.remindInterval,
+          deadlineHours: template.deadlineHours ?? undefined,
+        },
+        language,
+      );
+    } catch (error) {
+      this.logger.error(`Ошибка при загрузке шаблона: ${error.message}`);
+      return { text: this.t(language, 'error.loadTemplate') };
+    }
+  }
+
+  /**
+   * Asks for the next unfilled field of the template. Once all of them are
+   * filled, creates the task or, for templates without approvers, moves on
+   * to the route.
+   */
+  private async askTemplateField(
+    chatId: string,
+    taskData: Record<string, any>,
+    language: string,
+  ): Promise<CommandReply> {
+    if (taskData.fieldIndex < taskData.fields.length) {
+      await this.conversationState.set(
+        chatId,
+        USER_STEPS.AWAITING_TEMPLATE_FIELD,
+        taskData,
+      );
+      return {
+        text: this.t(language, 'template.askField', {
+          field: taskData.fields[taskData.fieldIndex],
+        }),
+      };
+    }
+
+    taskData.description = this.templatesService.render(
+      taskData.template,
+      taskData.values,
+    );
+    if (taskData.hasRoute) {
+      return {
+        text: await this.createTaskFromState(chatId, taskData, language),
+      };
+    }
+
+    await this.conversationState.set(
+      chatId,
+      USER_STEPS.AWAITING_USER_ID,
+      taskData,
+    );
+    return { text: this.t(language, 'template.askRoute') };
+  }
+
+  private async getTemplatesReply(language: string): Promise<CommandReply> {
+    try {
+      const templates = await this.templatesService.list();
+      if (templates.length === 0) {
+        return { text: this.t(language, 'template.none') };
+      }
+
+      return {
+        text: [
+          this.format(language, 'template.title'),
+          '\n\n',
+          join(
+            templates.map((template) => {
+              const fields = this.templatesService.getFields(
+                template.description,
+              );
+              return [
+                bold(template.name),
+                '\n',
+                this.format(language, 'template.fields', {
+                  fields:
+                    fields.length > 0
+                      ? fields.join(', ')
+                      : this.t(language, 'template.noFields'),
+                }),
+                '\n',
+                this.format(language, 'template.steps', {
+                  steps:
+                    this.templatesService.getSteps(template).length ||
+                    this.t(language, 'template.stepsOnCreate'),
+                }),
+                '\n',
+                this.format(language, 'template.schedule', {
+                  interval: template.remindInterval,
+                  deadline: template.deadlineHours
+                    ? this.t(language, 'template.deadlineHours', {
+                        hours: template.deadlineHours,
+                      })
+                    : this.t(language, 'template.noDeadline'),
+                }),
+              ];
+            }),
+            '\n\n',
+          ),
+          '\n\n',
+          this.format(language, 'template.choose'),
+        ],
+        keyboard: templates.map((template) => [
+          {
+            text: template.name,
+            callbackData: `template_${template.id}`,
+            style: 'primary',
+          },
+        ]),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при получении шаблонов: ${error.message}`);
+      return { text: this.t(language, 'error.templates') };
+    }
+  }
+
+  /**
+   * One page of the task browser: the tasks with a button to open each of
+   * them, page navigation and the filters. The page comes from a single
+   * query, and the names on it from another one.
+   */
+  private async getTaskBrowserReply(
+    viewerId: string,
+    language: string,
+    state: TaskBrowserState = {
+      role: TASK_ROLE_FILTER.ALL,
+      status: null,
+      page: 0,
+    },
+  ): Promise<CommandReply> {
+    const userVkId = state.userVkId ?? viewerId;
+    if (
+      userVkId !== viewerId &&
+      !(await this.usersService.canViewTasksOf(viewerId, userVkId))
+    ) {
+      return { text: this.t(language, 'tasks.noAccess') };
+    }
+
+    try {
+      const { items: tasks, nextCursor } = await this.tasksService.listTasks({
+        status: state.status ?? undefined,
+        ...(state.role === TASK_ROLE_FILTER.CREATED
+          ? { authorVkId: userVkId }
+          : state.role === TASK_ROLE_FILTER.AWAITING
+            ? { awaitingVkId: userVkId }
+            : { visibleTo: [userVkId] }),
+        offset: state.page * TASKS_PAGE_SIZE,
+        limit: TASKS_PAGE_SIZE,
+      });
+      const names = await this.notificationsService.getUserNames([
+        ...new Set([userVkId, ...tasks.map((task) => task.chatId)]),
+      ]);
+      const timeZone = await this.calendarService.getUserTimeZone(viewerId);
+      const getNumber = (index: number) =>
+        state.page * TASKS_PAGE_SIZE + index + 1;
+
+      const text: MarkdownNode[] = [
+        state.userVkId
+          ? this.format(language, 'tasks.userTitle', {
+              name: names.get(userVkId),
+            })
+          : this.format(language, 'tasks.title'),
+        '\n',
+        this.format(language, 'tasks.filters', {
+          role: this.t(language, TASK_ROLE_FILTER_LABELS[state.role]),
+          status: this.t(
+            language,
+            state.status
+              ? TASK_STATUS_FILTER_LABELS[state.status]
+              : 'taskFilter.anyStatus',
+          ),
+          page: state.page + 1,
+        }),
+        '\n\n',
+      ];
+      if (tasks.length === 0) {
+        text.push(this.format(language, 'tasks.none'));
+      } else {
+        text.push(
+          join(
+            tasks.map((task, index) =>
+              this.format(language, 'tasks.item', {
+                index: getNumber(index),
+                text: (
+                  task.text ||
+                  task.fileCaption ||
+                  this.t(language, 'common.noDescription')
+                ).slice(0, 80),
+                status: this.getTaskStatusText(task, language),
+                author: names.get(task.chatId),
+                date: this.calendarService.formatDate(
+                  task.createdAt,
+                  timeZone,
+                  language,
+                ),
+              }),
+            ),
+            '\n\n',
+          ),
+          '\n\n',
+          this.format(language, 'tasks.choose'),
+        );
+      }
+
+      const pageButtons: VkTeamsButton[] = [];
+      if (state.page > 0) {
+        pageButtons.push({
+          text: this.t(language, 'button.prevPage'),
+          callbackData: this.getTaskBrowserCallback({
+            ...state,
+            page: state.page - 1,
+          }),
+          style: 'base',
+        });
+      }
+      if (nextCursor) {
+        pageButtons.push({
+          text: this.t(language, 'button.nextPage'),
+          callbackData: this.getTaskBrowserCallback({
+            ...state,
+            page: state.page + 1,
+          }),
+          style: 'base',
+        });
+      }
+      const statusButtons = [
+        null,
+        ...Object.keys(TASK_STATUS_FILTER_LABELS),
+      ].map(
+        (status): VkTeamsButton => ({
+          text: this.t(
+            language,
+            status ? TASK_STATUS_FILTER_LABELS[status] : 'taskFilter.anyStatus',
+          ),
+          callbackData: this.getTaskBrowserCallback({
+            ...state,
+            status,
+            page: 0,
+          }),
+          style: status === state.status ? 'primary' : 'base',
+        }),
+      );
+
+      const keyboard: VkTeamsKeyboard = [
+        tasks.map(
+          (task, index): VkTeamsButton => ({
+            text: String(getNumber(index)),
+            callbackData: `task_${task.id}`,
+            style: 'primary',
+          }),
+        ),
+        pageButtons,
+        Object.values(TASK_ROLE_FILTER).map(
+          (role): VkTeamsButton => ({
+            text: this.t(language, TASK_ROLE_FILTER_LABELS[role]),
+            callbackData: this.getTaskBrowserCallback({
+              ...state,
+              role,
+              page: 0,
+            }),
+            style: role === state.role ? 'primary' : 'base',
+          }),
+        ),
+        statusButtons.slice(0, 3),
+        statusButtons.slice(3),
+      ];
+      return { text, keyboard: keyboard.filter((row) => row.length > 0) };
+    } catch (error) {
+      this.logger.error(`Ошибка при получении задач: ${error.message}`);
+      return { text: this.t(language, 'error.tasks') };
+    }
+  }
+
+  private getTaskBrowserCallback(state: TaskBrowserState): string {
+    return [
+      'tasks',
+      state.role,
+      state.status ?? 'any',
+      state.page,
+      ...(state.userVkId ? [state.userVkId] : []),
+    ].join('_');
+  }
+
+  private parseTaskBrowserCallback(
+    callbackData: string,
+  ): TaskBrowserState | null {
+    const match = callbackData.match(
+      /^tasks_([a-z]+)_([A-Za-z]+)_(\d+)(?:_(.+))?$/,
+    );
+    if (
+      !match ||
+      !Object.values(TASK_ROLE_FILTER).includes(match[1]) ||
+      (match[2] !== 'any' && !TASK_STATUS_FILTER_LABELS[match[2]])
+    ) {
+      return null;
+    }
+    return {
+      role: match[1],
+      status: match[2] === 'any' ? null : match[2],
+      page: Number(match[3]),
+      userVkId: match[4],
+    };
+  }
+
+  private async getUserTasksReply(
+    chatId: string,
+    contactText: string,
+    language: string,
+  ): Promise<CommandReply> {
+    const contactIds = this.parseContactIds(contactText);
+    if (!contactIds || contactIds.length !== 1) {
+      return { text: this.t(language, 'route.invalidContact') };
+    }
+    const [contactId] = contactIds;
+
+    try {
+      const userToCheck = await this.prisma.user.findUnique({
+        where: { vkId: contactId },
+      });
+      if (!userToCheck) {
+        return { text: this.t(language, 'common.userNotFound') };
+      }
+    } catch (error) {
+      this.logger.error(`Ошибка при получении задач: ${error.message}`);
+      return { text: this.t(language, 'error.tasks') };
+    }
+
+    await this.conversationState.clear(chatId);
+    return this.getTaskBrowserReply(chatId, language, {
+      role: TASK_ROLE_FILTER.ALL,
+      status: null,
+      page: 0,
+      userVkId: contactId,
+    });
+  }
+
+  /**
+   * A task with its route and the actions open to the viewer.
+   */
+  private async getTaskDetailReply(
+    taskId: string,
+    viewerId: string,
+    language: string,
+  ): Promise<CommandReply> {
+    const task = await this.tasksService.findTaskWithRoute(taskId);
+    if (!task) {
+      return { text: this.t(language, 'decision.taskNotFound') };
+    }
+
+    const participants = [
+      ...new Set([
+        task.chatId,
+        ...task.steps.flatMap((step) =>
+          step.approvers.map((approver) => approver.userVkId),
+        ),
+      ]),
+    ];
+    if (!(await this.usersService.canViewTask(viewerId, task))) {
+      return { text: this.t(language, 'tasks.noTaskAccess') };
+    }
+
+    const names = await this.notificationsService.getUserNames(participants);
+    const timeZone = await this.calendarService.getUserTimeZone(viewerId);
+
+    const keyboard: VkTeamsKeyboard = [];
+    if (this.tasksService.getAwaitingApprovers(task).includes(viewerId)) {
+      keyboard.push([
+        {
+          text: this.t(language, 'button.approve'),
+          callbackData: `approve_${task.id}`,
+          style: 'primary',
+        },
+        {
+          text: this.t(language, 'button.reject'),
+          callbackData: `reject_${task.id}`,
+          style: 'attention',
+        },
+      ]);
+    }
+    if (task.chatId === viewerId && task.status === TASK_STATUS.PENDING) {
+      keyboard.push([
+        {
+          text: this.t(language, 'button.editTask'),
+          callbackData: `edit_${task.id}`,
+          style: 'primary',
+        },
+      ]);
+    }
+    keyboard.push([
+      {
+        text: this.t(language, 'button.history'),
+        callbackData: `history_${task.id}`,
+        style: 'base',
+      },
+    ]);
+
+    return {
+      text: this.formatTask(task, names, timeZone, language),
+      keyboard,
+    };
+  }
+
+  private async getNotificationSettingsReply(
+    userId: string,
+    language: string,
+  ): Promise<CommandReply> {
+    try {
+      const mutedTypes = await this.notificationsService.getMutedTypes(userId);
+      return {
+        text: [
+          this.format(language, 'notifications.title'),
+          '\n\n',
+          this.format(language, 'notifications.hint'),
+        ],
+        keyboard: this.getNotificationSettingsKeyboard(mutedTypes, language),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Ошибка при получении настроек уведомлений: ${error.message}`,
+      );
+      return { text: this.t(language, 'error.loadSettings') };
+    }
+  }
+
+  /**
+   * Analytics of the tasks the user may see, created in the given period
+   * (`ДД.ММ.ГГГГ-ДД.ММ.ГГГГ`) or in the last 30 days.
+   */
+  private async getStatisticsReply(
+    userId: string,
+    language: string,
+    periodText?: string,
+  ): Promise<CommandReply> {
+    const timeZone = await this.calendarService.getUserTimeZone(userId);
+    let from: Date;
+    let to: Date;
+    if (periodText) {
+      const period = this.parsePeriod(periodText, timeZone);
+      if (!period) {
+        return { text: this.t(language, 'stats.periodUsage') };
+      }
+      from = period.from;
+      to = new Date(period.until.getTime() + 60 * 1000);
+    } else {
+      to = new Date();
+      from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    }
+
+    try {
+      const visibleTo = await this.usersService.getVisibleUserIds(userId);
+      const report = await this.analyticsService.getReport({
+        from,
+        to,
+        visibleTo: visibleTo ?? undefined,
+      });
+      const names = await this.notificationsService.getUserNames([
+        ...report.approvers.map((approver) => approver.vkId),
+        ...report.slowestOpenTasks.flatMap((task) => task.waitingFor),
+      ]);
+      const locale = this.i18nService.getLocale(language);
+      const formatDay = (date: Date) =>
+        date.toLocaleDateString(locale, { timeZone });
+      const formatDuration = (duration: number | null) =>
+        this.formatDuration(duration, language);
+
+      const text: MarkdownNode[] = [
+        this.format(language, 'stats.title', {
+          from: formatDay(from),
+          to: formatDay(new Date(to.getTime() - 1)),
+        }),
+        '\n\n',
+        this.format(language, 'stats.totals', {
+          total: report.totals.total,
+          approved: report.totals[TASK_STATUS.APPROVED],
+          rejected: report.totals[TASK_STATUS.REJECTED],
+          pending: report.totals[TASK_STATUS.PENDING],
+          expired: report.totals[TASK_STATUS.EXPIRED],
+          cancelled: report.totals[TASK_STATUS.CANCELLED],
+        }),
+        '\n',
+        this.format(language, 'stats.decisionTime', {
+          median: formatDuration(report.decisionTime.median),
+          p90: formatDuration(report.decisionTime.p90),
+        }),
+        '\n',
+        this.format(language, 'stats.reminders', {
+          total: report.reminders.total,
+          perTask: report.reminders.perTask.toLocaleString(locale, {
+            minimumFractionDigits: 1,
+            maximumFractionDigits: 1,
+          }),
+          max: report.reminders.max,
+        }),
+      ];
+
+      if (report.approvers.length > 0) {
+        text.push(
+          '\n\n',
+          this.format(language, 'stats.approversTitle'),
+          '\n',
+          join(
+            report.approvers.slice(0, 10).map((approver) =>
+              this.format(language, 'stats.approver', {
+                name: names.get(approver.vkId),
+                median: formatDuration(approver.median),
+                p90: formatDuration(approver.p90),
+                decisions: approver.approved + approver.rejected,
+                pending: approver.pending,
+              }),
+            ),
+            '\n',
+          ),
+        );
+      }
+
+      if (report.slowestOpenTasks.length > 0) {
+        text.push(
+          '\n\n',
+          this.format(language, 'stats.slowestTitle'),
+          '\n',
+          join(
+            report.slowestOpenTasks.map((task, index) => [
+              this.format(language, 'stats.slowTask', {
+                index: index + 1,
+                id: task.taskId.slice(0, 8),
+                text: (
+                  task.text || this.t(language, 'common.noDescription')
+                ).slice(0, 40),
+                age: formatDuration(task.age),
+                reminders: task.reminders,
+              }),
+              task.waitingFor.length > 0
+                ? this.format(language, 'stats.waitingFor', {
+                    names: task.waitingFor
+                      .map((vkId) => names.get(vkId))
+                      .join(', '),
+                  })
+                : '',
+            ]),
+            '\n',
+          ),
+        );
+      }
+
+      text.push(
+        '\n\n',
+        this.format(
+          language,
+          report.trendBucket === 'day'
+            ? 'stats.trendByDay'
+            : 'stats.trendByWeek',
+        ),
+        '\n',
+        join(
+          report.trend
+            .filter((bucket) => bucket.created > 0)
+            .map((bucket) =>
+              this.format(language, 'stats.trendBucket', {
+                date: bucket.start.toLocaleDateString(locale, {
+                  timeZone: 'UTC',
+                }),
+                created: bucket.created,
+                approved: bucket.approved,
+                rejected: bucket.rejected,
+                median: formatDuration(bucket.medianDecisionTime),
+              }),
+            ),
+          '\n',
+        ),
+      );
+
+      return { text };
+    } catch (error) {
+      this.logger.error(`Ошибка при получении статистики: ${error.message}`);
+      return { text: this.t(language, 'error.statistics') };
+    }
+  }
+
+  /**
+   * Options may come in any order; all of them are optional. Only tasks the
+   * user may see are exported.
+   */
+  private async handleExportCommand({
+    chatId,
+    args,
+    language,
+  }: CommandContext): Promise<CommandReply> {
+    const usage = this.t(language, 'export.usage');
+    const timeZone = await this.calendarService.getUserTimeZone(chatId);
+    let format = EXPORT_FORMAT.CSV;
+    const filter: ExportFilter = {};
+    for (const option of (args.options || '').split(/\s+/).filter(Boolean)) {
+      const [key, ...rest] = option.split('=');
+      const value = rest.join('=');
+      if (!value && Object.values(EXPORT_FORMAT).includes(key.toLowerCase())) {
+        format = key.toLowerCase();
+      } else if (!value) {
+        const period = this.parsePeriod(key, timeZone);
+        if (!period) {
+          return { text: usage };
+        }
+        filter.createdFrom = period.from;
+        // The period ends at 23:59; include the whole last minute.
+        filter.createdTo = new Date(period.until.getTime() + 59 * 1000 + 999);
+      } else if (key === 'status') {
+        const status = Object.values(TASK_STATUS).find(
+          (item) => item === value.toUpperCase(),
+        );
+        if (!status) {
+          return { text: usage };
+        }
+        filter.status = status;
+      } else if (key === 'author' || key === 'approver') {
+        const userIds = this.parseContactIds(value);
+        if (!userIds || userIds.length !== 1) {
+          return { text: usage };
+        }
+        filter[key === 'author' ? 'authorVkId' : 'approverVkId'] = userIds[0];
+      } else {
+        return { text: usage };
+      }
+    }
+
+    try {
+      const visibleTo = await this.usersService.getVisibleUserIds(chatId);
+      const file = await this.exportsService.exportTasks(
+        { ...filter, visibleTo: visibleTo ?? undefined },
+        format,
+        language,
+      );
+      // Uploaded directly: the message queue keeps messages in Redis and is
+      // not meant for file contents.
+      await this.vkTeamsClient.uploadFile({
+        chatId,
+        fileName: file.fileName,
+        content: file.content,
+      });
+      return {
+        text:
+          file.rows > 0
+            ? this.t(language, 'export.ready', { count: file.rows })
+            : this.t(language, 'export.empty'),
+      };
+    } catch (error) {
+      this.logger.error(`Ошибка при выгрузке задач: ${error.message}`);
+      return { text: this.t(language, 'error.export') };
+    }
+  }
+
+  /**
+   * `2 д 3 ч`, `5 ч 10 мин` or `15 мин`; a dash when there is no value.
+   */
+  private formatDuration(duration: number | null, language: string): string {
+    if (duration === null) {
+      return this.t(language, 'duration.none');
+    }
+    const minutes = Math.round(duration / (60 * 1000));
+    const days = Math.floor(minutes / (24 * 60));
+    const hours = Math.floor((minutes % (24 * 60)) / 60);
+    if (days > 0) {
+      return this.t(language, 'duration.days', { days, hours });
+    }
+    return hours > 0
+      ? this.t(language, 'duration.hours', { hours, minutes: minutes % 60 })
+      : this.t(language, 'duration.minutes', { minutes });
+  }
+
+  /**
+   * Parses `ЧЧ:ММ-ЧЧ:ММ` with an optional list of ISO weekdays such as
+   * `1-5` or `1,2,3`. Without days the working week is Monday to Friday.
+   */
+  private parseWorkingHours(
+    text: string,
+  ): { workStart: number; workEnd: number; workDays: number[] } | null {
+    const match = (text || '')
+      .trim()
+      .match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})(?:\s+([\d,\s-]+))?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, startHours, startMinutes, endHours, endMinutes, daysText] = match;
+    const workStart = Number(startHours) * 60 + Number(startMinutes);
+    const workEnd = Number(endHours) * 60 + Number(endMinutes);
+    if (
+      Number(startHours) > 23 ||
+      Number(endHours) > 24 ||
+      Number(startMinutes) > 59 ||
+      Number(endMinutes) > 59 ||
+      workEnd > 24 * 60 ||
+      workStart === workEnd
+    ) {
+      return null;
+    }
+
+    const workDays = new Set<number>();
+    for (const part of (daysText || '1-5').split(',')) {
+      const [from, to] = part.trim().split('-').map(Number);
+      for (let day = from; day <= (to || from); day++) {
+        if (day < 1 || day > 7) {
+          return null;
+        }
+        workDays.add(day);
+      }
+    }
+    if (workDays.size === 0) {
+      return null;
+    }
+
+    return {
+      workStart,
+      workEnd,
+      workDays: [...workDays].sort(),
+    };
+  }
+
+  private getDeadlineSkipKeyboard(language: string): VkTeamsKeyboard {
+    return [
+      [
+        {
+          text: this.t(language, 'button.noDeadline'),
+          callbackData: 'deadline_skip',
+          style: 'primary',
+        },
+      ],
+    ];
+  }
+
+  private getEscalationKeyboard(language: string): VkTeamsKeyboard {
+    return [
+      [
+        {
+          text: this.t(language, 'button.notifyAuthor'),
+          callbackData: `escalate_${ESCALATION_POLICY.NOTIFY_AUTHOR}`,
+          style: 'primary',
+        },
+      ],
+      [
+        {
+          text: this.t(language, 'button.backupApprover'),
+          callbackData: `escalate_${ESCALATION_POLICY.BACKUP_APPROVER}`,
+          style: 'primary',
+        },
+      ],
+      [
+        {
+          text: this.t(language, 'button.approverManager'),
+          callbackData: `escalate_${ESCALATION_POLICY.MANAGER}`,
+          style: 'primary',
+        },
+      ],
+      [
+        {
+          text: this.t(language, 'button.expire'),
+          callbackData: `escalate_${ESCALATION_POLICY.EXPIRE}`,
+          style: 'attention',
+        },
+      ],
+    ];
+  }
+
+  private getStepRuleKeyboard(language: string): VkTeamsKeyboard {
+    return [
+      [
+        {
+          text: this.t(language, 'button.ruleAll'),
+          callbackData: 'route_rule_all',
+          style: 'primary',
+        },
+        {
+          text: this.t(language, 'button.ruleAny'),
+          callbackData: 'route_rule_any',
+          style: 'primary',
+        },
+      ],
+    ];
+  }
+
+  private getNextStepKeyboard(language: string): VkTeamsKeyboard {
+    return [
+      [
+        {
+          text: this.t(language, 'button.nextStep'),
+          callbackData: 'route_next_step',
+          style: 'primary',
+        },
+        {
+          text: this.t(language, 'button.routeDone'),
+          callbackData: 'route_done',
+          style: 'primary',
+        },
+      ],
+    ];
+  }
+
+  private getNotificationSettingsKeyboard(
+    mutedTypes: string[],
+    language: string,
+  ): VkTeamsKeyboard {
+    return Object.entries(NOTIFICATION_TYPE_LABELS).map(([type, label]) => [
+      {
+        text: `${mutedTypes.includes(type) ? '🔕' : '🔔'} ${this.t(language, label)}`,
+        callbackData: `notify_toggle_${type}`,
+        style: mutedTypes.includes(type) ? 'base' : 'primary',
+      },
+    ]);
+  }
+
+  private getTaskEditKeyboard(
+    taskId: string,
+    language: string,
+  ): VkTeamsKeyboard {
+    return [
+      [
+        {
+          text: this.t(language, 'button.editText'),
+          callbackData: `edit_text_${taskId}`,
+          style: 'primary',
+        },
+        {
+          text: this.t(language, 'button.editFile'),
+          callbackData: `edit_file_${taskId}`,
+          style: 'primary',
+        },
+      ],
+      [
+        {
+          text: this.t(language, 'button.editInterval'),
+          callbackData: `edit_interval_${taskId}`,
+          style: 'primary',
+        },
+        {
+          text: this.t(language, 'button.editApprover'),
+          callbackData: `edit_approver_${taskId}`,
+          style: 'primary',
+        },
+      ],
+      [
+        {
+          text: this.t(language, 'button.cancelTask'),
+          callbackData: `cancel_task_${taskId}`,
+          style: 'attention',
+        },
+      ],
+    ];
+  }
+
+  /**
+   * Renders the event log of a task. Only the author and the approvers of
+   * the task may see it.
+   */
+  private async formatTaskTimeline(
+    taskId: string,
+    userId: string,
+    language: string,
+  ): Promise<MarkdownNode> {
+    const task = await this.tasksService.findTaskWithRoute(taskId);
+    if (!task) {
+      return this.t(language, 'decision.taskNotFound');
+    }
+
+    if (!(await this.usersService.canViewTask(userId, task))) {
+      return this.t(language, 'timeline.noAccess');
+    }
+
+    const events = await this.taskEventsService.getTimeline(taskId);
+    const timeZone = await this.calendarService.getUserTimeZone(userId);
+    const actorIds = [
+      ...new Set(
+        events
+          .flatMap((event) =>
+            event.type === TASK_EVENT_TYPE.DELEGATED
+              ? [
+                  event.actorVkId,
+                  (event.payload as Record<string, any>).from,
+                  (event.payload as Record<string, any>).to,
+                ]
+              : [event.actorVkId],
+          )
+          .filter((actorVkId): actorVkId is string => !!actorVkId),
+      ),
+    ];
+    const users = await this.prisma.user.findMany({
+      where: { vkId: { in: actorIds } },
+    });
+    const names = new Map(
+      users.map((user) => [user.vkId, `${user.firstName} ${user.lastName}`]),
+    );
+
+    const lines: MarkdownNode[] = [
+      this.format(language, 'timeline.title', {
+        text:
+          task.text ||
+          task.fileCaption ||
+          this.t(language, 'common.noDescription'),
+      }),
+      '',
+    ];
+    for (const event of events) {
+      const payload = (event.payload || {}) as Record<string, any>;
+      let details = '';
+      if (event.type === TASK_EVENT_TYPE.DECISION) {
+        details = this.t(
+          language,
+          payload.decision === APPROVER_DECISION.APPROVED
+            ? 'timeline.approved'
+            : 'timeline.rejected',
+        );
+      } else if (event.type === TASK_EVENT_TYPE.STATUS_CHANGED) {
+        details = `: ${payload.to}`;
+      } else if (event.type === TASK_EVENT_TYPE.BUTTON_PRESSED) {
+        details = ` «${payload.button}»`;
+      } else if (event.type === TASK_EVENT_TYPE.DELEGATED) {
+        details = `: ${names.get(payload.from) || payload.from} → ${names.get(payload.to) || payload.to}`;
+        if (payload.reason === DELEGATION_REASON.OUT_OF_OFFICE) {
+          details += this.t(language, 'timeline.outOfOffice');
+        }
+      } else if (
+        event.type === TASK_EVENT_TYPE.REMINDER_SENT ||
+        event.type === TASK_EVENT_TYPE.DELIVERY_FAILED
+      ) {
+        details = payload.recipient
+          ? `: ${names.get(payload.recipient) || payload.recipient}`
+          : '';
+      }
+      if (payload.comment) {
+        details += ` («${payload.comment}»)`;
+      }
+
+      const actor = event.actorVkId
+        ? ` — ${names.get(event.actorVkId) || event.actorVkId}`
+        : '';
+      const label = TASK_EVENT_LABELS[event.type]
+        ? this.t(language, TASK_EVENT_LABELS[event.type])
+        : event.type;
+      lines.push(
+        `${this.calendarService.formatDate(event.createdAt, timeZone, language)} ${label}${details}${actor}`,
+      );
+    }
+    return join(lines, '\n');
+  }
+
+  private formatTask(
+    task: TaskWithRoute,
+    names: Map<string, string>,
+    timeZone: string,
+    language: string,
+  ): MarkdownNode {
+    const route = task.steps
+      .map((step) => {
+        const approvers = step.approvers
+          .map((approver) => {
+            const mark =
+              approver.decision === APPROVER_DECISION.APPROVED
+                ? ' ✅'
+                : approver.decision === APPROVER_DECISION.REJECTED
+                  ? ' ❌'
+                  : '';
+            const comment = approver.comment ? ` «${approver.comment}»` : '';
+            return `${names.get(approver.userVkId)}${mark}${comment}`;
+          })
+          .join(', ');
+        const rule = step.groupChatId
+          ? this.t(language, 'taskList.groupRule', {
+              quorum: step.quorum ?? 1,
+            })
+          : this.t(
+              language,
+              step.rule === STEP_RULE.ANY
+                ? 'taskList.ruleAny'
+                : 'taskList.ruleAll',
+            );
+        return `  ${step.order + 1} (${rule}): ${approvers || '—'}`;
+      })
+      .join('\n');
+
+    const lines: MarkdownNode[] = [
+      this.format(language, 'taskList.title', { id: task.id }),
+      this.format(language, 'taskList.author', {
+        name: names.get(task.chatId),
+      }),
+      this.format(language, 'taskList.description', {
+        text:
+          task.text ||
+          task.fileCaption ||
+          this.t(language, 'common.noDescription'),
+      }),
+      this.format(language, 'taskList.route'),
+      route,
+      this.format(language, 'taskList.status', {
+        status: this.getTaskStatusText(task, language),
+      }),
+    ];
+    if (task.deadline) {
+      lines.push(
+        this.format(language, 'taskList.deadline', {
+          date: this.calendarService.formatDate(
+            task.deadline,
+            timeZone,
+            language,
+          ),
+        }),
+      );
+    }
+    if (task.rejectReason) {
+      lines.push(
+        this.format(language, 'taskList.rejectReason', {
+          reason: task.rejectReason,
+        }),
+      );
+    }
+    lines.push(
+      this.format(language, 'taskList.createdAt', {
+        date: this.calendarService.formatDate(
+          task.createdAt,
+          timeZone,
+          language,
+        ),
+      }),
+    );
+    return join(lines, '\n');
+  }
+
+  private getTaskStatusText(task: TaskWithRoute, language: string): string {
+    const status = {
+      [TASK_STATUS.APPROVED]: 'taskStatus.approved',
+      [TASK_STATUS.REJECTED]: 'taskStatus.rejected',
+      [TASK_STATUS.EXPIRED]: 'taskStatus.expired',
+      [TASK_STATUS.CANCELLED]: 'taskStatus.cancelled',
+    }[task.status] as MessageKey | undefined;
+    return status
+      ? this.t(language, status)
+      : this.t(language, 'taskStatus.pending', {
+          step: task.currentStep + 1,
+          total: task.steps.length,
+        });
+  }
 
+  async answerCallbackQuery(
+    queryId: string,
+    text?: string,
+  ): Promise<VkTeamsResponse> {
     try {
-      const response = await axios.get(url, { params });
-      return response.data;
+      return await this.vkTeamsClient.answerCallbackQuery({ queryId, text });
     } catch (error) {
       this.logger.error(`Failed to answer callback query: ${error.message}`);
       throw error;
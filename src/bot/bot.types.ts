@@ -1,11 +1,117 @@
+import { MessageKey, MessageParams } from 'src/i18n/i18n.types';
+import { MarkdownNode } from 'src/markdown/markdown.types';
+import { TASK_STATUS } from 'src/tasks/tasks.types';
+import {
+  VkTeamsKeyboard,
+  VkTeamsNewMessageEvent,
+} from 'src/vk-teams/vk-teams.types';
+
 export const USER_STEPS = {
   AWAITING_DESCRIPTION: 'awaitingDescription',
   AWAITING_USER_ID: 'awaitingUserId',
   AWAITING_TIME: 'awaitingTime',
+  AWAITING_DEADLINE: 'awaitingDeadline',
+  AWAITING_RECURRING_DEADLINE: 'awaitingRecurringDeadline',
+  AWAITING_ESCALATION: 'awaitingEscalation',
+  AWAITING_BACKUP_APPROVER: 'awaitingBackupApprover',
+  AWAITING_STEP_RULE: 'awaitingStepRule',
+  AWAITING_QUORUM: 'awaitingQuorum',
+  AWAITING_NEXT_STEP: 'awaitingNextStep',
+  AWAITING_REJECT_REASON: 'awaitingRejectReason',
+  AWAITING_APPROVE_COMMENT: 'awaitingApproveComment',
   AWAITING_USER_ID_FOR_TASKS: 'awaitingUserIdForTasks',
-  SHOW_USER_TASKS: 'showUserTasks'
+  AWAITING_EDIT_VALUE: 'awaitingEditValue',
+  AWAITING_FORWARD_CONTACT: 'awaitingForwardContact',
+  AWAITING_TEMPLATE_FIELD: 'awaitingTemplateField',
+  SHOW_USER_TASKS: 'showUserTasks',
+};
+
+/**
+ * Group chat ids differ from user ids by this suffix.
+ */
+export const GROUP_CHAT_ID_SUFFIX = '@chat.agent';
+
+/**
+ * Context kind of queued reminders, see `MessageQueueService.onOutcome`.
+ */
+export const REMINDER_MESSAGE_KIND = 'reminder';
+
+export const TASK_ROLE_FILTER = {
+  ALL: 'all',
+  CREATED: 'created',
+  AWAITING: 'awaiting',
+};
+
+export const TASK_ROLE_FILTER_LABELS: Record<string, MessageKey> = {
+  [TASK_ROLE_FILTER.ALL]: 'taskFilter.all',
+  [TASK_ROLE_FILTER.CREATED]: 'taskFilter.created',
+  [TASK_ROLE_FILTER.AWAITING]: 'taskFilter.awaiting',
 };
 
-export const TASK_STATUS = {
-  PENDING: 'PENDING',
+export const TASK_STATUS_FILTER_LABELS: Record<string, MessageKey> = {
+  [TASK_STATUS.PENDING]: 'taskFilter.pending',
+  [TASK_STATUS.APPROVED]: 'taskFilter.approved',
+  [TASK_STATUS.REJECTED]: 'taskFilter.rejected',
+  [TASK_STATUS.EXPIRED]: 'taskFilter.expired',
+  [TASK_STATUS.CANCELLED]: 'taskFilter.cancelled',
 };
+
+/**
+ * Filters and page of the task browser. They travel in the callback data
+ * of its buttons, so each button press shows a page on its own.
+ */
+export interface TaskBrowserState {
+  role: string;
+  /**
+   * Null for tasks in any status.
+   */
+  status: string | null;
+  page: number;
+  /**
+   * Set when browsing the tasks of another user.
+   */
+  userVkId?: string;
+}
+
+export interface CommandArgument {
+  name: string;
+  /**
+   * How the argument is shown in the generated help.
+   */
+  label: MessageKey;
+  labelParams?: MessageParams;
+  optional?: boolean;
+  /**
+   * Takes the rest of the message, spaces included. Only the last argument
+   * may be a rest argument.
+   */
+  rest?: boolean;
+}
+
+export interface CommandContext {
+  chatId: string;
+  userId: string;
+  isAdmin: boolean;
+  language: string;
+  args: Record<string, string | undefined>;
+  event: VkTeamsNewMessageEvent;
+}
+
+export interface CommandReply {
+  text: MarkdownNode;
+  keyboard?: VkTeamsKeyboard;
+}
+
+export interface BotCommand {
+  name: string;
+  aliases?: string[];
+  description: MessageKey;
+  args?: CommandArgument[];
+  adminOnly?: boolean;
+  /**
+   * The command also works in the middle of a dialog instead of being
+   * taken as the answer to the current question.
+   */
+  availableInDialog?: boolean;
+  handler: (context: CommandContext) => Promise<CommandReply>;
+}
@@ -0,0 +1,127 @@
+import { I18nService } from 'src/i18n/i18n.service';
+import { LANGUAGE } from 'src/i18n/i18n.types';
+import { MarkdownService } from 'src/markdown/markdown.service';
+import { BotCommand, CommandContext } from './bot.types';
+import { CommandRouterService } from './command-router.service';
+
+describe('CommandRouterService', () => {
+  let router: CommandRouterService;
+  let received: CommandContext['args'][];
+
+  const context = {
+    chatId: 'user@example.com',
+    userId: 'user@example.com',
+    isAdmin: false,
+    language: LANGUAGE.EN,
+  } as Omit<CommandContext, 'args'>;
+
+  const register = (command: Partial<BotCommand>) =>
+    router.register({
+      name: '/test',
+      description: 'command.userRole',
+      handler: async ({ args }) => {
+        received.push(args);
+        return { text: 'ok' };
+      },
+      ...command,
+    });
+
+  beforeEach(() => {
+    router = new CommandRouterService(
+      new I18nService(null, new MarkdownService()),
+    );
+    received = [];
+  });
+
+  it('splits arguments by whitespace', async () => {
+    register({
+      args: [
+        { name: 'contact', label: 'arg.contact' },
+        { name: 'role', label: 'arg.role' },
+      ],
+    });
+
+    await router.dispatch('/test  anna@example.com   manager ', context);
+
+    expect(received).toEqual([
+      { contact: 'anna@example.com', role: 'manager' },
+    ]);
+  });
+
+  it('gives the rest of the text to a rest argument', async () => {
+    register({
+      args: [
+        { name: 'period', label: 'arg.period' },
+        { name: 'description', label: 'arg.description', rest: true },
+      ],
+    });
+
+    await router.dispatch('/test 01.01.2025 Pay the  invoice', context);
+
+    expect(received).toEqual([
+      { period: '01.01.2025', description: 'Pay the  invoice' },
+    ]);
+  });
+
+  it('leaves missing optional arguments undefined', async () => {
+    register({
+      args: [
+        { name: 'period', label: 'arg.period', optional: true },
+        {
+          name: 'description',
+          label: 'arg.description',
+          optional: true,
+          rest: true,
+        },
+      ],
+    });
+
+    await router.dispatch('/test', context);
+
+    expect(received).toEqual([{ period: undefined, description: undefined }]);
+  });
+
+  it('answers with the usage when a required argument is missing', async () => {
+    register({
+      args: [
+        { name: 'contact', label: 'arg.contact' },
+        { name: 'role', label: 'arg.role' },
+      ],
+    });
+
+    const reply = await router.dispatch('/test anna@example.com', context);
+
+    expect(received).toEqual([]);
+    expect(reply.text).toBe(
+      'Usage: /test <contact> <role>\nAssign a role: admin, manager or member',
+    );
+  });
+
+  it('rejects extra words', async () => {
+    register({ args: [{ name: 'contact', label: 'arg.contact' }] });
+
+    await router.dispatch('/test anna@example.com manager', context);
+
+    expect(received).toEqual([]);
+  });
+
+  it('matches names case insensitively and ignores the bot nick', async () => {
+    register({ aliases: ['/t'] });
+
+    await router.dispatch('/TEST@approval_bot', context);
+    await router.dispatch('/t', context);
+
+    expect(received).toHaveLength(2);
+  });
+
+  it('keeps admin commands from other users', async () => {
+    register({ adminOnly: true });
+
+    const reply = await router.dispatch('/test', context);
+
+    expect(received).toEqual([]);
+    expect(reply.text).toBe(
+      'This command is available to administrators only.',
+    );
+  });
+});
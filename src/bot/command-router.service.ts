@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { I18nService } from 'src/i18n/i18n.service';
+import { BotCommand, CommandContext, CommandReply } from './bot.types';
+
+@Injectable()
+export class CommandRouterService {
+  private readonly commands: BotCommand[] = [];
+  private readonly byName = new Map<string, BotCommand>();
+
+  constructor(private readonly i18nService: I18nService) {}
+
+  register(command: BotCommand): void {
+    const names = [command.name, ...(command.aliases || [])];
+    for (const name of names) {
+      if (this.byName.has(name)) {
+        throw new Error(`Command ${name} is already registered`);
+      }
+    }
+
+    this.commands.push(command);
+    for (const name of names) {
+      this.byName.set(name, command);
+    }
+  }
+
+  /**
+   * Looks up the command a message starts with. Names are matched case
+   * insensitively; a `/command@botnick` suffix is ignored.
+   */
+  find(text: string): BotCommand | null {
+    const name = this.getCommandName(text);
+    return (name && this.byName.get(name)) || null;
+  }
+
+  async dispatch(
+    text: string,
+    context: Omit<CommandContext, 'args'>,
+  ): Promise<CommandReply> {
+    const { language } = context;
+    const command = this.find(text);
+    if (!command) {
+      return { text: this.i18nService.t(language, 'common.unknownCommand') };
+    }
+    if (command.adminOnly && !context.isAdmin) {
+      return { text: this.i18nService.t(language, 'command.adminOnly') };
+    }
+
+    const rawArgs = text.trim().replace(/^\S+/, '').trim();
+    const args = this.parseArgs(command, rawArgs);
+    if (!args) {
+      return {
+        text: this.i18nService.t(language, 'command.usage', {
+          usage: this.getUsage(command, language),
+          description: this.i18nService.t(language, command.description),
+        }),
+      };
+    }
+
+    return command.handler({ ...context, args });
+  }
+
+  getHelp(isAdmin: boolean, language: string): string {
+    const lines = this.commands
+      .filter((command) => isAdmin || !command.adminOnly)
+      .map((command) => {
+        const aliases = command.aliases?.length
+          ? this.i18nService.t(language, 'command.aliases', {
+              aliases: command.aliases.join(', '),
+            })
+          : '';
+        return `    ${this.getUsage(command, language)} - ${this.i18nService.t(language, command.description)}${aliases}`;
+      });
+    return `${this.i18nService.t(language, 'command.helpTitle')}\n${lines.join('\n')}`;
+  }
+
+  getUsage(command: BotCommand, language: string): string {
+    const args = (command.args || []).map((arg) => {
+      const label = this.i18nService.t(language, arg.label, arg.labelParams);
+      return arg.optional ? `[${label}]` : `<${label}>`;
+    });
+    return [command.name, ...args].join(' ');
+  }
+
+  /**
+   * Splits the arguments by whitespace; a rest argument takes whatever is
+   * left. Returns null if a required argument is missing or there are
+   * extra words.
+   */
+  private parseArgs(
+    command: BotCommand,
+    rawArgs: string,
+  ): CommandContext['args'] | null {
+    const specs = command.args || [];
+    const args: CommandContext['args'] = {};
+    let remaining = rawArgs;
+
+    for (const spec of specs) {
+      let value: string | undefined;
+      if (spec.rest) {
+        value = remaining || undefined;
+        remaining = '';
+      } else {
+        const match = remaining.match(/^(\S+)\s*/);
+        value = match?.[1];
+        remaining = match ? remaining.slice(match[0].length) : '';
+      }
+
+      if (!value && !spec.optional) {
+        return null;
+      }
+      args[spec.name] = value;
+    }
+
+    return remaining ? null : args;
+  }
+
+  private getCommandName(text: string): string | null {
+    const token = (text || '').trim().split(/\s+/)[0];
+    if (!token?.startsWith('/')) {
+      return null;
+    }
+    return token.split('@')[0].toLowerCase();
+  }
+}
@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import { STEP_RULE } from 'src/tasks/tasks.types';
+import { USER_STEPS } from './bot.types';
+
+export interface ConversationState {
+  step: string;
+  taskData: Record<string, any>;
+}
+
+@Injectable()
+export class ConversationStateService {
+  static readonly KEY_PREFIX = 'approval-bot:conversation';
+  static readonly VERSION = 2;
+  private readonly ttlSeconds = 3600;
+  // Earlier versions wrote the state with the same TTL, so legacy state is
+  // gone this long after the first start of this version.
+  private readonly legacyTtlSeconds = 3600;
+  private readonly logger = new Logger(ConversationStateService.name);
+  private legacyUntil: number | null = null;
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async get(chatId: string): Promise<ConversationState | null> {
+    const redis = this.redisService.getOrThrow();
+    const raw = await redis.get(this.getKey(chatId));
+    if (raw) {
+      try {
+        const { step, taskData } = JSON.parse(raw);
+        return { step, taskData };
+      } catch {
+        this.logger.warn(`Dropped unreadable conversation state of ${chatId}`);
+        await redis.del(this.getKey(chatId));
+        return null;
+      }
+    }
+
+    return this.migrateLegacyState(chatId);
+  }
+
+  async set(
+    chatId: string,
+    step: string,
+    taskData: Record<string, any> = {},
+  ): Promise<void> {
+    const redis = this.redisService.getOrThrow();
+    await redis.set(
+      this.getKey(chatId),
+      JSON.stringify({
+        version: ConversationStateService.VERSION,
+        step,
+        taskData,
+      }),
+      'EX',
+      this.ttlSeconds,
+    );
+  }
+
+  /**
+   * Removes the state of a single chat. Returns whether there was anything to
+   * clear.
+   */
+  async clear(chatId: string): Promise<boolean> {
+    const redis = this.redisService.getOrThrow();
+    const removed = await redis.del(this.getKey(chatId));
+    return removed > 0;
+  }
+
+  private getKey(chatId: string): string {
+    return `${ConversationStateService.KEY_PREFIX}:v${ConversationStateService.VERSION}:${chatId}`;
+  }
+
+  /**
+   * Earlier versions stored the state as plain JSON under the bare chat id
+   * and kept a single approver in `taskData.userId`. Such state is converted
+   * to the current format on first read, once per chat: the bare key may
+   * belong to someone else by now, so it is never written or removed.
+   */
+  private async migrateLegacyState(
+    chatId: string,
+  ): Promise<ConversationState | null> {
+    if (Date.now() > (await this.getLegacyUntil())) {
+      return null;
+    }
+
+    const redis = this.redisService.getOrThrow();
+    const first = await redis.set(
+      `${ConversationStateService.KEY_PREFIX}:legacy-migrated:${chatId}`,
+      '1',
+      'EX',
+      this.legacyTtlSeconds,
+      'NX',
+    );
+    if (!first) {
+      return null;
+    }
+
+    const raw = await redis.get(chatId);
+    if (!raw) {
+      return null;
+    }
+
+    let legacy: { step?: string; taskData?: Record<string, any> };
+    try {
+      legacy = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+    if (!legacy || typeof legacy.step !== 'string') {
+      return null;
+    }
+
+    const taskData = legacy.taskData || {};
+    if (!taskData.steps && taskData.userId) {
+      taskData.steps = [{ rule: STEP_RULE.ALL, approvers: [taskData.userId] }];
+      delete taskData.userId;
+    } else if (!taskData.steps && legacy.step === USER_STEPS.AWAITING_USER_ID) {
+      taskData.steps = [{ rule: null, approvers: [] }];
+    }
+
+    await this.set(chatId, legacy.step, taskData);
+    this.logger.log(`Migrated legacy conversation state of ${chatId}`);
+
+    return { step: legacy.step, taskData };
+  }
+
+  /**
+   * Time after which no legacy state can be left, shared by all instances
+   * through Redis. The marker expires with the window it describes.
+   */
+  private async getLegacyUntil(): Promise<number> {
+    if (this.legacyUntil === null) {
+      const redis = this.redisService.getOrThrow();
+      const key = `${ConversationStateService.KEY_PREFIX}:legacy-until`;
+      await redis.set(
+        key,
+        String(Date.now() + this.legacyTtlSeconds * 1000),
+        'EX',
+        this.legacyTtlSeconds,
+        'NX',
+      );
+      this.legacyUntil = Number(await redis.get(key));
+    }
+    return this.legacyUntil;
+  }
+}
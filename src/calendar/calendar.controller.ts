@@ -0,0 +1,41 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { CalendarService } from './calendar.service';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get('holidays')
+  @RequireScopes(API_KEY_SCOPE.TASKS_READ)
+  async getHolidays() {
+    return this.calendarService.getHolidays();
+  }
+
+  @Post('holidays')
+  @RequireScopes(API_KEY_SCOPE.ADMIN)
+  async addHoliday(@Body() dto: CreateHolidayDto) {
+    return this.calendarService.addHoliday(dto.date, dto.name);
+  }
+
+  @Delete('holidays/:date')
+  @HttpCode(204)
+  @RequireScopes(API_KEY_SCOPE.ADMIN)
+  async removeHoliday(@Param('date') date: string) {
+    const removed = await this.calendarService.removeHoliday(date);
+    if (!removed) {
+      throw new NotFoundException(`Holiday ${date} not found`);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Holiday } from '@prisma/client';
+import { AppConfig } from 'src/app.config';
+import { PrismaService } from 'src/prisma.service';
+import { DEFAULT_LANGUAGE, LANGUAGE_LOCALES } from 'src/i18n/i18n.types';
+import {
+  DEFAULT_TIME_ZONE,
+  LocalDateParts,
+  WorkingSchedule,
+} from './calendar.types';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+@Injectable()
+export class CalendarService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  getDefaultTimeZone(): string {
+    return this.configService.get<AppConfig['DEFAULT_TIME_ZONE']>(
+      'DEFAULT_TIME_ZONE',
+      DEFAULT_TIME_ZONE,
+    );
+  }
+
+  isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getUserTimeZone(vkId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { vkId },
+      select: { timeZone: true },
+    });
+    return user?.timeZone || this.getDefaultTimeZone();
+  }
+
+  formatDate(
+    date: Date,
+    timeZone?: string | null,
+    language: string = DEFAULT_LANGUAGE,
+  ): string {
+    return date.toLocaleString(LANGUAGE_LOCALES[language], {
+      timeZone: timeZone || this.getDefaultTimeZone(),
+    });
+  }
+
+  getLocalParts(date: Date, timeZone: string): LocalDateParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    }).formatToParts(date);
+    const get = (type: string) =>
+      parts.find((part) => part.type === type)?.value ?? '';
+
+    return {
+      year: Number(get('year')),
+      month: Number(get('month')),
+      day: Number(get('day')),
+      hour: Number(get('hour')),
+      minute: Number(get('minute')),
+      weekday: WEEKDAYS.indexOf(get('weekday')) + 1,
+    };
+  }
+
+  /**
+   * Converts a wall-clock time in the given time zone to a UTC date.
+   */
+  toUtc(local: Omit<LocalDateParts, 'weekday'>, timeZone: string): Date {
+    const wallClock = Date.UTC(
+      local.year,
+      local.month - 1,
+      local.day,
+      local.hour,
+      local.minute,
+    );
+    let utc = wallClock;
+    // Two passes settle the offset around daylight saving transitions.
+    for (let i = 0; i < 2; i++) {
+      const parts = this.getLocalParts(new Date(utc), timeZone);
+      const seen = Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute,
+      );
+      utc += wallClock - seen;
+    }
+    return new Date(utc);
+  }
+
+  /**
+   * Returns the subset of users who are inside their working window right
+   * now: a working day that is not an org holiday, between the start and
+   * the end of their working hours in their own time zone.
+   */
+  async filterWorkingUsers(vkIds: string[], now: Date): Promise<Set<string>> {
+    if (vkIds.length === 0) {
+      return new Set();
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { vkId: { in: vkIds } },
+      select: {
+        vkId: true,
+        timeZone: true,
+        workStart: true,
+        workEnd: true,
+        workDays: true,
+      },
+    });
+    const holidays = new Set(
+      (await this.getHolidays()).map((holiday) => holiday.date),
+    );
+
+    const working = new Set<string>();
+    for (const vkId of vkIds) {
+      const user = users.find((item) => item.vkId === vkId);
+      // Unknown users have no schedule to respect.
+      if (!user || this.isWorkingTime(user, now, holidays)) {
+        working.add(vkId);
+      }
+    }
+    return working;
+  }
+
+  isWorkingTime(
+    schedule: WorkingSchedule,
+    now: Date,
+    holidays: Set<string>,
+  ): boolean {
+    const local = this.getLocalParts(
+      now,
+      schedule.timeZone || this.getDefaultTimeZone(),
+    );
+    if (holidays.has(this.toDateKey(local))) {
+      return false;
+    }
+    if (!schedule.workDays.includes(local.weekday)) {
+      return false;
+    }
+
+    const minutes = local.hour * 60 + local.minute;
+    return schedule.workStart < schedule.workEnd
+      ? minutes >= schedule.workStart && minutes < schedule.workEnd
+      : minutes >= schedule.workStart || minutes < schedule.workEnd;
+  }
+
+  async getHolidays(): Promise<Holiday[]> {
+    return this.prisma.holiday.findMany({ orderBy: { date: 'asc' } });
+  }
+
+  async addHoliday(date: string, name: string): Promise<Holiday> {
+    return this.prisma.holiday.upsert({
+      where: { date },
+      update: { name },
+      create: { date, name },
+    });
+  }
+
+  async removeHoliday(date: string): Promise<boolean> {
+    const { count } = await this.prisma.holiday.deleteMany({
+      where: { date },
+    });
+    return count > 0;
+  }
+
+  formatMinutes(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+
+  private toDateKey(local: LocalDateParts): string {
+    return `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,18 @@
+export const DEFAULT_TIME_ZONE = 'Europe/Moscow';
+
+export interface WorkingSchedule {
+  timeZone: string | null;
+  workStart: number;
+  workEnd: number;
+  workDays: number[];
+}
+
+export interface LocalDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** ISO weekday: 1 is Monday, 7 is Sunday. */
+  weekday: number;
+}
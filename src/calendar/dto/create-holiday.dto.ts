@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class CreateHolidayDto {
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be YYYY-MM-DD' })
+  readonly date: string;
+
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+}
@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { DEFAULT_LANGUAGE, LANGUAGE } from 'src/i18n/i18n.types';
+import { TASK_STATUS } from 'src/tasks/tasks.types';
+import { EXPORT_FORMAT } from '../exports.types';
+
+export class ExportQueryDto {
+  @IsOptional()
+  @IsIn(Object.values(EXPORT_FORMAT))
+  readonly format: string = EXPORT_FORMAT.CSV;
+
+  /**
+   * Language of the column headers.
+   */
+  @IsOptional()
+  @IsIn(Object.values(LANGUAGE))
+  readonly language: string = DEFAULT_LANGUAGE;
+
+  @IsOptional()
+  @IsIn(Object.values(TASK_STATUS))
+  readonly status?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly authorVkId?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly approverVkId?: string;
+
+  /**
+   * User on whose behalf the API is called. The export is restricted to
+   * tasks this user is allowed to see.
+   */
+  @IsString()
+  @IsNotEmpty()
+  readonly viewerVkId: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly createdTo?: Date;
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Query, StreamableFile } from '@nestjs/common';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { UsersService } from 'src/users/users.service';
+import { ExportsService } from './exports.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+
+@Controller('exports')
+export class ExportsController {
+  constructor(
+    private readonly exportsService: ExportsService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Get('tasks')
+  @RequireScopes(API_KEY_SCOPE.TASKS_READ)
+  async exportTasks(@Query() query: ExportQueryDto) {
+    const { format, language, viewerVkId, ...filter } = query;
+    const visibleTo = await this.usersService.getVisibleUserIds(viewerVkId);
+    const file = await this.exportsService.exportTasks(
+      { ...filter, visibleTo: visibleTo ?? undefined },
+      format,
+      language,
+    );
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+      length: file.content.length,
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { NotificationsModule } from 'src/notifications/notifications.module';
+import { UsersModule } from 'src/users/users.module';
+import { I18nModule } from 'src/i18n/i18n.module';
+import { ExportsService } from './exports.service';
+import { ExportsController } from './exports.controller';
+
+@Module({
+  imports: [TasksModule, NotificationsModule, UsersModule, I18nModule],
+  providers: [ExportsService],
+  controllers: [ExportsController],
+  exports: [ExportsService],
+})
+export class ExportsModule {}
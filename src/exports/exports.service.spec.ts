@@ -0,0 +1,113 @@
+import { I18nService } from 'src/i18n/i18n.service';
+import { LANGUAGE } from 'src/i18n/i18n.types';
+import { MarkdownService } from 'src/markdown/markdown.service';
+import { ExportsService } from './exports.service';
+import { ExportRow } from './exports.types';
+
+const HEADER =
+  'Task ID,Created,Author,Description,Status,Deadline,Step,Approver,' +
+  'Approver ID,Decision,Decided at,Comment,Rejection reason';
+
+function createRow(overrides: Partial<ExportRow> = {}): ExportRow {
+  return {
+    taskId: 'task',
+    createdAt: new Date('2026-10-05T10:00:00Z'),
+    author: 'Anna',
+    text: 'Invoice',
+    status: 'approved',
+    deadline: null,
+    step: 1,
+    approver: 'Boris',
+    approverVkId: 'boris@example.com',
+    decision: 'approved',
+    decidedAt: null,
+    comment: '',
+    rejectReason: '',
+    ...overrides,
+  };
+}
+
+describe('ExportsService', () => {
+  let service: ExportsService;
+
+  /**
+   * The CSV text of a single row with the given text column, without the
+   * BOM, the header and the trailing line break.
+   */
+  const getRowLine = (text: string) =>
+    service
+      .toCsv([createRow({ text })], LANGUAGE.EN)
+      .toString('utf8')
+      .slice(1 + HEADER.length + 2, -2);
+  const withText = (cell: string) =>
+    `task,2026-10-05T10:00:00.000Z,Anna,${cell},approved,,1,Boris,` +
+    'boris@example.com,approved,,,';
+
+  beforeEach(() => {
+    service = new ExportsService(
+      null,
+      null,
+      new I18nService(null, new MarkdownService()),
+    );
+  });
+
+  describe('toCsv', () => {
+    it('writes a BOM, a header and CRLF line endings', () => {
+      const csv = service
+        .toCsv([createRow(), createRow({ taskId: 'other' })], LANGUAGE.EN)
+        .toString('utf8');
+
+      expect(csv.startsWith('\uFEFF')).toBe(true);
+      expect(csv.slice(1).split('\r\n')).toEqual([
+        HEADER,
+        withText('Invoice'),
+        withText('Invoice').replace('task', 'other'),
+        '',
+      ]);
+    });
+
+    it('writes dates as ISO 8601 and empty values as empty cells', () => {
+      const csv = service
+        .toCsv(
+          [
+            createRow({
+              deadline: new Date('2026-10-06T12:30:00Z'),
+              step: null,
+            }),
+          ],
+          LANGUAGE.EN,
+        )
+        .toString('utf8');
+
+      expect(csv).toContain(
+        ',approved,2026-10-06T12:30:00.000Z,,Boris,boris@example.com,',
+      );
+    });
+
+    it('quotes cells with commas, quotes and line breaks', () => {
+      expect(getRowLine('Pay, please')).toBe(withText('"Pay, please"'));
+      expect(getRowLine('The "big" one')).toBe(withText('"The ""big"" one"'));
+      expect(getRowLine('First\r\nSecond')).toBe(withText('"First\r\nSecond"'));
+      expect(getRowLine('First\nSecond')).toBe(withText('"First\nSecond"'));
+    });
+
+    it('guards cells that a spreadsheet would run as a formula', () => {
+      expect(getRowLine('=SUM(A1:A2)')).toBe(withText("'=SUM(A1:A2)"));
+      expect(getRowLine('+7 999')).toBe(withText("'+7 999"));
+      expect(getRowLine('-1')).toBe(withText("'-1"));
+      expect(getRowLine('@cmd')).toBe(withText("'@cmd"));
+      expect(getRowLine('\t=1')).toBe(withText("'\t=1"));
+      expect(getRowLine('\r=1')).toBe(withText(`"'\r=1"`));
+    });
+
+    it('quotes a guarded cell that also needs quoting', () => {
+      expect(getRowLine('=HYPERLINK("x", "y")')).toBe(
+        withText(`"'=HYPERLINK(""x"", ""y"")"`),
+      );
+    });
+
+    it('leaves formula characters in the middle of a cell alone', () => {
+      expect(getRowLine('a=b+c-d@e')).toBe(withText('a=b+c-d@e'));
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import { I18nService } from 'src/i18n/i18n.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { TasksService } from 'src/tasks/tasks.service';
+import { TaskWithRoute } from 'src/tasks/tasks.types';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMAT,
+  ExportFile,
+  ExportFilter,
+  ExportRow,
+} from './exports.types';
+
+const EXPORT_PAGE_SIZE = 100;
+
+@Injectable()
+export class ExportsService {
+  private readonly logger = new Logger(ExportsService.name);
+
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly notificationsService: NotificationsService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * Column headers and the sheet name are in the given language; the
+   * values are the same in every language.
+   */
+  async exportTasks(
+    filter: ExportFilter,
+    format: string,
+    language: string,
+  ): Promise<ExportFile> {
+    const rows = await this.getRows(filter);
+    const content =
+      format === EXPORT_FORMAT.XLSX
+        ? await this.toXlsx(rows, language)
+        : this.toCsv(rows, language);
+    this.logger.log(`Exported ${rows.length} row(s) as ${format}`);
+    return {
+      fileName: `tasks-${new Date().toISOString().slice(0, 10)}.${format}`,
+      contentType: EXPORT_CONTENT_TYPES[format],
+      content,
+      rows: rows.length,
+    };
+  }
+
+  /**
+   * Rows of all tasks matching the filter, oldest first. Tasks are read page
+   * by page with the same filter as the task list.
+   */
+  async getRows(filter: ExportFilter): Promise<ExportRow[]> {
+    const tasks: TaskWithRoute[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.tasksService.listTasks({
+        ...filter,
+        cursor,
+        limit: EXPORT_PAGE_SIZE,
+      });
+      tasks.push(...page.items);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    tasks.reverse();
+
+    const names = await this.notificationsService.getUserNames([
+      ...new Set(
+        tasks.flatMap((task) => [
+          task.chatId,
+          ...task.steps.flatMap((step) =>
+            step.approvers.map((approver) => approver.userVkId),
+          ),
+        ]),
+      ),
+    ]);
+
+    return tasks.flatMap((task) => {
+      const taskColumns = {
+        taskId: task.id,
+        createdAt: task.createdAt,
+        author: names.get(task.chatId),
+        text: task.text || task.fileCaption || '',
+        status: task.status,
+        deadline: task.deadline,
+        rejectReason: task.rejectReason || '',
+      };
+      const approverRows = task.steps.flatMap((step) =>
+        step.approvers.map((approver) => ({
+          ...taskColumns,
+          step: step.order + 1,
+          approver: names.get(approver.userVkId),
+          approverVkId: approver.userVkId,
+          decision: approver.decision || '',
+          decidedAt: approver.decidedAt,
+          comment: approver.comment || '',
+        })),
+      );
+      return approverRows.length > 0
+        ? approverRows
+        : [
+            {
+              ...taskColumns,
+              step: null,
+              approver: '',
+              approverVkId: '',
+              decision: '',
+              decidedAt: null,
+              comment: '',
+            },
+          ];
+    });
+  }
+
+  /**
+   * RFC 4180 CSV with a BOM so spreadsheet apps detect UTF-8. Dates are
+   * ISO 8601 in UTC.
+   */
+  toCsv(rows: ExportRow[], language: string): Buffer {
+    const lines = [
+      EXPORT_COLUMNS.map((column) =>
+        this.toCsvCell(this.i18nService.t(language, column.header)),
+      ),
+      ...rows.map((row) =>
+        EXPORT_COLUMNS.map((column) => {
+          const value = row[column.key];
+          return this.toCsvCell(
+            value instanceof Date ? value.toISOString() : String(value ?? ''),
+          );
+        }),
+      ),
+    ];
+    return Buffer.from(
+      '\uFEFF' + lines.map((cells) => cells.join(',')).join('\r\n') + '\r\n',
+      'utf8',
+    );
+  }
+
+  async toXlsx(rows: ExportRow[], language: string): Promise<Buffer> {
+    const workbook = new Workbook();
+    const sheet = workbook.addWorksheet(
+      this.i18nService.t(language, 'export.sheetName'),
+    );
+    sheet.columns = EXPORT_COLUMNS.map((column) => ({
+      header: this.i18nService.t(language, column.header),
+      key: column.key,
+      width: column.key === 'text' ? 50 : 20,
+      ...((column.key === 'createdAt' ||
+        column.key === 'deadline' ||
+        column.key === 'decidedAt') && {
+        style: { numFmt: 'dd.mm.yyyy hh:mm' },
+      }),
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    sheet.addRows(rows);
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Quotes the value when needed. Values that a spreadsheet would run as a
+   * formula are prefixed with an apostrophe.
+   */
+  private toCsvCell(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
@@ -0,0 +1,59 @@
+import { ListTasksFilter } from 'src/tasks/tasks.types';
+import { MessageKey } from 'src/i18n/i18n.types';
+
+export const EXPORT_FORMAT = {
+  CSV: 'csv',
+  XLSX: 'xlsx',
+};
+
+export const EXPORT_CONTENT_TYPES: Record<string, string> = {
+  [EXPORT_FORMAT.CSV]: 'text/csv; charset=utf-8',
+  [EXPORT_FORMAT.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ExportFilter = Omit<ListTasksFilter, 'cursor' | 'limit'>;
+
+/**
+ * One approval: a task gets a row per approver of every step, or a single
+ * row with empty approver columns while it has none (a group step nobody
+ * has decided yet).
+ */
+export interface ExportRow {
+  taskId: string;
+  createdAt: Date;
+  author: string;
+  text: string;
+  status: string;
+  deadline: Date | null;
+  step: number | null;
+  approver: string;
+  approverVkId: string;
+  decision: string;
+  decidedAt: Date | null;
+  comment: string;
+  rejectReason: string;
+}
+
+export const EXPORT_COLUMNS: { key: keyof ExportRow; header: MessageKey }[] = [
+  { key: 'taskId', header: 'exportColumn.taskId' },
+  { key: 'createdAt', header: 'exportColumn.createdAt' },
+  { key: 'author', header: 'exportColumn.author' },
+  { key: 'text', header: 'exportColumn.text' },
+  { key: 'status', header: 'exportColumn.status' },
+  { key: 'deadline', header: 'exportColumn.deadline' },
+  { key: 'step', header: 'exportColumn.step' },
+  { key: 'approver', header: 'exportColumn.approver' },
+  { key: 'approverVkId', header: 'exportColumn.approverVkId' },
+  { key: 'decision', header: 'exportColumn.decision' },
+  { key: 'decidedAt', header: 'exportColumn.decidedAt' },
+  { key: 'comment', header: 'exportColumn.comment' },
+  { key: 'rejectReason', header: 'exportColumn.rejectReason' },
+];
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  rows: number;
+}
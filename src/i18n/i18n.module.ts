@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MarkdownModule } from 'src/markdown/markdown.module';
+import { I18nService } from './i18n.service';
+
+@Module({
+  imports: [MarkdownModule],
+  providers: [I18nService],
+  exports: [I18nService],
+})
+export class I18nModule {}
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { MarkdownService } from 'src/markdown/markdown.service';
+import { MarkdownNode } from 'src/markdown/markdown.types';
+import { PrismaService } from 'src/prisma.service';
+import { en } from './locales/en';
+import { ru } from './locales/ru';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE,
+  LANGUAGE_LOCALES,
+  Message,
+  MessageKey,
+  MessageParams,
+} from './i18n.types';
+
+const CATALOGS: Record<string, Record<MessageKey, Message>> = {
+  [LANGUAGE.RU]: ru,
+  [LANGUAGE.EN]: en,
+};
+
+@Injectable()
+export class I18nService {
+  private readonly pluralRules = new Map<string, Intl.PluralRules>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly markdownService: MarkdownService,
+  ) {}
+
+  /**
+   * Plain text of a catalog message in the given language, for buttons,
+   * notices and files.
+   */
+  t(language: string, key: MessageKey, params: MessageParams = {}): string {
+    return this.markdownService.toPlainText(this.format(language, key, params));
+  }
+
+  /**
+   * Catalog message with its formatting, for message texts. Plural messages
+   * pick their form by the `count` parameter.
+   */
+  format(
+    language: string,
+    key: MessageKey,
+    params: MessageParams = {},
+  ): MarkdownNode {
+    const message =
+      CATALOGS[language]?.[key] ?? CATALOGS[DEFAULT_LANGUAGE][key] ?? key;
+    const template =
+      typeof message === 'string'
+        ? message
+        : (message[
+            this.getPluralRules(language).select(Number(params.count))
+          ] ?? message.other);
+    return this.markdownService.parseTemplate(template, params);
+  }
+
+  /**
+   * Maps a language tag such as `en-US` to a supported language, falling
+   * back to the default one.
+   */
+  resolveLanguage(tag?: string | null): string {
+    const language = (tag || '').toLowerCase().split(/[-_]/)[0];
+    return language in CATALOGS ? language : DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * The language the user chose or, until they do, the one of their
+   * messenger profile.
+   */
+  async getLanguage(vkId: string, profileLanguage?: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { vkId },
+      select: { language: true },
+    });
+    return this.resolveLanguage(user?.language || profileLanguage);
+  }
+
+  getLanguages(): string[] {
+    return Object.keys(CATALOGS);
+  }
+
+  getLocale(language: string): string {
+    return LANGUAGE_LOCALES[language] ?? LANGUAGE_LOCALES[DEFAULT_LANGUAGE];
+  }
+
+  private getPluralRules(language: string): Intl.PluralRules {
+    if (!this.pluralRules.has(language)) {
+      this.pluralRules.set(
+        language,
+        new Intl.PluralRules(this.getLocale(language)),
+      );
+    }
+    return this.pluralRules.get(language);
+  }
+}
@@ -0,0 +1,37 @@
+import { MarkdownNode } from 'src/markdown/markdown.types';
+import { ru } from './locales/ru';
+
+export const LANGUAGE = {
+  RU: 'ru',
+  EN: 'en',
+};
+
+export const DEFAULT_LANGUAGE = LANGUAGE.RU;
+
+/**
+ * Locales used to format dates and numbers in each language.
+ */
+export const LANGUAGE_LOCALES: Record<string, string> = {
+  [LANGUAGE.RU]: 'ru-RU',
+  [LANGUAGE.EN]: 'en-GB',
+};
+
+/**
+ * Forms of a message that depends on `count`, picked by the plural rules of
+ * the language. Languages use different subsets of the forms; `other` is
+ * the fallback.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/**
+ * Catalog entry. `{name}` placeholders are replaced with the parameters of
+ * the same name. `*bold*` and `` `code` `` mark formatting, so a literal
+ * asterisk has to be inside a code span.
+ */
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof ru;
+
+export type MessageParams = Record<string, MarkdownNode | number>;
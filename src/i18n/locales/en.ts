@@ -0,0 +1,508 @@
+import { Message, MessageKey } from '../i18n.types';
+
+export const en: Record<MessageKey, Message> = {
+  'card.title': '📨 *New task for approval*',
+  'card.from': '*From:* {name}',
+  'card.step': '*Approval step:* {step} of {total}',
+  'card.quorum': '*Member approvals needed:* {quorum}',
+  'card.deadline': '*Deadline:* {date}',
+  'card.description': '*Description:* {text}',
+  'card.fileCaption': '*File description:* {text}',
+  'card.forwarded': '*Forwarded:* {chain}',
+  'card.forwardedToYou': 'you',
+
+  'button.approve': 'Approve',
+  'button.reject': 'Reject',
+  'button.forward': 'Forward…',
+  'button.history': 'Task history',
+  'button.noDeadline': 'No deadline',
+  'button.addComment': 'Add a comment',
+  'button.language': 'Language / Язык',
+  'button.createTask': 'Create a task',
+  'button.createFromTemplate': 'Create from a template',
+  'button.userTasks': 'View a user’s tasks',
+  'button.recentTasks': 'My tasks',
+  'button.statistics': 'View statistics',
+  'button.notificationSettings': 'Notification settings',
+  'button.resume': '{index}. Resume',
+  'button.pause': '{index}. Pause',
+  'button.delete': '{index}. Delete',
+  'button.notifyAuthor': 'Just notify me',
+  'button.backupApprover': 'Pass to a backup approver',
+  'button.approverManager': 'Pass to the approver’s manager',
+  'button.expire': 'Close the task as expired',
+  'button.ruleAll': 'Everyone must approve',
+  'button.ruleAny': 'One approval is enough',
+  'button.nextStep': 'Add a step',
+  'button.routeDone': 'Finish the route',
+  'button.editText': 'Description',
+  'button.editFile': 'File',
+  'button.editInterval': 'Interval',
+  'button.editApprover': 'Approver',
+  'button.cancelTask': 'Withdraw the task',
+  'button.prevPage': '◀️ Previous',
+  'button.nextPage': 'Next ▶️',
+  'button.editTask': 'Edit task',
+
+  'common.noDescription': 'No description',
+  'common.usersNotFound': 'Users not found: {ids}',
+  'common.userNotFound': 'No user with this userId was found.',
+  'common.unknownCommand':
+    'Unknown command. Use /help to see the list of commands.',
+  'common.commandHandled': 'Command handled',
+  'common.startFirst': 'Run /start first.',
+  'common.unknownUser': 'Unknown user',
+
+  'route.invalidContact':
+    'Invalid link. Send a contact from your contact list.',
+  'route.groupStepAlone':
+    'A group chat must be a separate step without other approvers.',
+  'route.stepApprovers': {
+    one: 'Step {step}: {count} approver. You can send more contacts for this step.',
+    other:
+      'Step {step}: {count} approvers. You can send more contacts for this step.',
+  },
+  'route.quorumRange': 'Enter a number from 1 to {max}:',
+  'route.quorumSaved': 'Step quorum saved: {quorum}. What next?',
+  'route.invalidInterval': 'Invalid interval. Enter a positive number.',
+  'route.askRecurringDeadline':
+    'How many hours after each task is created is the approval due? If no deadline is needed, press “No deadline”.',
+  'route.askDeadline':
+    'Enter the approval deadline: a date (DD.MM.YYYY HH:MM) or “in N h”. If no deadline is needed, press “No deadline”.',
+  'route.invalidDeadline':
+    'Invalid deadline. Enter a future date (DD.MM.YYYY HH:MM) or “in N h”.',
+  'route.askEscalation':
+    'What should happen if there is no decision by the deadline?',
+  'route.invalidDeadlineHours':
+    'Invalid deadline. Enter a positive number of hours.',
+  'route.invalidSingleContact':
+    'Invalid link. Send one contact from your contact list.',
+  'route.escalationUnavailable': 'You cannot choose the overdue action now.',
+  'route.askBackupApprover': 'Send the contact of the backup approver:',
+  'route.askDescription': 'Enter the task description:',
+  'route.ruleUnavailable': 'You cannot choose the approval rule now.',
+  'route.ruleSaved': 'The step rule is saved. What next?',
+  'route.nextStepUnavailable': 'You cannot add an approval step now.',
+  'route.askStepApprovers':
+    'Send the contacts of the step {step} approvers or a group chat link:',
+  'route.deadlineSkipUnavailable': 'You cannot skip the deadline now.',
+  'route.doneUnavailable': 'You cannot finish the approval route now.',
+  'route.askInterval': 'Enter the reminder interval in minutes:',
+  'route.botNotInGroup':
+    'The bot is not a member of this chat. Add the bot to the group and send the link again.',
+  'route.askQuorum': {
+    one: 'Step {step} will be approved in the group chat ({count} member). How many members must approve the task? Enter a number:',
+    other:
+      'Step {step} will be approved in the group chat ({count} members). How many members must approve the task? Enter a number:',
+  },
+  'route.assignmentForbidden':
+    'You cannot assign tasks to these users: {names}',
+  'route.taskCreated': 'The task is created!',
+  'route.askFirstStepApprovers':
+    'Send the contacts of the first step approvers (several in one message are fine) or a group chat link:',
+
+  'error.checkAccount': 'Failed to check your account. Please try again.',
+  'error.processTask': 'Failed to process the task. Please try again.',
+  'error.saveComment': 'Failed to save the comment. Please try again.',
+  'error.editTask': 'Failed to edit the task. Please try again.',
+  'error.forwardTask': 'Failed to forward the task. Please try again.',
+  'error.checkUser': 'Failed to check the user. Please try again.',
+  'error.changeSettings': 'Failed to change the settings. Please try again.',
+  'error.taskHistory': 'Failed to load the task history. Please try again.',
+  'error.cancelTask': 'Failed to cancel the task. Please try again.',
+  'error.createTask': 'Failed to create the task. Please try again.',
+  'error.createRecurringTask':
+    'Failed to create the recurring task. Please try again.',
+  'error.findTask': 'Failed to find the task. Please try again.',
+  'error.saveManager': 'Failed to save the manager. Please try again.',
+  'error.saveSettings': 'Failed to save the settings. Please try again.',
+  'error.holidays': 'Failed to load the holidays. Please try again.',
+  'error.apiKeys': 'Failed to process API keys. Please try again.',
+  'error.users': 'Failed to load the users. Please try again.',
+  'error.saveRole': 'Failed to save the role. Please try again.',
+  'error.saveDepartment': 'Failed to save the department. Please try again.',
+  'error.createTemplate': 'Failed to create the template. Please try again.',
+  'error.deleteTemplate': 'Failed to delete the template. Please try again.',
+  'error.recurringTasks':
+    'Failed to load the recurring tasks. Please try again.',
+  'error.changeRecurringTask':
+    'Failed to change the recurring task. Please try again.',
+  'error.loadTemplate': 'Failed to load the template. Please try again.',
+  'error.templates': 'Failed to load the templates. Please try again.',
+  'error.tasks': 'Failed to load the tasks. Please try again.',
+  'error.loadSettings': 'Failed to load the settings. Please try again.',
+  'error.statistics': 'Failed to load the statistics. Please try again.',
+  'error.export': 'Failed to export the tasks. Please try again.',
+
+  'decision.reasonRequired':
+    'A rejection reason is required. Enter it as text:',
+  'decision.commentEmpty': 'The comment cannot be empty. Enter some text:',
+  'decision.commentSaved': 'Comment saved.',
+  'decision.decisionNotFound': 'Your decision on this task was not found.',
+  'decision.askRejectReason': 'Enter the reason for rejecting the task:',
+  'decision.askComment': 'Enter a comment on your decision:',
+  'decision.taskNotFound': 'Task not found.',
+  'decision.alreadyApproved': 'The task is already approved.',
+  'decision.alreadyRejected': 'The task is already rejected.',
+  'decision.expired': 'The approval deadline has passed.',
+  'decision.cancelled': 'The task was cancelled by its author.',
+  'decision.unknownStatus': 'Unknown task status.',
+  'decision.notApprover': 'The task is waiting for other approvers now.',
+  'decision.notGroupMember': 'Only members of the group can decide.',
+  'decision.alreadyDecided': 'You have already decided on this task.',
+  'decision.recorded':
+    'Your decision is recorded. Waiting for the other approvers of the step.',
+  'decision.stepApproved':
+    'Step {step} is approved, the task moved to step {nextStep}.',
+  'decision.approved': 'The task is approved!',
+  'decision.rejected': 'The task is rejected.',
+
+  'template.valueEmpty': 'The value cannot be empty. Enter it again:',
+  'template.createUsage':
+    'Format: /template-create <name> | <interval, min> | <deadline, h or -> | <description with {{field}} fields> | [approver contacts]',
+  'template.invalidContact': 'Invalid approver contact link.',
+  'template.exists': 'Template “{name}” already exists.',
+  'template.created': 'Template “{name}” is created. Fields: {fields}.',
+  'template.noFields': 'none',
+  'template.notFound': 'Template not found.',
+  'template.deleted': 'Template “{name}” is deleted.',
+  'template.askField': 'Fill in the “{field}” field:',
+  'template.askRoute':
+    'The template has no approvers. Send the contacts of the first step approvers (several in one message are fine) or a group chat link:',
+  'template.none': 'There are no templates yet.',
+  'template.title': '📋 *Templates:*',
+  'template.fields': 'Fields: {fields}',
+  'template.steps': 'Approval steps: {steps}',
+  'template.stepsOnCreate': 'set when creating',
+  'template.schedule': 'Reminder: every {interval} min, deadline: {deadline}',
+  'template.deadlineHours': '{hours} h',
+  'template.noDeadline': 'none',
+  'template.choose': 'Choose a template:',
+
+  'forward.askContact': 'Send the contact of the user to forward the task to:',
+  'forward.oneContact': 'Send one contact from your contact list.',
+  'forward.userNotFound':
+    'No user with this userId was found. Send another contact:',
+  'forward.sendAnother': '{error}. Send another contact:',
+  'forward.sameUser':
+    'You cannot forward a task to yourself. Send another contact:',
+  'forward.alreadyApprover':
+    'This user already approves the current step. Send another contact:',
+  'forward.done': 'The task is forwarded: {chain}',
+
+  'notificationType.taskApproved': 'Task approved',
+  'notificationType.taskRejected': 'Task rejected',
+  'notificationType.stepCompleted': 'Route step completed',
+  'notificationType.decisionRecorded': 'Decision of one of the approvers',
+  'notificationType.taskEscalated': 'Deadline passed, task escalated',
+  'notificationType.taskExpired': 'Deadline passed, task closed',
+  'notificationType.taskEdited': 'Author edited the task',
+  'notificationType.taskCancelled': 'Author withdrew the task',
+  'notificationType.taskDelegated': 'Task forwarded',
+
+  'taskEvent.created': 'Task created',
+  'taskEvent.reminderSent': 'Reminder sent',
+  'taskEvent.buttonPressed': 'Button pressed',
+  'taskEvent.decision': 'Decision made',
+  'taskEvent.commentAdded': 'Comment added',
+  'taskEvent.stepAdvanced': 'Task moved to the next step',
+  'taskEvent.statusChanged': 'Status changed',
+  'taskEvent.deliveryFailed': 'Message delivery failed',
+  'taskEvent.escalated': 'Deadline passed, task escalated',
+  'taskEvent.edited': 'Task edited by the author',
+  'taskEvent.delegated': 'Task forwarded',
+
+  'role.admin': 'Administrator',
+  'role.manager': 'Manager',
+  'role.member': 'Employee',
+
+  'notifications.unknownType': 'Unknown notification type.',
+  'notifications.muted': '“{type}” notifications are off.',
+  'notifications.unmuted': '“{type}” notifications are on.',
+  'notifications.title': '🔔 *Notification settings*',
+  'notifications.hint': 'Press a notification type to turn it on or off:',
+
+  'edit.askText': 'Enter the new task description:',
+  'edit.askFile': 'Send the new file:',
+  'edit.askInterval': 'Enter the new reminder interval in minutes:',
+  'edit.askApprover':
+    'Send two contacts: the current approver and the one who replaces them.',
+  'edit.askField': 'What do you want to change in the task?',
+  'edit.textEmpty': 'The description cannot be empty. Enter a new description:',
+  'edit.fileMissing': 'Attach the new file to the message:',
+  'edit.unavailable': 'You cannot edit the task now.',
+  'edit.notInRoute':
+    'The first contact is not an approver of the task. Try again:',
+  'edit.edited': 'The task is edited, the approvers were notified.',
+  'edit.noChanges':
+    'The new value is the same as the current one, the task is unchanged.',
+  'edit.hasDecisions': 'The task already has a decision and cannot be edited.',
+
+  'tasks.askUserContact': 'Send the user’s contact:',
+  'tasks.noAccess': 'You are not allowed to view this user’s tasks.',
+  'tasks.userTitle': '📝 *Tasks of {name}*',
+  'tasks.title': '📝 *My tasks*',
+  'tasks.filters': '{role} · {status} · page {page}',
+  'tasks.item': '*{index}.* {text}\n{status} · {author} · {date}',
+  'tasks.none': 'No tasks match these filters.',
+  'tasks.choose': 'Tap a task number to open it.',
+  'tasks.noTaskAccess': 'You do not have access to this task.',
+
+  'language.name': 'English',
+  'language.saved': 'Interface language: {language}.',
+  'language.unknown': 'Unknown language. Available: {languages}.',
+  'language.choose':
+    'Current language: {language}. Choose the interface language:',
+
+  'group.buttonUnavailable': 'This button is not available in a group chat.',
+  'group.askRejectReason':
+    '{name}, send the reason for rejection as your next message in this chat.',
+  'group.rejectReasonInChat': 'Enter the reason for rejection in the chat.',
+
+  'recurring.created':
+    'The recurring task is saved. The first task will be created on {date}.',
+  'recurring.invalidSchedule':
+    'Invalid schedule. Specify five cron fields: minute, hour, day of month, month and weekday, e.g. `0 10 * * 1`.',
+  'recurring.askDescription': 'Next run: {date}. Enter the task description:',
+  'recurring.none':
+    'You have no recurring tasks. Create one with /recurring-create.',
+  'recurring.title': '🔁 *Recurring tasks:*',
+  'recurring.schedule': 'Schedule: {schedule}',
+  'recurring.paused': 'Paused',
+  'recurring.nextRun': 'Next run: {date}',
+  'recurring.notFound': 'Recurring task not found.',
+
+  'command.start': 'Start working with the bot',
+  'command.createTask': 'Create a new task',
+  'command.templates': 'Create a task from a template',
+  'command.templateCreate':
+    'Create a template; description fields are written as {{field}}, contacts are optional',
+  'command.templateDelete': 'Delete a template',
+  'command.recurring': 'Your recurring tasks',
+  'command.recurringCreate':
+    'Create a recurring task; the schedule is a cron expression, e.g. `0 10 * * 1` for Mondays at 10:00',
+  'command.deleteTask': 'Cancel your pending task',
+  'command.editTask': 'Edit your task before the first decision',
+  'command.watchLastTasks': 'Browse your tasks',
+  'command.userTasks': 'Browse a user’s tasks',
+  'command.stats': 'Approval analytics for a period (30 days by default)',
+  'command.export':
+    'Export tasks to CSV or XLSX; filters: period, status=, author=, approver=',
+  'command.notifications': 'Notification settings',
+  'command.timezone': 'Set your time zone',
+  'command.workHours': 'Set working hours for reminders',
+  'command.outOfOffice':
+    'Out of office: tasks go to your deputy for this period (off to cancel)',
+  'command.holidays': 'Holidays',
+  'command.apiKeys': 'List API keys',
+  'command.apiKeyCreate': 'Issue an API key',
+  'command.apiKeyRevoke': 'Revoke an API key',
+  'command.users': 'Users, their roles and departments',
+  'command.userRole': 'Assign a role: admin, manager or member',
+  'command.userDepartment':
+    'Set a user’s department (omit the name to remove it)',
+  'command.setManager':
+    'Set a user’s manager (omit the manager to remove them)',
+  'command.cancel': 'Cancel the current action',
+  'command.help': 'Show the list of commands',
+  'command.language': 'Choose the interface language',
+  'command.adminOnly': 'This command is available to administrators only.',
+  'command.usage': 'Usage: {usage}\n{description}',
+  'command.helpTitle': 'Available commands:',
+  'command.aliases': ' (also {aliases})',
+
+  'arg.description': 'description',
+  'arg.template':
+    'name | interval, min | deadline, h or - | description | contacts',
+  'arg.templateName': 'name',
+  'arg.cron': 'minute hour day month weekday',
+  'arg.taskId': 'task ID',
+  'arg.contact': 'contact',
+  'arg.period': 'DD.MM.YYYY-DD.MM.YYYY',
+  'arg.exportOptions':
+    'csv|xlsx DD.MM.YYYY-DD.MM.YYYY status=… author=<contact> approver=<contact>',
+  'arg.timeZone': 'time zone',
+  'arg.workHours': 'HH:MM-HH:MM days',
+  'arg.deputyContact': 'deputy’s contact',
+  'arg.apiKeyName': 'name',
+  'arg.prefix': 'prefix',
+  'arg.role': 'role',
+  'arg.department': 'department',
+  'arg.managerContact': 'manager’s contact',
+  'arg.scopes': '{scopes}',
+  'arg.language': 'ru|en',
+
+  'start.welcome': 'Welcome! Choose a command:',
+
+  'ownTask.notFound': 'No pending task with this ID was found.',
+  'ownTask.ambiguousId': 'Several tasks match this ID, enter it in full.',
+  'ownTask.cancelled': 'The task is withdrawn, the approvers were notified.',
+  'ownTask.notPending': 'The task is no longer pending.',
+
+  'settings.timeZoneUsage':
+    'Specify an IANA time zone, e.g. /timezone Europe/Moscow',
+  'settings.timeZoneSaved': 'Time zone saved: {timeZone}',
+  'settings.workHoursUsage':
+    'Specify working hours and, optionally, working days (1 is Monday, 7 is Sunday), e.g. /work-hours 09:00-18:00 1-5',
+  'settings.workHoursSaved': 'Working hours saved: {start}–{end}, days: {days}',
+
+  'outOfOffice.usage':
+    'Specify the period and your deputy, e.g. /out-of-office 01.08.2025-14.08.2025 <contact link>',
+  'outOfOffice.notSet': 'No out-of-office period is set.\n{usage}',
+  'outOfOffice.current':
+    'Out of office: {from} – {until}\nDeputy: {name}\nCancel: /out-of-office off',
+  'outOfOffice.cancelled': 'Out-of-office period cancelled.',
+  'outOfOffice.selfSubstitute': 'You cannot be your own deputy.',
+  'outOfOffice.saved':
+    'Out of office saved: {from} – {until}\nDeputy: {name}\nDuring this period new tasks and tasks waiting for your decision go to your deputy.',
+
+  'holidays.none': 'No holidays are set.',
+  'holidays.title': '📅 *Holidays:*',
+
+  'apiKeys.none': 'No API keys have been issued yet.',
+  'apiKeys.title': '🔑 *API keys:*',
+  'apiKeys.revokedMark': ' — revoked',
+  'apiKeys.createUsage':
+    'Specify the key name and comma-separated scopes: /api-key-create <name> <{scopes}>',
+  'apiKeys.issued':
+    'Key “{name}” is issued. Save it, it will not be shown again:\n\n`{key}`',
+  'apiKeys.revoked': 'Key {prefix} is revoked.',
+  'apiKeys.notFound': 'No active key with this prefix was found.',
+
+  'users.none': 'There are no users yet.',
+  'users.title': '👥 *Users:*',
+  'users.noDepartment': 'no department',
+  'users.roleUsage':
+    'Specify the contact and role: /user-role <contact link> admin|manager|member',
+  'users.ownRole': 'You cannot change your own role.',
+  'users.roleSaved': '{name}: role “{role}”',
+  'users.departmentUsage':
+    'Specify the contact and department: /user-department <contact link> <department>',
+  'users.departmentSaved': '{name}: department “{department}”',
+  'users.departmentRemoved': '{name} is no longer in a department.',
+  'users.managerUsage':
+    'Specify the contacts of the user and their manager: /set-manager <contact link> <manager’s contact link>',
+  'users.ownManager': 'A user cannot be their own manager.',
+  'users.managerSaved': '{name}: manager {manager}',
+  'users.managerRemoved': '{name} no longer has a manager.',
+
+  'cancel.done': 'The current action is cancelled.',
+  'cancel.nothing': 'There is nothing to cancel.',
+
+  'stats.periodUsage':
+    'Specify the period as DD.MM.YYYY-DD.MM.YYYY, e.g. /stats 01.09.2025-30.09.2025',
+  'stats.title': '📊 *Approval analytics* {from} – {to}',
+  'stats.totals':
+    '• Total tasks: {total}\n• Approved: {approved}\n• Rejected: {rejected}\n• Pending: {pending}\n• Expired: {expired}\n• Cancelled: {cancelled}',
+  'stats.decisionTime': '• Time to decision: median {median}, p90 {p90}',
+  'stats.reminders':
+    '• Reminders: {total}, {perTask} per task on average, {max} at most',
+  'stats.approversTitle': '*Approvers (response time):*',
+  'stats.approver':
+    '{name} — median {median}, p90 {p90}, {decisions} decisions, {pending} waiting',
+  'stats.slowestTitle': '*Waiting longest for a decision:*',
+  'stats.slowTask': '{index}. `{id}` {text} — {age}, {reminders} reminders',
+  'stats.waitingFor': ', waiting for: {names}',
+  'stats.trendByDay': '*Daily trend:*',
+  'stats.trendByWeek': '*Weekly trend:*',
+  'stats.trendBucket':
+    '{date} — {created} created, {approved} approved, {rejected} rejected, median {median}',
+
+  'export.usage':
+    'Format: /export [csv|xlsx] [DD.MM.YYYY-DD.MM.YYYY] [status=approved|rejected|pending|expired|cancelled] [author=<contact link>] [approver=<contact link>]',
+  'export.ready': {
+    one: 'The export is ready: {count} row.',
+    other: 'The export is ready: {count} rows.',
+  },
+  'export.empty': 'No tasks match these conditions, the file has headers only.',
+  'export.sheetName': 'Tasks',
+
+  'duration.none': '—',
+  'duration.days': '{days} d {hours} h',
+  'duration.hours': '{hours} h {minutes} min',
+  'duration.minutes': '{minutes} min',
+
+  'timeline.noAccess': 'You do not have access to the history of this task.',
+  'timeline.title': '🕓 *Task history:* {text}',
+  'timeline.approved': ': approved',
+  'timeline.rejected': ': rejected',
+  'timeline.outOfOffice': ' (out of office)',
+
+  'taskList.groupRule': 'group, quorum {quorum}',
+  'taskList.ruleAny': 'any',
+  'taskList.ruleAll': 'all',
+  'taskList.title': '*Task* `{id}`',
+  'taskList.description': '*Description:* {text}',
+  'taskList.route': '*Route:*',
+  'taskList.status': '*Status:* {status}',
+  'taskList.deadline': '*Deadline:* {date}',
+  'taskList.rejectReason': '*Rejection reason:* {reason}',
+  'taskList.createdAt': '*Created:* {date}',
+  'taskList.author': '*Author:* {name}',
+
+  'taskStatus.approved': 'Approved',
+  'taskStatus.rejected': 'Rejected',
+  'taskStatus.expired': 'Expired',
+  'taskStatus.cancelled': 'Cancelled',
+  'taskStatus.pending': 'Pending (step {step} of {total})',
+
+  'notification.taskApproved': '✅ *Your task is approved*',
+  'notification.taskRejected': '❌ *Your task is rejected*',
+  'notification.stepApproved':
+    '➡️ *Step {step} is approved, the task moved to step {nextStep}*',
+  'notification.decisionRecorded': '📝 *{name} decided on step {step}*',
+  'notification.task': '*Task:* {text}',
+  'notification.decidedBy': '*Decided by:* {name}',
+  'notification.decidedAt': '*When:* {date}',
+  'notification.rejectReason': '*Rejection reason:* {reason}',
+  'notification.comment': '*Comment:* {comment}',
+  'notification.groupApproved': '✅ *{name} approved the task*',
+  'notification.groupRejected': '❌ *{name} rejected the task*',
+  'notification.groupReason': '*Reason:* {reason}',
+  'notification.quorumProgress': 'Approvals: {approved} of {quorum}.',
+  'notification.quorumReached': 'The quorum is reached, the group has decided.',
+  'notification.groupTaskRejected': 'The task is rejected.',
+  'notification.expired':
+    '⌛ *The approval deadline has passed, the task is closed*',
+  'notification.escalated': '⏰ *The approval deadline has passed*',
+  'notification.deadline': '*Deadline:* {date}',
+  'notification.reassignedTo': '*Task passed to:* {names}',
+  'notification.noDecisionYet': 'The approvers have not decided yet.',
+  'notification.editedText': '*Description:* {from} → {to}',
+  'notification.editedFile': '*Attachment:* replaced',
+  'notification.editedFileCaption': '*File description:* {from} → {to}',
+  'notification.editedInterval': '*Reminder interval:* {from} → {to} min',
+  'notification.editedApprover': '*Approver:* {from} → {to}',
+  'notification.edited': '✏️ *{name} edited the task*',
+  'notification.cancelled': '🚫 *{name} withdrew the task*',
+  'notification.noLongerNeeded': 'A decision is no longer needed.',
+  'notification.delegated': '↪️ *The task is forwarded*',
+  'notification.delegatedApprover': '*Approver:* {from} → {to}',
+  'notification.delegatedOutOfOffice':
+    '{name} is out of office, the task went to their deputy.',
+  'notification.delegatedByApprover': '{name} forwarded the task.',
+
+  'exportColumn.taskId': 'Task ID',
+  'exportColumn.createdAt': 'Created',
+  'exportColumn.author': 'Author',
+  'exportColumn.text': 'Description',
+  'exportColumn.status': 'Status',
+  'exportColumn.deadline': 'Deadline',
+  'exportColumn.step': 'Step',
+  'exportColumn.approver': 'Approver',
+  'exportColumn.approverVkId': 'Approver ID',
+  'exportColumn.decision': 'Decision',
+  'exportColumn.decidedAt': 'Decided at',
+  'exportColumn.comment': 'Comment',
+  'exportColumn.rejectReason': 'Rejection reason',
+
+  'taskFilter.all': 'All',
+  'taskFilter.created': 'Created',
+  'taskFilter.awaiting': 'Awaiting decision',
+  'taskFilter.anyStatus': 'Any status',
+  'taskFilter.pending': 'Pending',
+  'taskFilter.approved': 'Approved',
+  'taskFilter.rejected': 'Rejected',
+  'taskFilter.expired': 'Expired',
+  'taskFilter.cancelled': 'Cancelled',
+};
@@ -0,0 +1,538 @@
+import { Message } from '../i18n.types';
+
+export const ru = {
+  'card.title': '📨 *Новая задача на утверждение*',
+  'card.from': '*От:* {name}',
+  'card.step': '*Шаг согласования:* {step} из {total}',
+  'card.quorum': '*Нужно подтверждений участников:* {quorum}',
+  'card.deadline': '*Срок:* {date}',
+  'card.description': '*Описание задачи:* {text}',
+  'card.fileCaption': '*Описание файла:* {text}',
+  'card.forwarded': '*Переадресовано:* {chain}',
+  'card.forwardedToYou': 'вам',
+
+  'button.approve': 'Подтвердить',
+  'button.reject': 'Отклонить',
+  'button.forward': 'Переадресовать…',
+  'button.history': 'История задачи',
+  'button.noDeadline': 'Без срока',
+  'button.addComment': 'Добавить комментарий',
+  'button.language': 'Язык / Language',
+  'button.createTask': 'Создать задачу',
+  'button.createFromTemplate': 'Создать по шаблону',
+  'button.userTasks': 'Посмотреть задачи пользователя',
+  'button.recentTasks': 'Мои задачи',
+  'button.statistics': 'Просмотреть статистику',
+  'button.notificationSettings': 'Настройки уведомлений',
+  'button.resume': '{index}. Возобновить',
+  'button.pause': '{index}. Приостановить',
+  'button.delete': '{index}. Удалить',
+  'button.notifyAuthor': 'Только уведомить меня',
+  'button.backupApprover': 'Передать резервному согласующему',
+  'button.approverManager': 'Передать руководителю согласующего',
+  'button.expire': 'Закрыть задачу как просроченную',
+  'button.ruleAll': 'Нужно согласие всех',
+  'button.ruleAny': 'Достаточно одного',
+  'button.nextStep': 'Добавить шаг',
+  'button.routeDone': 'Завершить маршрут',
+  'button.editText': 'Описание',
+  'button.editFile': 'Файл',
+  'button.editInterval': 'Интервал',
+  'button.editApprover': 'Согласующий',
+  'button.cancelTask': 'Отозвать задачу',
+  'button.prevPage': '◀️ Назад',
+  'button.nextPage': 'Вперёд ▶️',
+  'button.editTask': 'Изменить задачу',
+
+  'common.noDescription': 'Описание отсутствует',
+  'common.usersNotFound': 'Пользователи не найдены: {ids}',
+  'common.userNotFound': 'Пользователь с таким userId не найден.',
+  'common.unknownCommand':
+    'Неизвестная команда. Используйте /help для списка команд.',
+  'common.commandHandled': 'Команда обработана',
+  'common.startFirst': 'Сначала выполните /start.',
+  'common.unknownUser': 'Неизвестный пользователь',
+
+  'route.invalidContact':
+    'Некорректная ссылка. Отправьте контакт из ваших контактов.',
+  'route.groupStepAlone':
+    'Групповой чат задаётся отдельным шагом без других согласующих.',
+  'route.stepApprovers': {
+    one: 'Шаг {step}: {count} согласующий. Можно отправить ещё контакты для этого шага.',
+    few: 'Шаг {step}: {count} согласующих. Можно отправить ещё контакты для этого шага.',
+    many: 'Шаг {step}: {count} согласующих. Можно отправить ещё контакты для этого шага.',
+    other:
+      'Шаг {step}: {count} согласующего. Можно отправить ещё контакты для этого шага.',
+  },
+  'route.quorumRange': 'Введите число от 1 до {max}:',
+  'route.quorumSaved': 'Кворум шага сохранён: {quorum}. Что дальше?',
+  'route.invalidInterval':
+    'Неверный формат интервала. Введите положительное число.',
+  'route.askRecurringDeadline':
+    'Через сколько часов после создания каждой задачи наступает срок согласования? Если срок не нужен, нажмите «Без срока».',
+  'route.askDeadline':
+    'Введите срок согласования: дату (ДД.ММ.ГГГГ ЧЧ:ММ) или «через N ч». Если срок не нужен, нажмите «Без срока».',
+  'route.invalidDeadline':
+    'Неверный формат срока. Введите дату в будущем (ДД.ММ.ГГГГ ЧЧ:ММ) или «через N ч».',
+  'route.askEscalation': 'Что сделать, если до срока решение не будет принято?',
+  'route.invalidDeadlineHours':
+    'Неверный формат срока. Введите положительное число часов.',
+  'route.invalidSingleContact':
+    'Некорректная ссылка. Отправьте один контакт из ваших контактов.',
+  'route.escalationUnavailable':
+    'Сейчас нельзя выбрать действие при просрочке.',
+  'route.askBackupApprover': 'Отправьте контакт резервного согласующего:',
+  'route.askDescription': 'Введите описание задачи:',
+  'route.ruleUnavailable': 'Сейчас нельзя выбрать правило согласования.',
+  'route.ruleSaved': 'Правило шага сохранено. Что дальше?',
+  'route.nextStepUnavailable': 'Сейчас нельзя добавить шаг согласования.',
+  'route.askStepApprovers':
+    'Отправьте контакты согласующих шага {step} или ссылку на групповой чат:',
+  'route.deadlineSkipUnavailable':
+    'Сейчас нельзя пропустить срок согласования.',
+  'route.doneUnavailable': 'Сейчас нельзя завершить маршрут согласования.',
+  'route.askInterval': 'Введите интервал напоминания в минутах:',
+  'route.botNotInGroup':
+    'Бот не состоит в этом чате. Добавьте бота в группу и отправьте ссылку снова.',
+  'route.askQuorum': {
+    one: 'Шаг {step} будет согласован в групповом чате ({count} участник). Сколько участников должны подтвердить задачу? Введите число:',
+    few: 'Шаг {step} будет согласован в групповом чате ({count} участника). Сколько участников должны подтвердить задачу? Введите число:',
+    many: 'Шаг {step} будет согласован в групповом чате ({count} участников). Сколько участников должны подтвердить задачу? Введите число:',
+    other:
+      'Шаг {step} будет согласован в групповом чате ({count} участника). Сколько участников должны подтвердить задачу? Введите число:',
+  },
+  'route.assignmentForbidden':
+    'Вы не можете назначать задачи пользователям: {names}',
+  'route.taskCreated': 'Задача успешно создана!',
+  'route.askFirstStepApprovers':
+    'Отправьте контакты согласующих первого шага (можно несколько в одном сообщении) или ссылку на групповой чат:',
+
+  'error.checkAccount':
+    'Произошла ошибка при проверке вашего аккаунта. Попробуйте снова.',
+  'error.processTask':
+    'Произошла ошибка при обработке задачи. Попробуйте снова.',
+  'error.saveComment':
+    'Произошла ошибка при сохранении комментария. Попробуйте снова.',
+  'error.editTask': 'Произошла ошибка при изменении задачи. Попробуйте снова.',
+  'error.forwardTask':
+    'Произошла ошибка при переадресации задачи. Попробуйте снова.',
+  'error.checkUser':
+    'Произошла ошибка при проверке пользователя. Попробуйте снова.',
+  'error.changeSettings':
+    'Произошла ошибка при изменении настроек. Попробуйте снова.',
+  'error.taskHistory':
+    'Произошла ошибка при получении истории задачи. Попробуйте снова.',
+  'error.cancelTask': 'Произошла ошибка при отмене задачи. Попробуйте снова.',
+  'error.createTask': 'Произошла ошибка при создании задачи. Попробуйте снова.',
+  'error.createRecurringTask':
+    'Произошла ошибка при создании повторяющейся задачи. Попробуйте снова.',
+  'error.findTask': 'Произошла ошибка при поиске задачи. Попробуйте снова.',
+  'error.saveManager':
+    'Произошла ошибка при сохранении руководителя. Попробуйте снова.',
+  'error.saveSettings':
+    'Произошла ошибка при сохранении настроек. Попробуйте снова.',
+  'error.holidays':
+    'Произошла ошибка при получении праздников. Попробуйте снова.',
+  'error.apiKeys':
+    'Произошла ошибка при работе с API-ключами. Попробуйте снова.',
+  'error.users':
+    'Произошла ошибка при получении пользователей. Попробуйте снова.',
+  'error.saveRole': 'Произошла ошибка при сохранении роли. Попробуйте снова.',
+  'error.saveDepartment':
+    'Произошла ошибка при сохранении отдела. Попробуйте снова.',
+  'error.createTemplate':
+    'Произошла ошибка при создании шаблона. Попробуйте снова.',
+  'error.deleteTemplate':
+    'Произошла ошибка при удалении шаблона. Попробуйте снова.',
+  'error.recurringTasks':
+    'Произошла ошибка при получении повторяющихся задач. Попробуйте снова.',
+  'error.changeRecurringTask':
+    'Произошла ошибка при изменении повторяющейся задачи. Попробуйте снова.',
+  'error.loadTemplate':
+    'Произошла ошибка при загрузке шаблона. Попробуйте снова.',
+  'error.templates':
+    'Произошла ошибка при получении шаблонов. Попробуйте снова.',
+  'error.tasks': 'Произошла ошибка при получении задач. Попробуйте снова.',
+  'error.loadSettings':
+    'Произошла ошибка при получении настроек. Попробуйте снова.',
+  'error.statistics':
+    'Произошла ошибка при получении статистики. Попробуйте снова.',
+  'error.export': 'Произошла ошибка при выгрузке задач. Попробуйте снова.',
+
+  'decision.reasonRequired':
+    'Причина отклонения обязательна. Введите причину текстом:',
+  'decision.commentEmpty': 'Комментарий не может быть пустым. Введите текст:',
+  'decision.commentSaved': 'Комментарий сохранён.',
+  'decision.decisionNotFound': 'Ваше решение по задаче не найдено.',
+  'decision.askRejectReason': 'Укажите причину отклонения задачи:',
+  'decision.askComment': 'Введите комментарий к вашему решению:',
+  'decision.taskNotFound': 'Задача не найдена.',
+  'decision.alreadyApproved': 'Задача уже подтверждена.',
+  'decision.alreadyRejected': 'Задача уже отклонена.',
+  'decision.expired': 'Срок согласования задачи истёк.',
+  'decision.cancelled': 'Задача отменена автором.',
+  'decision.unknownStatus': 'Неизвестный статус задачи.',
+  'decision.notApprover': 'Задача сейчас ожидает решения других согласующих.',
+  'decision.notGroupMember': 'Решение могут принять только участники группы.',
+  'decision.alreadyDecided': 'Вы уже приняли решение по этой задаче.',
+  'decision.recorded':
+    'Ваше решение учтено. Ожидаем решения остальных согласующих шага.',
+  'decision.stepApproved':
+    'Шаг {step} согласован, задача передана на шаг {nextStep}.',
+  'decision.approved': 'Задача успешно подтверждена!',
+  'decision.rejected': 'Задача отклонена.',
+
+  'template.valueEmpty': 'Значение не может быть пустым. Введите его снова:',
+  'template.createUsage':
+    'Формат: /template-create <название> | <интервал, мин> | <срок, ч или -> | <описание с полями {{поле}}> | [контакты согласующих]',
+  'template.invalidContact': 'Некорректная ссылка на контакт согласующего.',
+  'template.exists': 'Шаблон «{name}» уже существует.',
+  'template.created': 'Шаблон «{name}» создан. Поля: {fields}.',
+  'template.noFields': 'нет',
+  'template.notFound': 'Шаблон не найден.',
+  'template.deleted': 'Шаблон «{name}» удалён.',
+  'template.askField': 'Заполните поле «{field}»:',
+  'template.askRoute':
+    'В шаблоне нет согласующих. Отправьте контакты согласующих первого шага (можно несколько в одном сообщении) или ссылку на групповой чат:',
+  'template.none': 'Шаблонов пока нет.',
+  'template.title': '📋 *Шаблоны:*',
+  'template.fields': 'Поля: {fields}',
+  'template.steps': 'Шагов согласования: {steps}',
+  'template.stepsOnCreate': 'задаются при создании',
+  'template.schedule': 'Напоминание: каждые {interval} мин, срок: {deadline}',
+  'template.deadlineHours': '{hours} ч',
+  'template.noDeadline': 'без срока',
+  'template.choose': 'Выберите шаблон:',
+
+  'forward.askContact':
+    'Отправьте контакт пользователя, которому нужно переадресовать задачу:',
+  'forward.oneContact': 'Отправьте один контакт из ваших контактов.',
+  'forward.userNotFound':
+    'Пользователь с таким userId не найден. Отправьте другой контакт:',
+  'forward.sendAnother': '{error}. Отправьте другой контакт:',
+  'forward.sameUser':
+    'Нельзя переадресовать задачу самому себе. Отправьте другой контакт:',
+  'forward.alreadyApprover':
+    'Этот пользователь уже согласует текущий шаг задачи. Отправьте другой контакт:',
+  'forward.done': 'Задача переадресована: {chain}',
+
+  'notificationType.taskApproved': 'Задача согласована',
+  'notificationType.taskRejected': 'Задача отклонена',
+  'notificationType.stepCompleted': 'Шаг маршрута пройден',
+  'notificationType.decisionRecorded': 'Решение одного из согласующих',
+  'notificationType.taskEscalated': 'Срок истёк, задача эскалирована',
+  'notificationType.taskExpired': 'Срок истёк, задача закрыта',
+  'notificationType.taskEdited': 'Автор изменил задачу',
+  'notificationType.taskCancelled': 'Автор отозвал задачу',
+  'notificationType.taskDelegated': 'Задача переадресована',
+
+  'taskEvent.created': 'Задача создана',
+  'taskEvent.reminderSent': 'Отправлено напоминание',
+  'taskEvent.buttonPressed': 'Нажата кнопка',
+  'taskEvent.decision': 'Принято решение',
+  'taskEvent.commentAdded': 'Добавлен комментарий',
+  'taskEvent.stepAdvanced': 'Задача передана на следующий шаг',
+  'taskEvent.statusChanged': 'Изменён статус',
+  'taskEvent.deliveryFailed': 'Ошибка доставки сообщения',
+  'taskEvent.escalated': 'Истёк срок, задача эскалирована',
+  'taskEvent.edited': 'Задача изменена автором',
+  'taskEvent.delegated': 'Задача переадресована',
+
+  'role.admin': 'Администратор',
+  'role.manager': 'Руководитель',
+  'role.member': 'Сотрудник',
+
+  'notifications.unknownType': 'Неизвестный тип уведомлений.',
+  'notifications.muted': 'Уведомления «{type}» отключены.',
+  'notifications.unmuted': 'Уведомления «{type}» включены.',
+  'notifications.title': '🔔 *Настройки уведомлений*',
+  'notifications.hint':
+    'Нажмите на тип уведомлений, чтобы включить или отключить его:',
+
+  'edit.askText': 'Введите новое описание задачи:',
+  'edit.askFile': 'Отправьте новый файл:',
+  'edit.askInterval': 'Введите новый интервал напоминания в минутах:',
+  'edit.askApprover':
+    'Отправьте два контакта: текущего согласующего и того, кто его заменит.',
+  'edit.askField': 'Что изменить в задаче?',
+  'edit.textEmpty': 'Описание не может быть пустым. Введите новое описание:',
+  'edit.fileMissing': 'Прикрепите новый файл к сообщению:',
+  'edit.unavailable': 'Сейчас нельзя изменить задачу.',
+  'edit.notInRoute':
+    'Первый контакт не является согласующим задачи. Попробуйте снова:',
+  'edit.edited': 'Задача изменена, согласующие получили уведомление.',
+  'edit.noChanges': 'Новое значение совпадает с текущим, задача не изменена.',
+  'edit.hasDecisions': 'По задаче уже принято решение, изменить её нельзя.',
+
+  'tasks.askUserContact': 'Отправьте контакт пользователя:',
+  'tasks.noAccess': 'У вас нет прав на просмотр задач этого пользователя.',
+  'tasks.userTitle': '📝 *Задачи пользователя {name}*',
+  'tasks.title': '📝 *Мои задачи*',
+  'tasks.filters': '{role} · {status} · страница {page}',
+  'tasks.item': '*{index}.* {text}\n{status} · {author} · {date}',
+  'tasks.none': 'Задач с такими фильтрами нет.',
+  'tasks.choose': 'Нажмите на номер задачи, чтобы открыть её.',
+  'tasks.noTaskAccess': 'У вас нет доступа к этой задаче.',
+
+  'language.name': 'Русский',
+  'language.saved': 'Язык интерфейса: {language}.',
+  'language.unknown': 'Неизвестный язык. Доступны: {languages}.',
+  'language.choose': 'Текущий язык: {language}. Выберите язык интерфейса:',
+
+  'group.buttonUnavailable': 'Эта кнопка недоступна в групповом чате.',
+  'group.askRejectReason':
+    '{name}, укажите причину отклонения следующим сообщением в этом чате.',
+  'group.rejectReasonInChat': 'Укажите причину отклонения в чате.',
+
+  'recurring.created':
+    'Повторяющаяся задача создана. Первая задача будет создана {date}.',
+  'recurring.invalidSchedule':
+    'Некорректное расписание. Укажите пять полей cron: минуты, часы, день месяца, месяц и день недели, например `0 10 * * 1`.',
+  'recurring.askDescription':
+    'Ближайший запуск: {date}. Введите описание задачи:',
+  'recurring.none':
+    'У вас нет повторяющихся задач. Создайте её командой /recurring-create.',
+  'recurring.title': '🔁 *Повторяющиеся задачи:*',
+  'recurring.schedule': 'Расписание: {schedule}',
+  'recurring.paused': 'Приостановлена',
+  'recurring.nextRun': 'Следующий запуск: {date}',
+  'recurring.notFound': 'Повторяющаяся задача не найдена.',
+
+  'command.start': 'Начать работу с ботом',
+  'command.createTask': 'Создать новую задачу',
+  'command.templates': 'Создать задачу по шаблону',
+  'command.templateCreate':
+    'Создать шаблон; поля описания задаются как {{поле}}, контакты необязательны',
+  'command.templateDelete': 'Удалить шаблон',
+  'command.recurring': 'Ваши повторяющиеся задачи',
+  'command.recurringCreate':
+    'Создать повторяющуюся задачу; расписание в формате cron, например `0 10 * * 1` — по понедельникам в 10:00',
+  'command.deleteTask': 'Отменить свою задачу, ожидающую решения',
+  'command.editTask': 'Изменить свою задачу до первого решения',
+  'command.watchLastTasks': 'Просмотреть свои задачи',
+  'command.userTasks': 'Просмотреть задачи пользователя',
+  'command.stats': 'Аналитика согласований за период (по умолчанию — 30 дней)',
+  'command.export':
+    'Выгрузить задачи в CSV или XLSX; фильтры: период, status=, author=, approver=',
+  'command.notifications': 'Настройки уведомлений',
+  'command.timezone': 'Указать свой часовой пояс',
+  'command.workHours': 'Указать рабочее время для напоминаний',
+  'command.outOfOffice':
+    'Отсутствие: на этот период задачи передаются заместителю (off — отменить)',
+  'command.holidays': 'Праздничные дни',
+  'command.apiKeys': 'Список API-ключей',
+  'command.apiKeyCreate': 'Выпустить API-ключ',
+  'command.apiKeyRevoke': 'Отозвать API-ключ',
+  'command.users': 'Пользователи, их роли и отделы',
+  'command.userRole': 'Назначить роль: admin, manager или member',
+  'command.userDepartment':
+    'Указать отдел пользователя (без названия — убрать)',
+  'command.setManager':
+    'Указать руководителя пользователя (без руководителя — убрать)',
+  'command.cancel': 'Отменить текущее действие',
+  'command.help': 'Получить список команд',
+  'command.language': 'Выбрать язык интерфейса',
+  'command.adminOnly': 'Команда доступна только администраторам.',
+  'command.usage': 'Использование: {usage}\n{description}',
+  'command.helpTitle': 'Доступные команды:',
+  'command.aliases': ' (также {aliases})',
+
+  'arg.description': 'описание',
+  'arg.template':
+    'название | интервал, мин | срок, ч или - | описание | контакты',
+  'arg.templateName': 'название',
+  'arg.cron': 'минуты часы день месяц день_недели',
+  'arg.taskId': 'ID задачи',
+  'arg.contact': 'контакт',
+  'arg.period': 'ДД.ММ.ГГГГ-ДД.ММ.ГГГГ',
+  'arg.exportOptions':
+    'csv|xlsx ДД.ММ.ГГГГ-ДД.ММ.ГГГГ status=… author=<контакт> approver=<контакт>',
+  'arg.timeZone': 'часовой пояс',
+  'arg.workHours': 'ЧЧ:ММ-ЧЧ:ММ дни',
+  'arg.deputyContact': 'контакт заместителя',
+  'arg.apiKeyName': 'имя',
+  'arg.prefix': 'префикс',
+  'arg.role': 'роль',
+  'arg.department': 'отдел',
+  'arg.managerContact': 'контакт руководителя',
+  'arg.scopes': '{scopes}',
+  'arg.language': 'ru|en',
+
+  'start.welcome': 'Добро пожаловать! Выберите команду:',
+
+  'ownTask.notFound': 'Задача, ожидающая решения, с таким ID не найдена.',
+  'ownTask.ambiguousId':
+    'Под этот ID подходит несколько задач, укажите его полностью.',
+  'ownTask.cancelled': 'Задача отозвана, согласующие получили уведомление.',
+  'ownTask.notPending': 'Задача уже не ожидает решения.',
+
+  'settings.timeZoneUsage':
+    'Укажите часовой пояс в формате IANA, например: /timezone Europe/Moscow',
+  'settings.timeZoneSaved': 'Часовой пояс сохранён: {timeZone}',
+  'settings.workHoursUsage':
+    'Укажите рабочее время и, при желании, рабочие дни (1 — пн, 7 — вс), например: /work-hours 09:00-18:00 1-5',
+  'settings.workHoursSaved':
+    'Рабочее время сохранено: {start}–{end}, дни: {days}',
+
+  'outOfOffice.usage':
+    'Укажите период и заместителя, например: /out-of-office 01.08.2025-14.08.2025 <ссылка на контакт>',
+  'outOfOffice.notSet': 'Отсутствие не задано.\n{usage}',
+  'outOfOffice.current':
+    'Отсутствие: {from} – {until}\nЗаместитель: {name}\nОтменить: /out-of-office off',
+  'outOfOffice.cancelled': 'Отсутствие отменено.',
+  'outOfOffice.selfSubstitute': 'Нельзя назначить заместителем самого себя.',
+  'outOfOffice.saved':
+    'Отсутствие сохранено: {from} – {until}\nЗаместитель: {name}\nВ этот период новые и ожидающие вашего решения задачи будут переданы заместителю.',
+
+  'holidays.none': 'Праздничные дни не заданы.',
+  'holidays.title': '📅 *Праздничные дни:*',
+
+  'apiKeys.none': 'API-ключи ещё не выпущены.',
+  'apiKeys.title': '🔑 *API-ключи:*',
+  'apiKeys.revokedMark': ' — отозван',
+  'apiKeys.createUsage':
+    'Укажите имя ключа и права через запятую: /api-key-create <имя> <{scopes}>',
+  'apiKeys.issued':
+    'Ключ «{name}» выпущен. Сохраните его, повторно он показан не будет:\n\n`{key}`',
+  'apiKeys.revoked': 'Ключ {prefix} отозван.',
+  'apiKeys.notFound': 'Активный ключ с таким префиксом не найден.',
+
+  'users.none': 'Пользователей пока нет.',
+  'users.title': '👥 *Пользователи:*',
+  'users.noDepartment': 'без отдела',
+  'users.roleUsage':
+    'Укажите контакт и роль: /user-role <ссылка на контакт> admin|manager|member',
+  'users.ownRole': 'Нельзя изменить собственную роль.',
+  'users.roleSaved': '{name}: роль «{role}»',
+  'users.departmentUsage':
+    'Укажите контакт и отдел: /user-department <ссылка на контакт> <отдел>',
+  'users.departmentSaved': '{name}: отдел «{department}»',
+  'users.departmentRemoved': '{name} больше не состоит в отделе.',
+  'users.managerUsage':
+    'Укажите контакты пользователя и его руководителя: /set-manager <ссылка на контакт> <ссылка на контакт руководителя>',
+  'users.ownManager': 'Пользователь не может быть своим руководителем.',
+  'users.managerSaved': '{name}: руководитель {manager}',
+  'users.managerRemoved': 'У пользователя {name} больше нет руководителя.',
+
+  'cancel.done': 'Текущее действие отменено.',
+  'cancel.nothing': 'Нет активного действия для отмены.',
+
+  'stats.periodUsage':
+    'Укажите период в формате ДД.ММ.ГГГГ-ДД.ММ.ГГГГ, например: /stats 01.09.2025-30.09.2025',
+  'stats.title': '📊 *Аналитика согласований* {from} – {to}',
+  'stats.totals':
+    '• Всего задач: {total}\n• Одобрено: {approved}\n• Отклонено: {rejected}\n• В ожидании: {pending}\n• Просрочено: {expired}\n• Отменено: {cancelled}',
+  'stats.decisionTime': '• Время до решения: медиана {median}, p90 {p90}',
+  'stats.reminders':
+    '• Напоминаний: {total}, в среднем {perTask} на задачу, максимум {max}',
+  'stats.approversTitle': '*Согласующие (время ответа):*',
+  'stats.approver':
+    '{name} — медиана {median}, p90 {p90}, решений {decisions}, ожидают {pending}',
+  'stats.slowestTitle': '*Дольше всего ждут решения:*',
+  'stats.slowTask': '{index}. `{id}` {text} — {age}, напоминаний {reminders}',
+  'stats.waitingFor': ', ждёт: {names}',
+  'stats.trendByDay': '*Динамика по дням:*',
+  'stats.trendByWeek': '*Динамика по неделям:*',
+  'stats.trendBucket':
+    '{date} — создано {created}, одобрено {approved}, отклонено {rejected}, медиана {median}',
+
+  'export.usage':
+    'Формат: /export [csv|xlsx] [ДД.ММ.ГГГГ-ДД.ММ.ГГГГ] [status=approved|rejected|pending|expired|cancelled] [author=<ссылка на контакт>] [approver=<ссылка на контакт>]',
+  'export.ready': {
+    one: 'Выгрузка готова: {count} строка.',
+    few: 'Выгрузка готова: {count} строки.',
+    many: 'Выгрузка готова: {count} строк.',
+    other: 'Выгрузка готова: {count} строки.',
+  },
+  'export.empty': 'Задач по этим условиям нет, файл содержит только заголовки.',
+  'export.sheetName': 'Задачи',
+
+  'duration.none': '—',
+  'duration.days': '{days} д {hours} ч',
+  'duration.hours': '{hours} ч {minutes} мин',
+  'duration.minutes': '{minutes} мин',
+
+  'timeline.noAccess': 'У вас нет доступа к истории этой задачи.',
+  'timeline.title': '🕓 *История задачи:* {text}',
+  'timeline.approved': ': подтверждено',
+  'timeline.rejected': ': отклонено',
+  'timeline.outOfOffice': ' (отсутствие)',
+
+  'taskList.groupRule': 'группа, кворум {quorum}',
+  'taskList.ruleAny': 'любой',
+  'taskList.ruleAll': 'все',
+  'taskList.title': '*Задача* `{id}`',
+  'taskList.description': '*Описание:* {text}',
+  'taskList.route': '*Маршрут:*',
+  'taskList.status': '*Статус:* {status}',
+  'taskList.deadline': '*Срок:* {date}',
+  'taskList.rejectReason': '*Причина отклонения:* {reason}',
+  'taskList.createdAt': '*Создано:* {date}',
+  'taskList.author': '*Автор:* {name}',
+
+  'taskStatus.approved': 'Подтверждена',
+  'taskStatus.rejected': 'Отклонена',
+  'taskStatus.expired': 'Просрочена',
+  'taskStatus.cancelled': 'Отменена',
+  'taskStatus.pending': 'В ожидании (шаг {step} из {total})',
+
+  'notification.taskApproved': '✅ *Ваша задача согласована*',
+  'notification.taskRejected': '❌ *Ваша задача отклонена*',
+  'notification.stepApproved':
+    '➡️ *Шаг {step} согласован, задача передана на шаг {nextStep}*',
+  'notification.decisionRecorded':
+    '📝 *{name} принял(а) решение по шагу {step}*',
+  'notification.task': '*Задача:* {text}',
+  'notification.decidedBy': '*Решение принял(а):* {name}',
+  'notification.decidedAt': '*Когда:* {date}',
+  'notification.rejectReason': '*Причина отклонения:* {reason}',
+  'notification.comment': '*Комментарий:* {comment}',
+  'notification.groupApproved': '✅ *{name} подтвердил(а) задачу*',
+  'notification.groupRejected': '❌ *{name} отклонил(а) задачу*',
+  'notification.groupReason': '*Причина:* {reason}',
+  'notification.quorumProgress': 'Подтверждений: {approved} из {quorum}.',
+  'notification.quorumReached': 'Кворум набран, решение группы принято.',
+  'notification.groupTaskRejected': 'Задача отклонена.',
+  'notification.expired': '⌛ *Срок согласования истёк, задача закрыта*',
+  'notification.escalated': '⏰ *Срок согласования истёк*',
+  'notification.deadline': '*Срок:* {date}',
+  'notification.reassignedTo': '*Задача передана:* {names}',
+  'notification.noDecisionYet': 'Согласующие пока не приняли решение.',
+  'notification.editedText': '*Описание:* {from} → {to}',
+  'notification.editedFile': '*Вложение:* заменено',
+  'notification.editedFileCaption': '*Описание файла:* {from} → {to}',
+  'notification.editedInterval': '*Интервал напоминаний:* {from} → {to} мин',
+  'notification.editedApprover': '*Согласующий:* {from} → {to}',
+  'notification.edited': '✏️ *{name} изменил(а) задачу*',
+  'notification.cancelled': '🚫 *{name} отозвал(а) задачу*',
+  'notification.noLongerNeeded': 'Решение по ней больше не требуется.',
+  'notification.delegated': '↪️ *Задача переадресована*',
+  'notification.delegatedApprover': '*Согласующий:* {from} → {to}',
+  'notification.delegatedOutOfOffice':
+    '{name} отсутствует, задача передана заместителю.',
+  'notification.delegatedByApprover': '{name} переадресовал(а) задачу.',
+
+  'exportColumn.taskId': 'ID задачи',
+  'exportColumn.createdAt': 'Создана',
+  'exportColumn.author': 'Автор',
+  'exportColumn.text': 'Описание',
+  'exportColumn.status': 'Статус',
+  'exportColumn.deadline': 'Срок',
+  'exportColumn.step': 'Шаг',
+  'exportColumn.approver': 'Согласующий',
+  'exportColumn.approverVkId': 'ID согласующего',
+  'exportColumn.decision': 'Решение',
+  'exportColumn.decidedAt': 'Время решения',
+  'exportColumn.comment': 'Комментарий',
+  'exportColumn.rejectReason': 'Причина отклонения',
+
+  'taskFilter.all': 'Все',
+  'taskFilter.created': 'Созданные',
+  'taskFilter.awaiting': 'Ждут решения',
+  'taskFilter.anyStatus': 'Любой статус',
+  'taskFilter.pending': 'В ожидании',
+  'taskFilter.approved': 'Подтверждённые',
+  'taskFilter.rejected': 'Отклонённые',
+  'taskFilter.expired': 'Просроченные',
+  'taskFilter.cancelled': 'Отменённые',
+} satisfies Record<string, Message>;
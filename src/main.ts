@@ -1,5 +1,6 @@
 import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
+import { ValidationPipe } from '@nestjs/common';
 import { AppConfig } from './app.config';
 import { AppModule } from './app.module';
 
@@ -11,6 +12,7 @@ async function bootstrap() {
   const port = configService.get<AppConfig['APP_PORT']>('APP_PORT');
 
   app.setGlobalPrefix('api');
+  app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
 
   const allowedHeaders = configService.get<AppConfig['CORS_ALLOWED_HEADERS']>(
     'CORS_ALLOWED_HEADERS',
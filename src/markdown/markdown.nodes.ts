@@ -0,0 +1,32 @@
+import { MarkdownElement, MarkdownNode } from './markdown.types';
+
+export function bold(...children: MarkdownNode[]): MarkdownElement {
+  return { type: 'bold', children };
+}
+
+export function italic(...children: MarkdownNode[]): MarkdownElement {
+  return { type: 'italic', children };
+}
+
+export function code(text: string): MarkdownElement {
+  return { type: 'code', text };
+}
+
+export function link(
+  url: string,
+  ...children: MarkdownNode[]
+): MarkdownElement {
+  return { type: 'link', url, children: children.length > 0 ? children : url };
+}
+
+/**
+ * Puts the separator between the nodes, like `Array.prototype.join`.
+ */
+export function join(
+  nodes: MarkdownNode[],
+  separator: MarkdownNode,
+): MarkdownNode[] {
+  return nodes.flatMap((node, index) =>
+    index > 0 ? [separator, node] : [node],
+  );
+}
@@ -0,0 +1,141 @@
+import { bold, code, italic, link } from './markdown.nodes';
+import { MarkdownService } from './markdown.service';
+import { MAX_MESSAGE_LENGTH } from './markdown.types';
+
+describe('MarkdownService', () => {
+  let service: MarkdownService;
+
+  beforeEach(() => {
+    service = new MarkdownService();
+  });
+
+  describe('escape', () => {
+    it('escapes every MarkdownV2 special character', () => {
+      expect(service.escape('_*[]()~`>#+-=|{}.!\\')).toBe(
+        '\\_\\*\\[\\]\\(\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!\\\\',
+      );
+    });
+
+    it('leaves other text alone', () => {
+      expect(service.escape('Привет, мир: 100% ok?')).toBe(
+        'Привет, мир: 100% ok?',
+      );
+    });
+  });
+
+  describe('render', () => {
+    it('escapes plain text and keeps the markup of elements', () => {
+      expect(
+        service.render([
+          bold('Task 1.2'),
+          ' by ',
+          italic('a_b'),
+          ': ',
+          code('x`y\\z'),
+          ' ',
+          link('https://example.com/a_(b)', 'link!'),
+        ]),
+      ).toEqual([
+        '*Task 1\\.2* by _a\\_b_: `x\\`y\\\\z` ' +
+          '[link\\!](https://example.com/a_(b\\))',
+      ]);
+    });
+
+    it('drops empty elements and empty messages', () => {
+      expect(service.render(['a', bold(''), code('')])).toEqual(['a']);
+      expect(service.render('\n\n')).toEqual([]);
+    });
+
+    it('keeps a message up to the limit in one text', () => {
+      const text = 'x'.repeat(MAX_MESSAGE_LENGTH);
+
+      expect(service.render(text)).toEqual([text]);
+    });
+
+    it('splits a long message into texts of at most 4096 characters', () => {
+      const lines = Array.from({ length: 100 }, (_, index) =>
+        String(index).padEnd(99, 'x'),
+      );
+
+      const chunks = service.render(lines.join('\n'));
+
+      expect(chunks).toHaveLength(3);
+      chunks.forEach((chunk) =>
+        expect(chunk.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH),
+      );
+      expect(chunks.join('\n')).toBe(lines.join('\n'));
+    });
+
+    it('splits between paragraphs where possible', () => {
+      expect(service.render('aaaa\nbbbb\n\ncccc\ndddd', 18)).toEqual([
+        'aaaa\nbbbb',
+        'cccc\ndddd',
+      ]);
+    });
+
+    it('splits between lines when a paragraph does not fit', () => {
+      expect(service.render('aaaa\nbbbb\ncccc', 9)).toEqual([
+        'aaaa\nbbbb',
+        'cccc',
+      ]);
+    });
+
+    it('does not split a formatted node on its line breaks', () => {
+      expect(service.render(['aaaa\n', bold('b\nc')], 6)).toEqual([
+        'aaaa',
+        '*b\nc*',
+      ]);
+    });
+
+    it('cuts an overlong line as plain text', () => {
+      expect(service.render(bold('abcdefgh'), 4)).toEqual(['abcd', 'efgh']);
+    });
+
+    it('never cuts an escape sequence', () => {
+      expect(service.render('a.b.c.d', 4)).toEqual(['a\\.b', '\\.c', '\\.d']);
+    });
+
+    it('never cuts a surrogate pair', () => {
+      expect(service.render('a😀b', 2)).toEqual(['a', '😀', 'b']);
+    });
+  });
+
+  describe('toPlainText', () => {
+    it('drops the formatting', () => {
+      expect(
+        service.toPlainText([
+          bold('a', italic('b')),
+          code('c*'),
+          link('https://example.com'),
+        ]),
+      ).toBe('abc*https://example.com');
+    });
+  });
+
+  describe('parseTemplate', () => {
+    it('fills placeholders and keeps the formatting of the template', () => {
+      const nodes = service.parseTemplate(
+        'Hi, {name}! *{count} task(s)* in `{id}`, {missing}.',
+        { name: italic('Anna'), count: 3, id: 'a_b' },
+      );
+
+      expect(service.render(nodes)).toEqual([
+        'Hi, _Anna_\\! *3 task\\(s\\)* in `a_b`, \\{missing\\}\\.',
+      ]);
+    });
+
+    it('escapes parameters so user text is never markup', () => {
+      const nodes = service.parseTemplate('Task: {text}', {
+        text: '*not bold*',
+      });
+
+      expect(service.render(nodes)).toEqual(['Task: \\*not bold\\*']);
+    });
+
+    it('inserts parameters into code as plain text', () => {
+      expect(
+        service.parseTemplate('`/approve {id}`', { id: bold('42') }),
+      ).toEqual([code('/approve 42')]);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { bold, code } from './markdown.nodes';
+import {
+  MAX_MESSAGE_LENGTH,
+  MarkdownNode,
+  TemplateParams,
+} from './markdown.types';
+
+/**
+ * `code`, `*bold*` and `{placeholder}` in a template, in this order of
+ * precedence.
+ */
+const TEMPLATE_PATTERN = /`([^`]*)`|\*([^*]+)\*|\{(\w+)\}/g;
+
+/**
+ * Builds MarkdownV2 texts for the messenger. Only the element nodes produce
+ * markup; everything else is escaped.
+ */
+@Injectable()
+export class MarkdownService {
+  /**
+   * Renders the message, split into texts of at most `maxLength` characters.
+   * A message is split between paragraphs if possible and between lines
+   * otherwise; a single line that does not fit loses its formatting and is
+   * cut where needed.
+   */
+  render(node: MarkdownNode, maxLength = MAX_MESSAGE_LENGTH): string[] {
+    const chunks: string[] = [];
+    let lines: string[] = [];
+    const flush = () => {
+      const text = lines.join('\n').replace(/^\n+|\n+$/g, '');
+      if (text.trim()) {
+        chunks.push(text);
+      }
+      lines = [];
+    };
+    const fits = (line: string) =>
+      [...lines, line].join('\n').length <= maxLength;
+
+    for (const line of this.splitLines(node)) {
+      const rendered = this.renderNode(line);
+      if (fits(rendered)) {
+        lines.push(rendered);
+        continue;
+      }
+
+      // Move the last paragraph of the chunk over to the next one, so the
+      // line is not torn from the lines it belongs with.
+      const paragraphStart = lines.lastIndexOf('');
+      const carried = paragraphStart > 0 ? lines.splice(paragraphStart) : [];
+      flush();
+      lines = carried;
+      if (!fits(rendered)) {
+        flush();
+      }
+      if (rendered.length <= maxLength) {
+        lines.push(rendered);
+      } else {
+        chunks.push(...this.cut(this.toPlainText(line), maxLength));
+      }
+    }
+    flush();
+    return chunks;
+  }
+
+  escape(text: string): string {
+    return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+  }
+
+  toPlainText(node: MarkdownNode): string {
+    if (typeof node === 'string') {
+      return node;
+    }
+    if (Array.isArray(node)) {
+      return node.map((child) => this.toPlainText(child)).join('');
+    }
+    return node.type === 'code' ? node.text : this.toPlainText(node.children);
+  }
+
+  /**
+   * Fills a template with the parameters. Placeholders without a parameter
+   * are kept as they are; inside `code` the parameters are inserted as
+   * plain text.
+   */
+  parseTemplate(template: string, params: TemplateParams = {}): MarkdownNode[] {
+    const nodes: MarkdownNode[] = [];
+    let position = 0;
+    for (const match of template.matchAll(TEMPLATE_PATTERN)) {
+      const [source, codeText, boldText, name] = match;
+      nodes.push(template.slice(position, match.index));
+      if (codeText !== undefined) {
+        nodes.push(code(this.interpolate(codeText, params)));
+      } else if (boldText !== undefined) {
+        nodes.push(bold(this.parseTemplate(boldText, params)));
+      } else {
+        nodes.push(name in params ? this.toNode(params[name]) : source);
+      }
+      position = match.index + source.length;
+    }
+    nodes.push(template.slice(position));
+    return nodes.filter((node) => node !== '');
+  }
+
+  private interpolate(text: string, params: TemplateParams): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params
+        ? this.toPlainText(this.toNode(params[name]))
+        : placeholder,
+    );
+  }
+
+  private toNode(value: MarkdownNode | number): MarkdownNode {
+    return typeof value === 'number' ? String(value) : value;
+  }
+
+  private renderNode(node: MarkdownNode): string {
+    if (typeof node === 'string') {
+      return this.escape(node);
+    }
+    if (Array.isArray(node)) {
+      return node.map((child) => this.renderNode(child)).join('');
+    }
+    if (node.type === 'code') {
+      return node.text ? `\`${node.text.replace(/[`\\]/g, '\\$&')}\`` : '';
+    }
+
+    const content = this.renderNode(node.children);
+    if (!content) {
+      return '';
+    }
+    switch (node.type) {
+      case 'bold':
+        return `*${content}*`;
+      case 'italic':
+        return `_${content}_`;
+      case 'link':
+        return `[${content}](${node.url.replace(/[)\\]/g, '\\$&')})`;
+    }
+  }
+
+  /**
+   * Lines of the message. Line breaks inside formatted nodes do not split
+   * them, so no node is ever cut in two.
+   */
+  private splitLines(node: MarkdownNode): MarkdownNode[][] {
+    const lines: MarkdownNode[][] = [[]];
+    const visit = (child: MarkdownNode) => {
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+      } else if (typeof child === 'string') {
+        child.split('\n').forEach((part, index) => {
+          if (index > 0) {
+            lines.push([]);
+          }
+          lines[lines.length - 1].push(part);
+        });
+      } else {
+        lines[lines.length - 1].push(child);
+      }
+    };
+    visit(node);
+    return lines;
+  }
+
+  /**
+   * Escaped pieces of the text, never cutting an escape sequence or a
+   * surrogate pair.
+   */
+  private cut(text: string, maxLength: number): string[] {
+    const pieces: string[] = [];
+    let piece = '';
+    for (const char of text) {
+      const escaped = this.escape(char);
+      if (piece.length + escaped.length > maxLength) {
+        pieces.push(piece);
+        piece = '';
+      }
+      piece += escaped;
+    }
+    if (piece) {
+      pieces.push(piece);
+    }
+    return pieces;
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Longest text the messenger accepts in one message or file caption.
+ */
+export const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Text of a message. Strings are plain text and are escaped when the
+ * message is rendered, so user input never turns into formatting; arrays
+ * are concatenated.
+ */
+export type MarkdownNode = string | MarkdownElement | MarkdownNode[];
+
+export type MarkdownElement =
+  | { type: 'bold'; children: MarkdownNode }
+  | { type: 'italic'; children: MarkdownNode }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; children: MarkdownNode };
+
+/**
+ * Values of template placeholders. Nodes keep their formatting.
+ */
+export type TemplateParams = Record<string, MarkdownNode | number>;
@@ -0,0 +1,15 @@
+import { Controller, Get } from '@nestjs/common';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { MessageQueueService } from './message-queue.service';
+
+@Controller('message-queue')
+@RequireScopes(API_KEY_SCOPE.ADMIN)
+export class MessageQueueController {
+  constructor(private readonly messageQueueService: MessageQueueService) {}
+
+  @Get('metrics')
+  async getMetrics() {
+    return this.messageQueueService.getMetrics();
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MarkdownModule } from 'src/markdown/markdown.module';
+import { VkTeamsModule } from 'src/vk-teams/vk-teams.module';
+import { MessageQueueService } from './message-queue.service';
+import { MessageQueueController } from './message-queue.controller';
+
+@Module({
+  imports: [VkTeamsModule, MarkdownModule],
+  providers: [MessageQueueService],
+  controllers: [MessageQueueController],
+  exports: [MessageQueueService],
+})
+export class MessageQueueModule {}
@@ -0,0 +1,391 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { RedisService } from '@liaoliaots/nestjs-redis';
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { AppConfig } from 'src/app.config';
+import { MarkdownService } from 'src/markdown/markdown.service';
+import { MarkdownNode } from 'src/markdown/markdown.types';
+import { VkTeamsClient } from 'src/vk-teams/vk-teams.client';
+import {
+  DEFAULT_MESSENGER_RATE_LIMIT,
+  MarkdownMessageOptions,
+  MESSAGE_OUTCOME,
+  MessageOutcome,
+  MessageOutcomeHandler,
+  MessageQueueMetrics,
+  OutboundMessageInput,
+  QueuedMessage,
+} from './message-queue.types';
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY = 2 * 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const CHAT_LOCK_TTL = 60 * 1000;
+// Outlives any message in the queue, and frees the key of a message whose
+// body was lost.
+const DEDUPE_TTL = 60 * 60 * 1000;
+
+// Deletes the lock only if it is still held with the given token, so a
+// worker whose lock expired cannot release the lock of the next one.
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Outgoing bot messages go through Redis:
+ * - `chat:<chatId>` lists message ids of a chat in sending order; only the
+ *   head of the list is sent, so a retried message holds back the rest.
+ * - `chats` is a sorted set of chats with queued messages scored by the
+ *   time their head may be sent.
+ * - `rate:<second>` counts sends across all instances for the global limit.
+ */
+@Injectable()
+export class MessageQueueService {
+  static readonly KEY_PREFIX = 'approval-bot:outbox';
+  private readonly handlers = new Map<string, MessageOutcomeHandler>();
+  private readonly logger = new Logger(MessageQueueService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly redisService: RedisService,
+    private readonly vkTeamsClient: VkTeamsClient,
+    private readonly markdownService: MarkdownService,
+  ) {
+    this.startWorker();
+  }
+
+  /**
+   * Registers the handler that learns whether messages of the given context
+   * kind were delivered or dropped.
+   */
+  onOutcome(kind: string, handler: MessageOutcomeHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  /**
+   * Queues a message. Returns false if a message with the same dedupe key is
+   * still waiting to be sent.
+   */
+  async enqueue(input: OutboundMessageInput): Promise<boolean> {
+    const message = this.createMessage(input);
+    if (!(await this.reserveDedupeKey(message))) {
+      return false;
+    }
+    await this.push(message);
+    return true;
+  }
+
+  /**
+   * Queues a formatted message, split into several parts if it is too long
+   * for one. The keyboard, the context and the dedupe key go with the last
+   * part, so the outcome is reported and the key released once the whole
+   * message is delivered; the key is reserved before any part is queued.
+   */
+  async enqueueMarkdown(
+    chatId: string,
+    message: MarkdownNode,
+    options: MarkdownMessageOptions = {},
+  ): Promise<boolean> {
+    const texts = this.markdownService.render(message);
+    const parts = texts.length > 0 ? texts : [''];
+    const last = parts.length - 1;
+
+    const messages = parts.map((text, index) => {
+      const keyboard = index === last && {
+        inlineKeyboardMarkup: options.inlineKeyboardMarkup,
+      };
+      return this.createMessage({
+        ...(index === 0 && options.fileId
+          ? {
+              method: 'sendFile',
+              request: {
+                chatId,
+                fileId: options.fileId,
+                caption: text,
+                parseMode: 'MarkdownV2',
+                ...keyboard,
+              },
+            }
+          : {
+              method: 'sendText',
+              request: { chatId, text, parseMode: 'MarkdownV2', ...keyboard },
+            }),
+        ...(index === last && {
+          context: options.context,
+          dedupeKey: options.dedupeKey,
+        }),
+      });
+    });
+    if (!(await this.reserveDedupeKey(messages[last]))) {
+      return false;
+    }
+    for (const queued of messages) {
+      await this.push(queued);
+    }
+    return true;
+  }
+
+  async getMetrics(): Promise<MessageQueueMetrics> {
+    const redis = this.redisService.getOrThrow();
+    const [counters, queuedChats] = await Promise.all([
+      redis.hgetall(this.key('metrics')),
+      redis.zcard(this.key('chats')),
+    ]);
+
+    const droppedByReason: Record<string, number> = {};
+    for (const [field, value] of Object.entries(counters)) {
+      if (field.startsWith('dropped:')) {
+        droppedByReason[field.slice('dropped:'.length)] = Number(value);
+      }
+    }
+
+    return {
+      enqueued: Number(counters.enqueued || 0),
+      delivered: Number(counters.delivered || 0),
+      retried: Number(counters.retried || 0),
+      dropped: Number(counters.dropped || 0),
+      droppedByReason,
+      queuedChats,
+    };
+  }
+
+  /**
+   * Sends the head message of every chat that is due, as long as the global
+   * rate limit allows.
+   */
+  async processDueMessages(): Promise<void> {
+    const redis = this.redisService.getOrThrow();
+    const chatIds = await redis.zrangebyscore(
+      this.key('chats'),
+      '-inf',
+      Date.now(),
+      'LIMIT',
+      0,
+      this.getRateLimit(),
+    );
+
+    for (const chatId of chatIds) {
+      if (!(await this.acquireRateSlot())) {
+        this.logger.warn('Messenger rate limit reached, sending paused');
+        return;
+      }
+      await this.processChat(chatId);
+    }
+  }
+
+  private createMessage(input: OutboundMessageInput): QueuedMessage {
+    return {
+      ...input,
+      id: randomUUID(),
+      chatId: input.request.chatId,
+      attempts: 0,
+      enqueuedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Holds the dedupe key of the message until the message is finished.
+   * Returns false if another queued message holds it.
+   */
+  private async reserveDedupeKey(message: QueuedMessage): Promise<boolean> {
+    if (!message.dedupeKey) {
+      return true;
+    }
+    const redis = this.redisService.getOrThrow();
+    const reserved = await redis.set(
+      this.key('dedupe', message.dedupeKey),
+      message.id,
+      'PX',
+      DEDUPE_TTL,
+      'NX',
+    );
+    return reserved !== null;
+  }
+
+  private async push(message: QueuedMessage): Promise<void> {
+    const redis = this.redisService.getOrThrow();
+    await redis
+      .multi()
+      .set(this.key('message', message.id), JSON.stringify(message))
+      .rpush(this.key('chat', message.chatId), message.id)
+      .zadd(this.key('chats'), 'NX', Date.now(), message.chatId)
+      .hincrby(this.key('metrics'), 'enqueued', 1)
+      .exec();
+  }
+
+  private startWorker() {
+    const queueCheckInterval = 1000;
+    const interval = setInterval(async () => {
+      try {
+        await this.processDueMessages();
+      } catch (error) {
+        this.logger.error(`Error processing message queue: ${error.message}`);
+      }
+    }, queueCheckInterval);
+
+    this.schedulerRegistry.addInterval('outboundMessages', interval);
+  }
+
+  private async processChat(chatId: string): Promise<void> {
+    const redis = this.redisService.getOrThrow();
+    const lockKey = this.key('lock', chatId);
+    const lockToken = randomUUID();
+    const locked = await redis.set(
+      lockKey,
+      lockToken,
+      'PX',
+      CHAT_LOCK_TTL,
+      'NX',
+    );
+    if (!locked) {
+      return;
+    }
+
+    try {
+      const messageId = await redis.lindex(this.key('chat', chatId), 0);
+      const raw = messageId
+        ? await redis.get(this.key('message', messageId))
+        : null;
+      if (!raw) {
+        if (messageId) {
+          await redis.lpop(this.key('chat', chatId));
+        }
+        await this.scheduleChat(chatId, Date.now());
+        return;
+      }
+
+      await this.attemptDelivery(JSON.parse(raw));
+    } finally {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockToken);
+    }
+  }
+
+  private async attemptDelivery(message: QueuedMessage): Promise<void> {
+    const redis = this.redisService.getOrThrow();
+    message.attempts += 1;
+
+    try {
+      if (message.method === 'sendFile') {
+        await this.vkTeamsClient.sendFile(message.request);
+      } else {
+        await this.vkTeamsClient.sendText(message.request);
+      }
+    } catch (error) {
+      if (this.isRetryable(error) && message.attempts < MAX_ATTEMPTS) {
+        const delay = Math.min(
+          BASE_RETRY_DELAY * 2 ** (message.attempts - 1),
+          MAX_RETRY_DELAY,
+        );
+        await redis
+          .multi()
+          .set(this.key('message', message.id), JSON.stringify(message))
+          .zadd(this.key('chats'), Date.now() + delay, message.chatId)
+          .hincrby(this.key('metrics'), 'retried', 1)
+          .exec();
+        this.logger.warn(
+          `Message ${message.id} to ${message.chatId} failed (attempt ${message.attempts}), retrying in ${delay} ms: ${error.message}`,
+        );
+        return;
+      }
+
+      const reason = this.isRetryable(error) ? 'attempts' : 'rejected';
+      await this.finish(message, `dropped:${reason}`);
+      this.logger.error(
+        `Message ${message.id} to ${message.chatId} dropped after ${message.attempts} attempt(s): ${error.message}`,
+      );
+      await this.reportOutcome({
+        outcome: MESSAGE_OUTCOME.DROPPED,
+        message,
+        error: error.message,
+      });
+      return;
+    }
+
+    await this.finish(message, 'delivered');
+    await this.reportOutcome({ outcome: MESSAGE_OUTCOME.DELIVERED, message });
+  }
+
+  /**
+   * Removes the message from the head of its chat and lets the next one go.
+   */
+  private async finish(message: QueuedMessage, counter: string) {
+    const redis = this.redisService.getOrThrow();
+    const transaction = redis
+      .multi()
+      .lpop(this.key('chat', message.chatId))
+      .del(this.key('message', message.id))
+      .hincrby(this.key('metrics'), counter, 1);
+    if (counter.startsWith('dropped:')) {
+      transaction.hincrby(this.key('metrics'), 'dropped', 1);
+    }
+    if (message.dedupeKey) {
+      transaction.del(this.key('dedupe', message.dedupeKey));
+    }
+    await transaction.exec();
+    await this.scheduleChat(message.chatId, Date.now());
+  }
+
+  private async scheduleChat(chatId: string, at: number): Promise<void> {
+    const redis = this.redisService.getOrThrow();
+    const length = await redis.llen(this.key('chat', chatId));
+    if (length > 0) {
+      await redis.zadd(this.key('chats'), at, chatId);
+    } else {
+      await redis.zrem(this.key('chats'), chatId);
+    }
+  }
+
+  private async reportOutcome(outcome: MessageOutcome): Promise<void> {
+    const kind = outcome.message.context?.kind;
+    const handler = kind && this.handlers.get(kind);
+    if (!handler) {
+      return;
+    }
+
+    try {
+      await handler(outcome);
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle ${outcome.outcome} of message ${outcome.message.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Network errors, 5xx and 429 responses are worth another try; anything
+   * the messenger explicitly rejected is not.
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+    const status = error.response?.status;
+    return status === undefined || status >= 500 || status === 429;
+  }
+
+  private async acquireRateSlot(): Promise<boolean> {
+    const redis = this.redisService.getOrThrow();
+    const key = this.key('rate', String(Math.floor(Date.now() / 1000)));
+    const [[, count]] = await redis.multi().incr(key).expire(key, 2).exec();
+    return Number(count) <= this.getRateLimit();
+  }
+
+  private getRateLimit(): number {
+    return Number(
+      this.configService.get<AppConfig['MESSENGER_RATE_LIMIT']>(
+        'MESSENGER_RATE_LIMIT',
+        DEFAULT_MESSENGER_RATE_LIMIT,
+      ),
+    );
+  }
+
+  private key(...parts: string[]): string {
+    return [MessageQueueService.KEY_PREFIX, ...parts].join(':');
+  }
+}
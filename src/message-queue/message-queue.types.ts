@@ -0,0 +1,69 @@
+import {
+  SendFileRequest,
+  SendTextRequest,
+  VkTeamsKeyboard,
+} from 'src/vk-teams/vk-teams.types';
+
+export const DEFAULT_MESSENGER_RATE_LIMIT = 20;
+
+export const MESSAGE_OUTCOME = {
+  DELIVERED: 'DELIVERED',
+  DROPPED: 'DROPPED',
+};
+
+/**
+ * Tells the queue who is interested in the delivery outcome. The context
+ * is stored with the message, so the outcome reaches the handler of its
+ * `kind` even after a restart.
+ */
+export interface MessageContext {
+  kind: string;
+  [key: string]: string | number | null;
+}
+
+export type OutboundRequest =
+  | { method: 'sendText'; request: SendTextRequest }
+  | { method: 'sendFile'; request: SendFileRequest };
+
+export type OutboundMessageInput = OutboundRequest & {
+  context?: MessageContext;
+  /**
+   * While a message with the same key is queued, further messages with it
+   * are not accepted.
+   */
+  dedupeKey?: string;
+};
+
+export interface MarkdownMessageOptions {
+  /**
+   * Sent with the first part of the message as its caption.
+   */
+  fileId?: string;
+  inlineKeyboardMarkup?: VkTeamsKeyboard;
+  context?: MessageContext;
+  dedupeKey?: string;
+}
+
+export type QueuedMessage = OutboundMessageInput & {
+  id: string;
+  chatId: string;
+  attempts: number;
+  enqueuedAt: string;
+};
+
+export interface MessageOutcome {
+  outcome: string;
+  message: QueuedMessage;
+  error?: string;
+}
+
+export type MessageOutcomeHandler = (outcome: MessageOutcome) => Promise<void>;
+
+export interface MessageQueueMetrics {
+  enqueued: number;
+  delivered: number;
+  retried: number;
+  dropped: number;
+  droppedByReason: Record<string, number>;
+  queuedChats: number;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { CalendarModule } from 'src/calendar/calendar.module';
+import { MessageQueueModule } from 'src/message-queue/message-queue.module';
+import { I18nModule } from 'src/i18n/i18n.module';
+
+@Module({
+  imports: [CalendarModule, MessageQueueModule, I18nModule],
+  providers: [NotificationsService],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
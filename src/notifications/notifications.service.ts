@@ -0,0 +1,486 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from 'src/prisma.service';
+import { CalendarService } from 'src/calendar/calendar.service';
+import { I18nService } from 'src/i18n/i18n.service';
+import {
+  DEFAULT_LANGUAGE,
+  MessageKey,
+  MessageParams,
+} from 'src/i18n/i18n.types';
+import {
+  APPROVER_DECISION,
+  DecisionResult,
+  DELEGATION_REASON,
+  TaskChanges,
+  TaskWithRoute,
+} from 'src/tasks/tasks.types';
+import { bold, join } from 'src/markdown/markdown.nodes';
+import { MarkdownNode } from 'src/markdown/markdown.types';
+import { MessageQueueService } from 'src/message-queue/message-queue.service';
+import {
+  NOTIFICATION_MESSAGE_KIND,
+  NOTIFICATION_TYPE,
+} from './notifications.types';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly calendarService: CalendarService,
+    private readonly messageQueueService: MessageQueueService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  /**
+   * Tells the task author about a decision made on their task. Results that
+   * do not change anything (e.g. a repeated button press) are ignored.
+   */
+  async notifyDecision(
+    task: TaskWithRoute,
+    decision: DecisionResult,
+    actorVkId: string,
+  ): Promise<void> {
+    const type = this.getDecisionNotificationType(decision);
+    if (!type) {
+      return;
+    }
+
+    const actor = await this.prisma.user.findUnique({
+      where: { vkId: actorVkId },
+    });
+    const actorName = actor
+      ? `${actor.firstName} ${actor.lastName}`
+      : actorVkId;
+    const approver = task.steps
+      .flatMap((step) => step.approvers)
+      .find((item) => item.userVkId === actorVkId && item.decidedAt);
+    const decidedAt = approver?.decidedAt ?? new Date();
+    const language = await this.i18nService.getLanguage(task.chatId);
+
+    const messageText: MarkdownNode[] = [];
+    switch (decision.result) {
+      case 'APPROVED':
+        messageText.push(this.format(language, 'notification.taskApproved'));
+        break;
+      case 'REJECTED':
+        messageText.push(this.format(language, 'notification.taskRejected'));
+        break;
+      case 'STEP_APPROVED':
+        messageText.push(
+          this.format(language, 'notification.stepApproved', {
+            step: decision.stepOrder + 1,
+            nextStep: decision.nextStepOrder + 1,
+          }),
+        );
+        break;
+      default:
+        messageText.push(
+          this.format(language, 'notification.decisionRecorded', {
+            name: actorName,
+            step: task.currentStep + 1,
+          }),
+        );
+        break;
+    }
+
+    messageText.push(
+      '\n\n',
+      this.getTaskLine(task, language),
+      '\n',
+      this.format(language, 'notification.decidedBy', { name: actorName }),
+      '\n',
+      this.format(language, 'notification.decidedAt', {
+        date: this.calendarService.formatDate(
+          decidedAt,
+          await this.calendarService.getUserTimeZone(task.chatId),
+          language,
+        ),
+      }),
+    );
+    if (task.rejectReason) {
+      messageText.push(
+        '\n',
+        this.format(language, 'notification.rejectReason', {
+          reason: task.rejectReason,
+        }),
+      );
+    } else if (approver?.comment) {
+      messageText.push(
+        '\n',
+        this.format(language, 'notification.comment', {
+          comment: approver.comment,
+        }),
+      );
+    }
+
+    await this.notify(task.chatId, type, messageText, task.id);
+  }
+
+  /**
+   * Posts a follow-up to the group chat of a group step after one of its
+   * members decided, with the progress towards the quorum.
+   */
+  async notifyGroupDecision(
+    task: TaskWithRoute,
+    groupChatId: string,
+    memberVkId: string,
+    decision: DecisionResult,
+  ): Promise<void> {
+    const step = task.steps.find((item) => item.groupChatId === groupChatId);
+    const approver = step?.approvers.find(
+      (item) => item.userVkId === memberVkId && item.decision,
+    );
+    if (!step || !approver) {
+      return;
+    }
+
+    // Group chats have no language of their own.
+    const language = DEFAULT_LANGUAGE;
+    const names = await this.getUserNames([memberVkId]);
+    const approved = approver.decision === APPROVER_DECISION.APPROVED;
+    const messageText: MarkdownNode[] = [
+      this.format(
+        language,
+        approved ? 'notification.groupApproved' : 'notification.groupRejected',
+        { name: names.get(memberVkId) },
+      ),
+      '\n\n',
+      this.getTaskLine(task, language),
+      '\n',
+    ];
+    if (approver.comment) {
+      messageText.push(
+        approved
+          ? this.format(language, 'notification.comment', {
+              comment: approver.comment,
+            })
+          : this.format(language, 'notification.groupReason', {
+              reason: approver.comment,
+            }),
+        '\n',
+      );
+    }
+
+    switch (decision.result) {
+      case 'RECORDED':
+        messageText.push(
+          this.format(language, 'notification.quorumProgress', {
+            approved: step.approvers.filter(
+              (item) => item.decision === APPROVER_DECISION.APPROVED,
+            ).length,
+            quorum: step.quorum ?? 1,
+          }),
+        );
+        break;
+      case 'STEP_APPROVED':
+      case 'APPROVED':
+        messageText.push(this.format(language, 'notification.quorumReached'));
+        break;
+      case 'REJECTED':
+        messageText.push(
+          this.format(language, 'notification.groupTaskRejected'),
+        );
+        break;
+    }
+
+    await this.notify(
+      groupChatId,
+      NOTIFICATION_TYPE.DECISION_RECORDED,
+      messageText,
+      task.id,
+    );
+  }
+
+  async notifyEscalation(
+    task: TaskWithRoute,
+    expired: boolean,
+    reassignedTo: string[],
+  ): Promise<void> {
+    const language = await this.i18nService.getLanguage(task.chatId);
+    const messageText: MarkdownNode[] = [
+      this.format(
+        language,
+        expired ? 'notification.expired' : 'notification.escalated',
+      ),
+      '\n\n',
+      this.getTaskLine(task, language),
+      '\n',
+      this.format(language, 'notification.deadline', {
+        date: task.deadline
+          ? this.calendarService.formatDate(
+              task.deadline,
+              await this.calendarService.getUserTimeZone(task.chatId),
+              language,
+            )
+          : '—',
+      }),
+    ];
+
+    if (reassignedTo.length > 0) {
+      const users = await this.prisma.user.findMany({
+        where: { vkId: { in: reassignedTo } },
+      });
+      const names = reassignedTo.map((vkId) => {
+        const user = users.find((item) => item.vkId === vkId);
+        return user ? `${user.firstName} ${user.lastName}` : vkId;
+      });
+      messageText.push(
+        '\n',
+        this.format(language, 'notification.reassignedTo', {
+          names: names.join(', '),
+        }),
+      );
+    } else if (!expired) {
+      messageText.push(
+        '\n',
+        this.format(language, 'notification.noDecisionYet'),
+      );
+    }
+
+    await this.notify(
+      task.chatId,
+      expired
+        ? NOTIFICATION_TYPE.TASK_EXPIRED
+        : NOTIFICATION_TYPE.TASK_ESCALATED,
+      messageText,
+      task.id,
+    );
+  }
+
+  /**
+   * Shows the approvers what the author changed in a task they are
+   * reviewing.
+   */
+  async notifyTaskEdited(
+    task: TaskWithRoute,
+    changes: TaskChanges,
+    recipients: string[],
+  ): Promise<void> {
+    const names = await this.getUserNames(
+      changes.approver
+        ? [String(changes.approver.from), String(changes.approver.to)]
+        : [],
+    );
+    const getLines = (language: string) =>
+      Object.entries(changes).map(([field, { from, to }]) => {
+        switch (field) {
+          case 'text':
+            return this.format(language, 'notification.editedText', {
+              from: from || '—',
+              to: to || '—',
+            });
+          case 'fileId':
+            return this.format(language, 'notification.editedFile');
+          case 'fileCaption':
+            return this.format(language, 'notification.editedFileCaption', {
+              from: from || '—',
+              to: to || '—',
+            });
+          case 'remindInterval':
+            return this.format(language, 'notification.editedInterval', {
+              from,
+              to,
+            });
+          case 'approver':
+            return this.format(language, 'notification.editedApprover', {
+              from: names.get(String(from)),
+              to: names.get(String(to)),
+            });
+          default:
+            return [bold(`${field}:`), ` ${from} → ${to}`];
+        }
+      });
+
+    for (const recipient of recipients) {
+      const language = await this.i18nService.getLanguage(recipient);
+      const messageText = [
+        this.format(language, 'notification.edited', {
+          name: `${task.firstName} ${task.lastName}`,
+        }),
+        '\n\n',
+        this.getTaskLine(task, language),
+        '\n',
+        join(getLines(language), '\n'),
+      ];
+      await this.notify(
+        recipient,
+        NOTIFICATION_TYPE.TASK_EDITED,
+        messageText,
+        task.id,
+      );
+    }
+  }
+
+  async notifyTaskCancelled(
+    task: TaskWithRoute,
+    recipients: string[],
+  ): Promise<void> {
+    for (const recipient of recipients) {
+      const language = await this.i18nService.getLanguage(recipient);
+      const messageText = [
+        this.format(language, 'notification.cancelled', {
+          name: `${task.firstName} ${task.lastName}`,
+        }),
+        '\n\n',
+        this.getTaskLine(task, language),
+        '\n',
+        this.format(language, 'notification.noLongerNeeded'),
+      ];
+      await this.notify(
+        recipient,
+        NOTIFICATION_TYPE.TASK_CANCELLED,
+        messageText,
+        task.id,
+      );
+    }
+  }
+
+  /**
+   * Tells the author that one of the approvers handed the task over to
+   * someone else.
+   */
+  async notifyDelegation(
+    task: TaskWithRoute,
+    fromVkId: string,
+    toVkId: string,
+    reason: string,
+  ): Promise<void> {
+    const names = await this.getUserNames([fromVkId, toVkId]);
+    const language = await this.i18nService.getLanguage(task.chatId);
+    const messageText = [
+      this.format(language, 'notification.delegated'),
+      '\n\n',
+      this.getTaskLine(task, language),
+      '\n',
+      this.format(language, 'notification.delegatedApprover', {
+        from: names.get(fromVkId),
+        to: names.get(toVkId),
+      }),
+      '\n',
+      this.format(
+        language,
+        reason === DELEGATION_REASON.OUT_OF_OFFICE
+          ? 'notification.delegatedOutOfOffice'
+          : 'notification.delegatedByApprover',
+        { name: names.get(fromVkId) },
+      ),
+    ];
+
+    await this.notify(
+      task.chatId,
+      NOTIFICATION_TYPE.TASK_DELEGATED,
+      messageText,
+      task.id,
+    );
+  }
+
+  /**
+   * Queues a notification unless the recipient has muted its type. Returns
+   * whether the message was queued; the delivery outcome is reported to the
+   * `notification` handler of the message queue.
+   */
+  async notify(
+    chatId: string,
+    type: string,
+    text: MarkdownNode,
+    taskId?: string,
+  ): Promise<boolean> {
+    const mutedTypes = await this.getMutedTypes(chatId);
+    if (mutedTypes.includes(type)) {
+      this.logger.log(`Notification ${type} for ${chatId} is muted`);
+      return false;
+    }
+
+    try {
+      await this.messageQueueService.enqueueMarkdown(chatId, text, {
+        context: {
+          kind: NOTIFICATION_MESSAGE_KIND,
+          type,
+          taskId: taskId ?? null,
+        },
+      });
+      this.logger.log(`Notification ${type} queued for ${chatId}`);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue notification ${type} for ${chatId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  async getMutedTypes(vkId: string): Promise<string[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { vkId },
+      select: { mutedNotifications: true },
+    });
+    return user?.mutedNotifications ?? [];
+  }
+
+  async toggleMuted(vkId: string, type: string): Promise<string[]> {
+    const mutedTypes = await this.getMutedTypes(vkId);
+    const updatedTypes = mutedTypes.includes(type)
+      ? mutedTypes.filter((item) => item !== type)
+      : [...mutedTypes, type];
+
+    await this.prisma.user.update({
+      where: { vkId },
+      data: { mutedNotifications: updatedTypes },
+    });
+    return updatedTypes;
+  }
+
+  /**
+   * Full names of the given users keyed by id. Unknown users are shown by
+   * their id.
+   */
+  async getUserNames(vkIds: string[]): Promise<Map<string, string>> {
+    const users = await this.prisma.user.findMany({
+      where: { vkId: { in: vkIds } },
+    });
+    return new Map(
+      vkIds.map((vkId) => {
+        const user = users.find((item) => item.vkId === vkId);
+        return [vkId, user ? `${user.firstName} ${user.lastName}` : vkId];
+      }),
+    );
+  }
+
+  private getTaskLine(task: TaskWithRoute, language: string): MarkdownNode {
+    return this.format(language, 'notification.task', {
+      text:
+        task.text ||
+        task.fileCaption ||
+        this.t(language, 'common.noDescription'),
+    });
+  }
+
+  private t(language: string, key: MessageKey, params?: MessageParams): string {
+    return this.i18nService.t(language, key, params);
+  }
+
+  private format(
+    language: string,
+    key: MessageKey,
+    params?: MessageParams,
+  ): MarkdownNode {
+    return this.i18nService.format(language, key, params);
+  }
+
+  private getDecisionNotificationType(decision: DecisionResult): string | null {
+    switch (decision.result) {
+      case 'APPROVED':
+        return NOTIFICATION_TYPE.TASK_APPROVED;
+      case 'REJECTED':
+        return NOTIFICATION_TYPE.TASK_REJECTED;
+      case 'STEP_APPROVED':
+        return NOTIFICATION_TYPE.STEP_COMPLETED;
+      case 'RECORDED':
+        return NOTIFICATION_TYPE.DECISION_RECORDED;
+      default:
+        return null;
+    }
+  }
+}
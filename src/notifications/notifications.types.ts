@@ -0,0 +1,30 @@
+import { MessageKey } from 'src/i18n/i18n.types';
+
+/**
+ * Context kind of queued notifications, see `MessageQueueService.onOutcome`.
+ */
+export const NOTIFICATION_MESSAGE_KIND = 'notification';
+
+export const NOTIFICATION_TYPE = {
+  TASK_APPROVED: 'TASK_APPROVED',
+  TASK_REJECTED: 'TASK_REJECTED',
+  STEP_COMPLETED: 'STEP_COMPLETED',
+  DECISION_RECORDED: 'DECISION_RECORDED',
+  TASK_ESCALATED: 'TASK_ESCALATED',
+  TASK_EXPIRED: 'TASK_EXPIRED',
+  TASK_EDITED: 'TASK_EDITED',
+  TASK_CANCELLED: 'TASK_CANCELLED',
+  TASK_DELEGATED: 'TASK_DELEGATED',
+};
+
+export const NOTIFICATION_TYPE_LABELS: Record<string, MessageKey> = {
+  [NOTIFICATION_TYPE.TASK_APPROVED]: 'notificationType.taskApproved',
+  [NOTIFICATION_TYPE.TASK_REJECTED]: 'notificationType.taskRejected',
+  [NOTIFICATION_TYPE.STEP_COMPLETED]: 'notificationType.stepCompleted',
+  [NOTIFICATION_TYPE.DECISION_RECORDED]: 'notificationType.decisionRecorded',
+  [NOTIFICATION_TYPE.TASK_ESCALATED]: 'notificationType.taskEscalated',
+  [NOTIFICATION_TYPE.TASK_EXPIRED]: 'notificationType.taskExpired',
+  [NOTIFICATION_TYPE.TASK_EDITED]: 'notificationType.taskEdited',
+  [NOTIFICATION_TYPE.TASK_CANCELLED]: 'notificationType.taskCancelled',
+  [NOTIFICATION_TYPE.TASK_DELEGATED]: 'notificationType.taskDelegated',
+};
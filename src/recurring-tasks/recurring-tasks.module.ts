@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { UsersModule } from 'src/users/users.module';
+import { RecurringTasksService } from './recurring-tasks.service';
+
+@Module({
+  imports: [TasksModule, UsersModule],
+  providers: [RecurringTasksService],
+  exports: [RecurringTasksService],
+})
+export class RecurringTasksModule {}
@@ -0,0 +1,160 @@
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { RecurringTask } from '@prisma/client';
+import { PrismaService } from 'src/prisma.service';
+import { TasksService } from 'src/tasks/tasks.service';
+import { STEP_RULE } from 'src/tasks/tasks.types';
+import { UsersService } from 'src/users/users.service';
+import { RecurringTasksService } from './recurring-tasks.service';
+
+describe('RecurringTasksService', () => {
+  let service: RecurringTasksService;
+  let schedulerRegistry: SchedulerRegistry;
+
+  beforeEach(() => {
+    schedulerRegistry = new SchedulerRegistry();
+    service = new RecurringTasksService(null, null, null, schedulerRegistry);
+  });
+
+  afterEach(() => {
+    schedulerRegistry.deleteInterval('recurringTasks');
+  });
+
+  describe('getNextRun', () => {
+    it('reads the schedule in the given time zone', () => {
+      const after = new Date('2026-10-19T05:00:00Z');
+
+      expect(service.getNextRun('0 9 * * *', 'Europe/Moscow', after)).toEqual(
+        new Date('2026-10-19T06:00:00Z'),
+      );
+      expect(service.getNextRun('0 9 * * *', 'UTC', after)).toEqual(
+        new Date('2026-10-19T09:00:00Z'),
+      );
+    });
+
+    it('returns a moment strictly after the given one', () => {
+      expect(
+        service.getNextRun(
+          '0 9 * * *',
+          'Europe/Moscow',
+          new Date('2026-10-19T06:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-10-20T06:00:00Z'));
+    });
+
+    it('skips days outside the weekday field', () => {
+      // Friday evening in Moscow; the next weekday run is on Monday.
+      expect(
+        service.getNextRun(
+          '0 9 * * 1-5',
+          'Europe/Moscow',
+          new Date('2026-10-23T15:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-10-26T06:00:00Z'));
+    });
+
+    it('keeps the local time across a daylight saving change', () => {
+      // Berlin moves from UTC+2 to UTC+1 on 25 October 2026.
+      expect(
+        service.getNextRun(
+          '0 9 * * *',
+          'Europe/Berlin',
+          new Date('2026-10-24T08:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-10-25T08:00:00Z'));
+    });
+
+    it('accepts extra spaces around the fields', () => {
+      expect(
+        service.getNextRun(
+          '  0   9 * * * ',
+          'UTC',
+          new Date('2026-10-19T05:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-10-19T09:00:00Z'));
+    });
+
+    it('rejects anything but a valid five-field expression', () => {
+      const after = new Date('2026-10-19T05:00:00Z');
+
+      expect(service.getNextRun('0 0 9 * * *', 'UTC', after)).toBeNull();
+      expect(service.getNextRun('0 9 * *', 'UTC', after)).toBeNull();
+      expect(service.getNextRun('0 25 * * *', 'UTC', after)).toBeNull();
+      expect(service.getNextRun('every day', 'UTC', after)).toBeNull();
+    });
+
+    it('rejects an unknown time zone', () => {
+      expect(
+        service.getNextRun(
+          '0 9 * * *',
+          'Mars/Olympus',
+          new Date('2026-10-19T05:00:00Z'),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('processDueRuns', () => {
+    const now = new Date('2026-10-19T06:00:00Z');
+    let createTask: jest.Mock;
+    let forbiddenIds: string[];
+    let groupMembers: string[] | null;
+
+    beforeEach(() => {
+      schedulerRegistry.deleteInterval('recurringTasks');
+      createTask = jest.fn(async () => ({ id: 'task' }));
+      forbiddenIds = [];
+      groupMembers = ['member'];
+      const recurringTask = {
+        id: 'recurring',
+        authorVkId: 'author',
+        steps: [
+          { rule: STEP_RULE.ALL, approvers: ['approver'] },
+          { rule: STEP_RULE.QUORUM, approvers: [], groupChatId: 'chat' },
+        ],
+        schedule: '0 9 * * *',
+        timeZone: 'Europe/Moscow',
+        nextRunAt: now,
+      } as unknown as RecurringTask;
+      const prisma = {
+        recurringTask: {
+          findMany: async () => [recurringTask],
+          updateMany: async () => ({ count: 1 }),
+        },
+      } as unknown as PrismaService;
+      service = new RecurringTasksService(
+        prisma,
+        {
+          createTask,
+          findUnknownUsers: async () => [],
+          getGroupMembers: async () => groupMembers,
+        } as unknown as TasksService,
+        {
+          findForbiddenAssignees: async () => forbiddenIds,
+        } as unknown as UsersService,
+        schedulerRegistry,
+      );
+    });
+
+    it('creates a task when the route still holds', async () => {
+      await service.processDueRuns(now);
+
+      expect(createTask).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips the run when the author may no longer assign', async () => {
+      forbiddenIds = ['approver'];
+
+      await service.processDueRuns(now);
+
+      expect(createTask).not.toHaveBeenCalled();
+    });
+
+    it('skips the run when the bot has left a group chat', async () => {
+      groupMembers = null;
+
+      await service.processDueRuns(now);
+
+      expect(createTask).not.toHaveBeenCalled();
+    });
+  });
+});
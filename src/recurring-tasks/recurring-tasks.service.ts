@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Prisma, RecurringTask } from '@prisma/client';
+import { CronTime } from 'cron';
+import { PrismaService } from 'src/prisma.service';
+import { TasksService } from 'src/tasks/tasks.service';
+import { RouteStepInput } from 'src/tasks/tasks.types';
+import { UsersService } from 'src/users/users.service';
+import { RecurringTaskInput } from './recurring-tasks.types';
+
+/**
+ * A run that is this late (the app was down, for example) is skipped
+ * instead of creating a stale task.
+ */
+const MISSED_RUN_GRACE = 60 * 60 * 1000;
+
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tasksService: TasksService,
+    private readonly usersService: UsersService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.startRunWorker();
+  }
+
+  /**
+   * Next occurrence of a five-field cron expression after the given moment,
+   * or null if the expression is invalid.
+   */
+  getNextRun(schedule: string, timeZone: string, after: Date): Date | null {
+    if (schedule.trim().split(/\s+/).length !== 5) {
+      return null;
+    }
+    try {
+      return new CronTime(schedule.trim(), timeZone)
+        .getNextDateFrom(after, timeZone)
+        .toJSDate();
+    } catch {
+      return null;
+    }
+  }
+
+  async create(input: RecurringTaskInput): Promise<RecurringTask> {
+    const nextRunAt = this.getNextRun(
+      input.schedule,
+      input.timeZone,
+      new Date(),
+    );
+    if (!nextRunAt) {
+      throw new Error(`Некорректное расписание: ${input.schedule}`);
+    }
+
+    const recurringTask = await this.prisma.recurringTask.create({
+      data: {
+        authorVkId: input.authorVkId,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        text: input.text,
+        steps: input.steps as unknown as Prisma.InputJsonArray,
+        remindInterval: input.remindInterval,
+        deadlineHours: input.deadlineHours ?? null,
+        schedule: input.schedule.trim(),
+        timeZone: input.timeZone,
+        nextRunAt,
+      },
+    });
+    this.logger.log(
+      `Recurring task ${recurringTask.id} created, next run at ${nextRunAt.toISOString()}`,
+    );
+    return recurringTask;
+  }
+
+  async listByAuthor(authorVkId: string): Promise<RecurringTask[]> {
+    return this.prisma.recurringTask.findMany({
+      where: { authorVkId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Pausing and resuming only work on the author's own definitions. Returns
+   * null if there is no such definition.
+   */
+  async setPaused(
+    id: string,
+    authorVkId: string,
+    paused: boolean,
+  ): Promise<RecurringTask | null> {
+    const recurringTask = await this.prisma.recurringTask.findFirst({
+      where: { id, authorVkId },
+    });
+    if (!recurringTask) {
+      return null;
+    }
+
+    // Resuming starts from the next occurrence, whatever was missed while
+    // the definition was paused.
+    return this.prisma.recurringTask.update({
+      where: { id },
+      data: {
+        paused,
+        nextRunAt: paused
+          ? null
+          : this.getNextRun(
+              recurringTask.schedule,
+              recurringTask.timeZone,
+              new Date(),
+            ),
+      },
+    });
+  }
+
+  async remove(id: string, authorVkId: string): Promise<boolean> {
+    const { count } = await this.prisma.recurringTask.deleteMany({
+      where: { id, authorVkId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Creates a task for every definition that is due. Each definition is
+   * claimed by moving its next run forward first, so a run happens once
+   * even if several instances poll at the same time.
+   */
+  async processDueRuns(now: Date): Promise<void> {
+    const dueTasks = await this.prisma.recurringTask.findMany({
+      where: { paused: false, nextRunAt: { lte: now } },
+    });
+
+    for (const recurringTask of dueTasks) {
+      const { count } = await this.prisma.recurringTask.updateMany({
+        where: { id: recurringTask.id, nextRunAt: recurringTask.nextRunAt },
+        data: {
+          nextRunAt: this.getNextRun(
+            recurringTask.schedule,
+            recurringTask.timeZone,
+            now,
+          ),
+          lastRunAt: now,
+        },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      if (
+        now.getTime() - recurringTask.nextRunAt.getTime() >
+        MISSED_RUN_GRACE
+      ) {
+        this.logger.warn(
+          `Recurring task ${recurringTask.id}: missed run at ${recurringTask.nextRunAt.toISOString()} skipped`,
+        );
+        continue;
+      }
+
+      const steps = recurringTask.steps as unknown as RouteStepInput[];
+      const problem = await this.findRunProblem(recurringTask, steps);
+      if (problem) {
+        this.logger.warn(
+          `Recurring task ${recurringTask.id}: run skipped, ${problem}`,
+        );
+        continue;
+      }
+
+      try {
+        const task = await this.tasksService.createTask({
+          chatId: recurringTask.authorVkId,
+          firstName: recurringTask.firstName,
+          lastName: recurringTask.lastName,
+          text: recurringTask.text,
+          remindInterval: recurringTask.remindInterval,
+          deadline: recurringTask.deadlineHours
+            ? new Date(
+                now.getTime() + recurringTask.deadlineHours * 60 * 60 * 1000,
+              )
+            : undefined,
+          steps,
+        });
+        this.logger.log(
+          `Recurring task ${recurringTask.id}: task ${task.id} created`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Recurring task ${recurringTask.id}: failed to create a task: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * The route was checked when the definition was created, but users and
+   * chats may have changed since. Returns why a task cannot be created from
+   * the definition now, or null if it can.
+   */
+  private async findRunProblem(
+    recurringTask: RecurringTask,
+    steps: RouteStepInput[],
+  ): Promise<string | null> {
+    const approverIds = steps.flatMap((step) =>
+      step.groupChatId ? [] : step.approvers,
+    );
+    const unknownIds = await this.tasksService.findUnknownUsers([
+      recurringTask.authorVkId,
+      ...approverIds,
+    ]);
+    if (unknownIds.length > 0) {
+      return `unknown users: ${unknownIds.join(', ')}`;
+    }
+
+    const forbiddenIds = await this.usersService.findForbiddenAssignees(
+      recurringTask.authorVkId,
+      approverIds,
+    );
+    if (forbiddenIds.length > 0) {
+      return `the author may not assign to ${forbiddenIds.join(', ')}`;
+    }
+
+    for (const step of steps) {
+      if (
+        step.groupChatId &&
+        !(await this.tasksService.getGroupMembers(step.groupChatId))
+      ) {
+        return `the bot is not a member of chat ${step.groupChatId}`;
+      }
+    }
+    return null;
+  }
+
+  private startRunWorker() {
+    const runCheckInterval = 60 * 1000;
+    const interval = setInterval(async () => {
+      try {
+        await this.processDueRuns(new Date());
+      } catch (error) {
+        this.logger.error(`Error running recurring tasks: ${error.message}`);
+      }
+    }, runCheckInterval);
+
+    this.schedulerRegistry.addInterval('recurringTasks', interval);
+  }
+}
@@ -0,0 +1,13 @@
+import { RouteStepInput } from 'src/tasks/tasks.types';
+
+export interface RecurringTaskInput {
+  authorVkId: string;
+  firstName: string;
+  lastName: string;
+  text: string;
+  steps: RouteStepInput[];
+  remindInterval: number;
+  deadlineHours?: number | null;
+  schedule: string;
+  timeZone: string;
+}
@@ -0,0 +1,77 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ESCALATION_POLICY, STEP_RULE } from '../tasks.types';
+
+export class RouteStepDto {
+  @IsIn(Object.values(STEP_RULE))
+  readonly rule: string;
+
+  @ValidateIf((step: RouteStepDto) => !step.groupChatId)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  readonly approvers: string[];
+
+  /**
+   * Sends the step to a group chat where any member may decide instead of
+   * to the listed approvers. Required for the QUORUM rule.
+   */
+  @ValidateIf(
+    (step: RouteStepDto) =>
+      step.rule === STEP_RULE.QUORUM ||
+      (step.groupChatId !== undefined && step.groupChatId !== null),
+  )
+  @IsString()
+  @IsNotEmpty()
+  readonly groupChatId?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readonly quorum?: number;
+}
+
+export class CreateTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly authorVkId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  readonly text: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => RouteStepDto)
+  readonly steps: RouteStepDto[];
+
+  @IsInt()
+  @Min(1)
+  readonly remindInterval: number;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly deadline?: Date;
+
+  @IsOptional()
+  @IsIn(Object.values(ESCALATION_POLICY))
+  readonly escalationPolicy?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly backupApproverVkId?: string;
+}
@@ -0,0 +1,37 @@
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+
+export class ApproveTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly approverVkId: string;
+
+  @IsOptional()
+  @IsString()
+  readonly comment?: string;
+}
+
+export class RejectTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly approverVkId: string;
+
+  @IsString()
+  @Matches(/\S/, { message: 'reason must not be blank' })
+  readonly reason: string;
+}
+
+export class CancelTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly actorVkId: string;
+}
+
+export class DelegateTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly approverVkId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  readonly toVkId: string;
+}
@@ -0,0 +1,49 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class ReplaceApproverDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly fromVkId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  readonly toVkId: string;
+}
+
+export class EditTaskDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly actorVkId: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  readonly text?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  readonly fileId?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly fileCaption?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readonly remindInterval?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReplaceApproverDto)
+  readonly replaceApprover?: ReplaceApproverDto;
+}
@@ -0,0 +1,56 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { TASK_STATUS } from '../tasks.types';
+
+export class ListTasksQueryDto {
+  @IsOptional()
+  @IsIn(Object.values(TASK_STATUS))
+  readonly status?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly authorVkId?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly approverVkId?: string;
+
+  /**
+   * User on whose behalf the API is called. The result is restricted to
+   * tasks this user is allowed to see.
+   */
+  @IsString()
+  @IsNotEmpty()
+  readonly viewerVkId: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  readonly createdTo?: Date;
+
+  @IsOptional()
+  @IsUUID()
+  readonly cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  readonly limit: number = 20;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ViewTaskQueryDto {
+  /**
+   * User on whose behalf the task is read. It must be allowed to see it.
+   */
+  @IsString()
+  @IsNotEmpty()
+  readonly viewerVkId: string;
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, TaskEvent } from '@prisma/client';
+import { PrismaService } from 'src/prisma.service';
+import { TaskEventInput } from './tasks.types';
+
+@Injectable()
+export class TaskEventsService {
+  private readonly logger = new Logger(TaskEventsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Appends an event to the task timeline. Inside a transaction errors are
+   * rethrown so the whole change rolls back; otherwise a failed audit write
+   * is only logged and never breaks the flow that produced the event.
+   */
+  async record(
+    event: TaskEventInput,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const data = {
+      taskId: event.taskId,
+      type: event.type,
+      actorVkId: event.actorVkId ?? null,
+      payload: event.payload,
+    };
+
+    if (tx) {
+      await tx.taskEvent.create({ data });
+      return;
+    }
+
+    try {
+      await this.prisma.taskEvent.create({ data });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${event.type} event for task ${event.taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  async getTimeline(taskId: string): Promise<TaskEvent[]> {
+    return this.prisma.taskEvent.findMany({
+      where: { taskId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
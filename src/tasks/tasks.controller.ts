@@ -0,0 +1,362 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { TasksService } from './tasks.service';
+import { TaskEventsService } from './task-events.service';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
+import { EditTaskDto } from './dto/edit-task.dto';
+import { ViewTaskQueryDto } from './dto/view-task-query.dto';
+import {
+  ApproveTaskDto,
+  CancelTaskDto,
+  DelegateTaskDto,
+  RejectTaskDto,
+} from './dto/decide-task.dto';
+import {
+  APPROVER_DECISION,
+  CancelResult,
+  DecisionResult,
+  DelegationResult,
+  EditResult,
+  ESCALATION_POLICY,
+} from './tasks.types';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { UsersService } from 'src/users/users.service';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+
+@Controller('tasks')
+export class TasksController {
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskEventsService: TaskEventsService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Post()
+  @RequireScopes(API_KEY_SCOPE.TASKS_CREATE)
+  async createTask(@Body() dto: CreateTaskDto) {
+    const approverIds = dto.steps.flatMap((step) =>
+      step.groupChatId ? [] : step.approvers,
+    );
+    const assigneeIds = [
+      ...approverIds,
+      ...(dto.backupApproverVkId ? [dto.backupApproverVkId] : []),
+    ];
+    const unknownIds = await this.tasksService.findUnknownUsers([
+      dto.authorVkId,
+      ...assigneeIds,
+    ]);
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(`Unknown users: ${unknownIds.join(', ')}`);
+    }
+    await this.assertCanAssign(dto.authorVkId, assigneeIds);
+    if (
+      dto.escalationPolicy === ESCALATION_POLICY.BACKUP_APPROVER &&
+      !dto.backupApproverVkId
+    ) {
+      throw new BadRequestException(
+        'backupApproverVkId is required for the BACKUP_APPROVER policy',
+      );
+    }
+    if (dto.deadline && dto.deadline.getTime() <= Date.now()) {
+      throw new BadRequestException('deadline must be in the future');
+    }
+    for (const step of dto.steps) {
+      if (!step.groupChatId) {
+        continue;
+      }
+      const members = await this.tasksService.getGroupMembers(step.groupChatId);
+      if (!members) {
+        throw new BadRequestException(
+          `The bot is not a member of chat ${step.groupChatId}`,
+        );
+      }
+      if ((step.quorum ?? 1) > members.length) {
+        throw new BadRequestException(
+          `quorum exceeds the ${members.length} members of chat ${step.groupChatId}`,
+        );
+      }
+    }
+
+    const author = await this.tasksService.findUser(dto.authorVkId);
+    return this.tasksService.createTask({
+      chatId: dto.authorVkId,
+      firstName: author!.firstName,
+      lastName: author!.lastName,
+      text: dto.text,
+      remindInterval: dto.remindInterval,
+      deadline: dto.deadline,
+      escalationPolicy: dto.escalationPolicy,
+      backupApproverVkId: dto.backupApproverVkId,
+      steps: dto.steps.map((step) => ({
+        rule: step.rule,
+        approvers: step.groupChatId ? [] : [...new Set(step.approvers)],
+        groupChatId: step.groupChatId,
+        quorum: step.quorum,
+      })),
+    });
+  }
+
+  @Get()
+  @RequireScopes(API_KEY_SCOPE.TASKS_READ)
+  async listTasks(@Query() query: ListTasksQueryDto) {
+    const { viewerVkId, ...filter } = query;
+    const visibleTo = await this.usersService.getVisibleUserIds(viewerVkId);
+    return this.tasksService.listTasks({
+      ...filter,
+      visibleTo: visibleTo ?? undefined,
+    });
+  }
+
+  @Get(':id')
+  @RequireScopes(API_KEY_SCOPE.TASKS_READ)
+  async getTask(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ViewTaskQueryDto,
+  ) {
+    return this.findVisibleTask(id, query.viewerVkId);
+  }
+
+  @Patch(':id')
+  @RequireScopes(API_KEY_SCOPE.TASKS_CREATE)
+  async editTask(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: EditTaskDto,
+  ) {
+    if (dto.replaceApprover) {
+      const unknownIds = await this.tasksService.findUnknownUsers([
+        dto.replaceApprover.toVkId,
+      ]);
+      if (unknownIds.length > 0) {
+        throw new BadRequestException(
+          `Unknown users: ${unknownIds.join(', ')}`,
+        );
+      }
+      await this.assertCanAssign(dto.actorVkId, [dto.replaceApprover.toVkId]);
+    }
+
+    const edit = await this.tasksService.editTask(id, dto.actorVkId, {
+      text: dto.text,
+      fileId: dto.fileId,
+      fileCaption: dto.fileCaption,
+      remindInterval: dto.remindInterval,
+      replaceApprover: dto.replaceApprover && {
+        from: dto.replaceApprover.fromVkId,
+        to: dto.replaceApprover.toVkId,
+      },
+    });
+    return this.toEditResponse(id, edit);
+  }
+
+  @Get(':id/events')
+  @RequireScopes(API_KEY_SCOPE.TASKS_READ)
+  async getTaskEvents(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ViewTaskQueryDto,
+  ) {
+    await this.findVisibleTask(id, query.viewerVkId);
+    return this.taskEventsService.getTimeline(id);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(200)
+  @RequireScopes(API_KEY_SCOPE.TASKS_DECIDE)
+  async approveTask(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ApproveTaskDto,
+  ) {
+    const decision = await this.tasksService.decide(
+      id,
+      dto.approverVkId,
+      APPROVER_DECISION.APPROVED,
+      dto.comment,
+    );
+    return this.toDecisionResponse(id, decision);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(200)
+  @RequireScopes(API_KEY_SCOPE.TASKS_DECIDE)
+  async rejectTask(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RejectTaskDto,
+  ) {
+    const decision = await this.tasksService.decide(
+      id,
+      dto.approverVkId,
+      APPROVER_DECISION.REJECTED,
+      dto.reason,
+    );
+    return this.toDecisionResponse(id, decision);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(200)
+  @RequireScopes(API_KEY_SCOPE.TASKS_DECIDE)
+  async cancelTask(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CancelTaskDto,
+  ) {
+    const cancellation = await this.tasksService.cancelTask(id, dto.actorVkId);
+    return this.toCancelResponse(id, cancellation);
+  }
+
+  @Post(':id/delegate')
+  @HttpCode(200)
+  @RequireScopes(API_KEY_SCOPE.TASKS_DECIDE)
+  async delegateTask(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: DelegateTaskDto,
+  ) {
+    const unknownIds = await this.tasksService.findUnknownUsers([dto.toVkId]);
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(`Unknown users: ${unknownIds.join(', ')}`);
+    }
+    await this.assertCanAssign(dto.approverVkId, [dto.toVkId]);
+
+    const delegation = await this.tasksService.delegate(
+      id,
+      dto.approverVkId,
+      dto.toVkId,
+    );
+    return this.toDelegationResponse(id, delegation);
+  }
+
+  private async findVisibleTask(id: string, viewerVkId: string) {
+    const task = await this.tasksService.findTaskWithRoute(id);
+    if (!task) {
+      throw new NotFoundException(`Task ${id} not found`);
+    }
+    if (!(await this.usersService.canViewTask(viewerVkId, task))) {
+      throw new ForbiddenException(`${viewerVkId} may not view task ${id}`);
+    }
+    return task;
+  }
+
+  private async assertCanAssign(actorVkId: string, vkIds: string[]) {
+    const forbiddenIds = await this.usersService.findForbiddenAssignees(
+      actorVkId,
+      vkIds,
+    );
+    if (forbiddenIds.length > 0) {
+      throw new ForbiddenException(
+        `${actorVkId} may not assign tasks to: ${forbiddenIds.join(', ')}`,
+      );
+    }
+  }
+
+  private async toDecisionResponse(id: string, decision: DecisionResult) {
+    switch (decision.result) {
+      case 'NOT_FOUND':
+        throw new NotFoundException(`Task ${id} not found`);
+      case 'NOT_APPROVER':
+        throw new ForbiddenException(
+          'The user is not an approver of the current step',
+        );
+      case 'NOT_GROUP_MEMBER':
+        throw new ForbiddenException(
+          'The user is not a member of the group chat of the current step',
+        );
+      case 'NOT_PENDING':
+        throw new ConflictException(`Task is already ${decision.status}`);
+      case 'ALREADY_DECIDED':
+        throw new ConflictException(
+          `The user has already decided: ${decision.decision}`,
+        );
+    }
+
+    return {
+      result: decision.result,
+      task: await this.tasksService.findTaskWithRoute(id),
+    };
+  }
+
+  private async toEditResponse(id: string, edit: EditResult) {
+    switch (edit.result) {
+      case 'NOT_FOUND':
+        throw new NotFoundException(`Task ${id} not found`);
+      case 'NOT_AUTHOR':
+        throw new ForbiddenException('Only the author can edit the task');
+      case 'NOT_PENDING':
+        throw new ConflictException(`Task is already ${edit.status}`);
+      case 'HAS_DECISIONS':
+        throw new ConflictException(
+          'The task cannot be edited after a decision was made',
+        );
+      case 'NOT_IN_ROUTE':
+        throw new BadRequestException(
+          'The replaced user is not an approver of the task',
+        );
+    }
+
+    return {
+      result: edit.result,
+      changes: edit.result === 'EDITED' ? edit.changes : {},
+      task: await this.tasksService.findTaskWithRoute(id),
+    };
+  }
+
+  private async toDelegationResponse(id: string, delegation: DelegationResult) {
+    switch (delegation.result) {
+      case 'NOT_FOUND':
+        throw new NotFoundException(`Task ${id} not found`);
+      case 'NOT_APPROVER':
+        throw new ForbiddenException(
+          'The user is not an approver of the current step',
+        );
+      case 'NOT_GROUP_MEMBER':
+        throw new ForbiddenException(
+          'The user is not a member of the group chat of the current step',
+        );
+      case 'NOT_PENDING':
+        throw new ConflictException(`Task is already ${delegation.status}`);
+      case 'ALREADY_DECIDED':
+        throw new ConflictException(
+          `The user has already decided: ${delegation.decision}`,
+        );
+      case 'SAME_USER':
+        throw new BadRequestException(
+          'The task cannot be forwarded to oneself',
+        );
+      case 'ALREADY_APPROVER':
+        throw new ConflictException(
+          'The user is already an approver of the current step',
+        );
+    }
+
+    return {
+      result: delegation.result,
+      chain: delegation.chain,
+      task: await this.tasksService.findTaskWithRoute(id),
+    };
+  }
+
+  private async toCancelResponse(id: string, cancellation: CancelResult) {
+    switch (cancellation.result) {
+      case 'NOT_FOUND':
+        throw new NotFoundException(`Task ${id} not found`);
+      case 'NOT_AUTHOR':
+        throw new ForbiddenException('Only the author can cancel the task');
+      case 'NOT_PENDING':
+        throw new ConflictException(`Task is already ${cancellation.status}`);
+    }
+
+    return {
+      result: cancellation.result,
+      task: await this.tasksService.findTaskWithRoute(id),
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TasksService } from './tasks.service';
+import { TaskEventsService } from './task-events.service';
+import { TasksController } from './tasks.controller';
+import { NotificationsModule } from 'src/notifications/notifications.module';
+import { WebhooksModule } from 'src/webhooks/webhooks.module';
+import { MessageQueueModule } from 'src/message-queue/message-queue.module';
+import { VkTeamsModule } from 'src/vk-teams/vk-teams.module';
+import { UsersModule } from 'src/users/users.module';
+
+@Module({
+  imports: [
+    NotificationsModule,
+    WebhooksModule,
+    MessageQueueModule,
+    VkTeamsModule,
+    UsersModule,
+  ],
+  providers: [TasksService, TaskEventsService],
+  controllers: [TasksController],
+  exports: [TasksService, TaskEventsService],
+})
+export class TasksModule {}
@@ -0,0 +1,90 @@
+import { MessageQueueService } from 'src/message-queue/message-queue.service';
+import { TasksService } from './tasks.service';
+import { APPROVER_DECISION, STEP_RULE, STEP_STATUS } from './tasks.types';
+
+const { APPROVED, REJECTED } = APPROVER_DECISION;
+
+describe('TasksService', () => {
+  let service: TasksService;
+
+  beforeEach(() => {
+    service = new TasksService(
+      null,
+      null,
+      null,
+      null,
+      { onOutcome: () => undefined } as unknown as MessageQueueService,
+      null,
+    );
+  });
+
+  describe('resolveStepStatus', () => {
+    it('approves an ALL step once everyone has approved', () => {
+      expect(
+        service.resolveStepStatus(STEP_RULE.ALL, [APPROVED, null], null),
+      ).toBe(STEP_STATUS.PENDING);
+      expect(
+        service.resolveStepStatus(STEP_RULE.ALL, [APPROVED, APPROVED], null),
+      ).toBe(STEP_STATUS.APPROVED);
+    });
+
+    it('approves an ANY step on the first approval', () => {
+      expect(
+        service.resolveStepStatus(STEP_RULE.ANY, [null, APPROVED], null),
+      ).toBe(STEP_STATUS.APPROVED);
+    });
+
+    it('rejects ALL and ANY steps on a single rejection', () => {
+      expect(
+        service.resolveStepStatus(STEP_RULE.ALL, [APPROVED, REJECTED], null),
+      ).toBe(STEP_STATUS.REJECTED);
+      expect(
+        service.resolveStepStatus(STEP_RULE.ANY, [REJECTED, null], null),
+      ).toBe(STEP_STATUS.REJECTED);
+    });
+
+    it('approves a QUORUM step once the quorum has approved', () => {
+      expect(
+        service.resolveStepStatus(
+          STEP_RULE.QUORUM,
+          [APPROVED, REJECTED, APPROVED],
+          2,
+          10,
+        ),
+      ).toBe(STEP_STATUS.APPROVED);
+    });
+
+    it('does not let one member veto a QUORUM step', () => {
+      expect(
+        service.resolveStepStatus(STEP_RULE.QUORUM, [REJECTED], 3, 10),
+      ).toBe(STEP_STATUS.PENDING);
+    });
+
+    it('rejects a QUORUM step once the quorum cannot be reached', () => {
+      // With a quorum of 2 in a group of 5, the fourth rejection leaves a
+      // single undecided member.
+      expect(
+        service.resolveStepStatus(
+          STEP_RULE.QUORUM,
+          [REJECTED, REJECTED, REJECTED],
+          2,
+          5,
+        ),
+      ).toBe(STEP_STATUS.PENDING);
+      expect(
+        service.resolveStepStatus(
+          STEP_RULE.QUORUM,
+          [REJECTED, REJECTED, REJECTED, REJECTED],
+          2,
+          5,
+        ),
+      ).toBe(STEP_STATUS.REJECTED);
+    });
+
+    it('keeps a QUORUM step pending when the group size is unknown', () => {
+      expect(
+        service.resolveStepStatus(STEP_RULE.QUORUM, [REJECTED, REJECTED], 1),
+      ).toBe(STEP_STATUS.PENDING);
+    });
+  });
+});
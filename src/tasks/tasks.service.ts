@@ -0,0 +1,1324 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/prisma.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { NOTIFICATION_MESSAGE_KIND } from 'src/notifications/notifications.types';
+import { MessageQueueService } from 'src/message-queue/message-queue.service';
+import {
+  MESSAGE_OUTCOME,
+  MessageOutcome,
+} from 'src/message-queue/message-queue.types';
+import { WebhooksService } from 'src/webhooks/webhooks.service';
+import { WEBHOOK_EVENT_TYPE } from 'src/webhooks/webhooks.types';
+import { VkTeamsClient } from 'src/vk-teams/vk-teams.client';
+import { TaskEventsService } from './task-events.service';
+import {
+  APPROVER_DECISION,
+  CancelResult,
+  CreateTaskInput,
+  DecisionBlocker,
+  DecisionResult,
+  DELEGATION_REASON,
+  DelegationResult,
+  EditResult,
+  EditTaskInput,
+  ESCALATION_POLICY,
+  STEP_RULE,
+  STEP_STATUS,
+  TASK_EVENT_TYPE,
+  TASK_STATUS,
+  TASK_WITH_ROUTE,
+  ListTasksFilter,
+  OutOfOfficeInput,
+  TaskChanges,
+  TaskPage,
+  TaskWithRoute,
+} from './tasks.types';
+
+// Concurrent decisions on the same task conflict in a serializable
+// transaction; the loser is run again on the new state.
+const SERIALIZATION_ATTEMPTS = 3;
+const SERIALIZATION_RETRY_DELAY = 50;
+
+const STATUS_WEBHOOK_EVENTS: Record<string, string> = {
+  [TASK_STATUS.APPROVED]: WEBHOOK_EVENT_TYPE.TASK_APPROVED,
+  [TASK_STATUS.REJECTED]: WEBHOOK_EVENT_TYPE.TASK_REJECTED,
+  [TASK_STATUS.EXPIRED]: WEBHOOK_EVENT_TYPE.TASK_EXPIRED,
+  [TASK_STATUS.CANCELLED]: WEBHOOK_EVENT_TYPE.TASK_CANCELLED,
+};
+
+@Injectable()
+export class TasksService {
+  private readonly logger = new Logger(TasksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+    private readonly taskEventsService: TaskEventsService,
+    private readonly webhooksService: WebhooksService,
+    private readonly messageQueueService: MessageQueueService,
+    private readonly vkTeamsClient: VkTeamsClient,
+  ) {
+    this.messageQueueService.onOutcome(NOTIFICATION_MESSAGE_KIND, (outcome) =>
+      this.handleNotificationOutcome(outcome),
+    );
+  }
+
+  async createTask(input: CreateTaskInput): Promise<TaskWithRoute> {
+    if (input.steps.length === 0) {
+      throw new Error('Маршрут согласования не содержит шагов');
+    }
+
+    // Approvers of the first step who are out of office are replaced right
+    // away; later steps are checked when they become current.
+    const now = new Date();
+    const firstStepApprovers = new Map<string, string[]>();
+    for (const vkId of input.steps[0].approvers) {
+      const chain = await this.getSubstitutionChain(vkId, now);
+      const userVkId = chain.pop()!;
+      if (!firstStepApprovers.has(userVkId)) {
+        firstStepApprovers.set(userVkId, chain);
+      }
+    }
+    const delegations = [...firstStepApprovers].flatMap(([userVkId, chain]) =>
+      chain.map((from, index) => ({
+        type: TASK_EVENT_TYPE.DELEGATED,
+        payload: {
+          from,
+          to: chain[index + 1] ?? userVkId,
+          reason: DELEGATION_REASON.OUT_OF_OFFICE,
+          step: 0,
+        },
+      })),
+    );
+
+    const task = await this.prisma.task.create({
+      data: {
+        chatId: input.chatId,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        text: input.text,
+        fileId: input.fileId,
+        fileCaption: input.fileCaption,
+        status: TASK_STATUS.PENDING,
+        currentStep: 0,
+        remindInterval: input.remindInterval,
+        lastRemind: now,
+        deadline: input.deadline,
+        escalationPolicy: input.escalationPolicy,
+        backupApproverVkId: input.backupApproverVkId,
+        steps: {
+          create: input.steps.map((step, index) => ({
+            order: index,
+            rule: step.groupChatId ? STEP_RULE.QUORUM : step.rule,
+            groupChatId: step.groupChatId,
+            quorum: step.groupChatId ? (step.quorum ?? 1) : null,
+            status: index === 0 ? STEP_STATUS.PENDING : STEP_STATUS.WAITING,
+            approvers: {
+              create:
+                index === 0
+                  ? [...firstStepApprovers].map(
+                      ([userVkId, delegatedFrom]) => ({
+                        userVkId,
+                        delegatedFrom,
+                      }),
+                    )
+                  : step.approvers.map((userVkId) => ({ userVkId })),
+            },
+          })),
+        },
+        events: {
+          create: [
+            {
+              type: TASK_EVENT_TYPE.CREATED,
+              actorVkId: input.chatId,
+              payload: { steps: input.steps.length },
+            },
+            ...delegations,
+          ],
+        },
+      },
+      include: TASK_WITH_ROUTE,
+    });
+
+    this.logger.log(
+      `Task ${task.id} created with ${task.steps.length} approval step(s)`,
+    );
+    await this.webhooksService.enqueueTaskEvent(
+      WEBHOOK_EVENT_TYPE.TASK_CREATED,
+      task.id,
+      input.chatId,
+    );
+    return task;
+  }
+
+  async findTaskWithRoute(taskId: string): Promise<TaskWithRoute | null> {
+    return this.prisma.task.findUnique({
+      where: { id: taskId },
+      include: TASK_WITH_ROUTE,
+    });
+  }
+
+  /**
+   * Lists tasks newest first. The cursor is the id of the last task of the
+   * previous page.
+   */
+  async listTasks(filter: ListTasksFilter): Promise<TaskPage> {
+    const where: Prisma.TaskWhereInput = {
+      status: filter.status,
+      chatId: filter.authorVkId,
+      createdAt: {
+        gte: filter.createdFrom,
+        lte: filter.createdTo,
+      },
+      ...(filter.approverVkId && {
+        steps: {
+          some: { approvers: { some: { userVkId: filter.approverVkId } } },
+        },
+      }),
+      ...(filter.awaitingVkId && {
+        AND: {
+          status: TASK_STATUS.PENDING,
+          steps: {
+            some: {
+              status: STEP_STATUS.PENDING,
+              approvers: {
+                some: { userVkId: filter.awaitingVkId, decision: null },
+              },
+            },
+          },
+        },
+      }),
+      ...(filter.visibleTo && {
+        OR: [
+          { chatId: { in: filter.visibleTo } },
+          {
+            steps: {
+              some: {
+                approvers: { some: { userVkId: { in: filter.visibleTo } } },
+              },
+            },
+          },
+        ],
+      }),
+    };
+
+    const tasks = await this.prisma.task.findMany({
+      where,
+      include: TASK_WITH_ROUTE,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: filter.limit + 1,
+      ...(filter.offset && { skip: filter.offset }),
+      ...(filter.cursor && { cursor: { id: filter.cursor }, skip: 1 }),
+    });
+
+    const hasMore = tasks.length > filter.limit;
+    const items = hasMore ? tasks.slice(0, filter.limit) : tasks;
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    };
+  }
+
+  async findUser(vkId: string): Promise<User | null> {
+    return this.prisma.user.findUnique({ where: { vkId } });
+  }
+
+  async findUnknownUsers(vkIds: string[]): Promise<string[]> {
+    const users = await this.prisma.user.findMany({
+      where: { vkId: { in: vkIds } },
+      select: { vkId: true },
+    });
+    return vkIds.filter((vkId) => !users.some((user) => user.vkId === vkId));
+  }
+
+  /**
+   * Members of a group chat, or null if the bot cannot see the chat.
+   */
+  async getGroupMembers(chatId: string): Promise<string[] | null> {
+    try {
+      return await this.vkTeamsClient.getChatMembers(chatId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to get members of chat ${chatId}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  async cancelTask(taskId: string, actorVkId: string): Promise<CancelResult> {
+    const task = await this.prisma.task.findUnique({ where: { id: taskId } });
+    if (!task) {
+      return { result: 'NOT_FOUND' };
+    }
+    if (task.chatId !== actorVkId) {
+      return { result: 'NOT_AUTHOR' };
+    }
+
+    const { count } = await this.prisma.$transaction(async (tx) => {
+      const update = await tx.task.updateMany({
+        where: { id: taskId, status: TASK_STATUS.PENDING },
+        data: { status: TASK_STATUS.CANCELLED },
+      });
+      if (update.count > 0) {
+        await this.recordStatusChange(
+          tx,
+          taskId,
+          actorVkId,
+          TASK_STATUS.CANCELLED,
+        );
+      }
+      return update;
+    });
+
+    if (count === 0) {
+      return { result: 'NOT_PENDING', status: task.status };
+    }
+
+    this.logger.log(`Task ${taskId} cancelled by ${actorVkId}`);
+    await this.notifyApprovers(taskId, [], (cancelled, recipients) =>
+      this.notificationsService.notifyTaskCancelled(cancelled, recipients),
+    );
+    return { result: 'CANCELLED' };
+  }
+
+  /**
+   * Lets the author change a pending task as long as nobody has decided on
+   * it yet. The edit is recorded with old and new values, and the approvers
+   * of the current step are shown the difference.
+   */
+  async editTask(
+    taskId: string,
+    actorVkId: string,
+    input: EditTaskInput,
+  ): Promise<EditResult> {
+    const result = await this.runSerializable(
+      async (tx): Promise<EditResult> => {
+        const task = await tx.task.findUnique({
+          where: { id: taskId },
+          include: TASK_WITH_ROUTE,
+        });
+
+        if (!task) {
+          return { result: 'NOT_FOUND' };
+        }
+        if (task.chatId !== actorVkId) {
+          return { result: 'NOT_AUTHOR' };
+        }
+        if (task.status !== TASK_STATUS.PENDING) {
+          return { result: 'NOT_PENDING', status: task.status };
+        }
+        if (
+          task.steps.some((step) =>
+            step.approvers.some((approver) => approver.decision),
+          )
+        ) {
+          return { result: 'HAS_DECISIONS' };
+        }
+
+        const changes: TaskChanges = {};
+        const data: Prisma.TaskUpdateInput = {};
+        for (const field of [
+          'text',
+          'fileId',
+          'fileCaption',
+          'remindInterval',
+        ] as const) {
+          const value = input[field];
+          if (value !== undefined && value !== task[field]) {
+            changes[field] = { from: task[field] ?? null, to: value };
+            data[field] = value;
+          }
+        }
+
+        if (input.replaceApprover) {
+          const { from, to } = input.replaceApprover;
+          const step = task.steps.find((item) =>
+            item.approvers.some((approver) => approver.userVkId === from),
+          );
+          if (!step) {
+            return { result: 'NOT_IN_ROUTE' };
+          }
+          if (from !== to) {
+            await this.reassignApprovers(tx, step.id, new Map([[from, to]]));
+            changes.approver = { from, to };
+            // The new approver is reminded right away instead of after a
+            // full interval.
+            data.lastRemind = new Date();
+          }
+        }
+
+        if (Object.keys(changes).length === 0) {
+          return { result: 'NO_CHANGES' };
+        }
+
+        await tx.task.update({ where: { id: task.id }, data });
+        await this.taskEventsService.record(
+          {
+            taskId: task.id,
+            type: TASK_EVENT_TYPE.EDITED,
+            actorVkId,
+            payload: { changes },
+          },
+          tx,
+        );
+        await this.webhooksService.enqueueTaskEvent(
+          WEBHOOK_EVENT_TYPE.TASK_UPDATED,
+          task.id,
+          actorVkId,
+          tx,
+        );
+        return { result: 'EDITED', changes };
+      },
+    );
+
+    if (result.result === 'EDITED') {
+      this.logger.log(`Task ${taskId} edited by ${actorVkId}`);
+      const replaced = result.changes.approver
+        ? [String(result.changes.approver.from)]
+        : [];
+      await this.notifyApprovers(taskId, replaced, (edited, recipients) =>
+        this.notificationsService.notifyTaskEdited(
+          edited,
+          result.changes,
+          recipients,
+        ),
+      );
+    }
+    return result;
+  }
+
+  async findTasksDueForReminder(now: Date): Promise<TaskWithRoute[]> {
+    return this.prisma.task.findMany({
+      where: {
+        status: TASK_STATUS.PENDING,
+        lastRemind: {
+          lt: now,
+        },
+      },
+      include: TASK_WITH_ROUTE,
+    });
+  }
+
+  getCurrentStep(task: TaskWithRoute) {
+    return task.steps.find((step) => step.order === task.currentStep) ?? null;
+  }
+
+  /**
+   * Approvers of the current step who have not decided yet. Only these
+   * people are reminded about the task.
+   */
+  getAwaitingApprovers(task: TaskWithRoute): string[] {
+    if (task.status !== TASK_STATUS.PENDING) {
+      return [];
+    }
+
+    const step = this.getCurrentStep(task);
+    if (!step) {
+      return [];
+    }
+
+    return step.approvers
+      .filter((approver) => !approver.decision)
+      .map((approver) => approver.userVkId);
+  }
+
+  /**
+   * Chats that should receive the approval card of the current step: the
+   * group chat of a group step, otherwise the awaiting approvers.
+   */
+  getReminderRecipients(task: TaskWithRoute): string[] {
+    const step = this.getCurrentStep(task);
+    if (task.status === TASK_STATUS.PENDING && step?.groupChatId) {
+      return [step.groupChatId];
+    }
+    return this.getAwaitingApprovers(task);
+  }
+
+  /**
+   * An approver is due once a full reminder interval has passed since the
+   * last reminder they personally received. For a group step the group chat
+   * is the recipient.
+   */
+  isApproverDueForReminder(
+    task: TaskWithRoute,
+    approverVkId: string,
+    now: Date,
+  ): boolean {
+    const step = this.getCurrentStep(task);
+    const lastRemindedAt =
+      step?.groupChatId === approverVkId
+        ? step.groupRemindedAt
+        : step?.approvers.find((item) => item.userVkId === approverVkId)
+            ?.lastRemindedAt;
+    if (!lastRemindedAt) {
+      return true;
+    }
+    return (
+      lastRemindedAt.getTime() + task.remindInterval * 60 * 1000 <=
+      now.getTime()
+    );
+  }
+
+  async markApproverReminded(
+    taskId: string,
+    stepOrder: number,
+    approverVkId: string,
+    remindedAt: Date,
+  ): Promise<void> {
+    await this.prisma.approvalStep.updateMany({
+      where: { taskId, order: stepOrder, groupChatId: approverVkId },
+      data: { groupRemindedAt: remindedAt },
+    });
+    await this.prisma.stepApprover.updateMany({
+      where: {
+        userVkId: approverVkId,
+        step: { taskId, order: stepOrder },
+      },
+      data: { lastRemindedAt: remindedAt },
+    });
+  }
+
+  /**
+   * Returns the reason the user cannot decide on the task right now, or null
+   * if a decision would be accepted. Used to validate a button press before
+   * asking the approver for a rejection reason.
+   */
+  async checkCanDecide(
+    taskId: string,
+    approverVkId: string,
+  ): Promise<DecisionResult | null> {
+    const task = await this.findTaskWithRoute(taskId);
+    return (
+      this.findDecisionBlocker(task, approverVkId) ??
+      (await this.checkGroupMembership(task!, approverVkId))
+    );
+  }
+
+  async decide(
+    taskId: string,
+    approverVkId: string,
+    decision: string,
+    comment?: string,
+  ): Promise<DecisionResult> {
+    if (decision === APPROVER_DECISION.REJECTED && !comment?.trim()) {
+      throw new Error('Для отклонения задачи требуется причина');
+    }
+
+    const current = await this.findTaskWithRoute(taskId);
+    const currentGroupChatId =
+      current && this.getCurrentStep(current)?.groupChatId;
+    const groupMembers = currentGroupChatId
+      ? await this.getGroupMembers(currentGroupChatId)
+      : null;
+    if (currentGroupChatId && !groupMembers?.includes(approverVkId)) {
+      return { result: 'NOT_GROUP_MEMBER' };
+    }
+
+    let groupChatId: string | null = null;
+    const result = await this.runSerializable(
+      async (tx): Promise<DecisionResult> => {
+        const task = await tx.task.findUnique({
+          where: { id: taskId },
+          include: TASK_WITH_ROUTE,
+        });
+
+        if (!task) {
+          return { result: 'NOT_FOUND' };
+        }
+
+        const blocker = this.findDecisionBlocker(task, approverVkId);
+        if (blocker) {
+          return blocker;
+        }
+
+        const step = this.getCurrentStep(task)!;
+        groupChatId = step.groupChatId;
+        // Members of a group step become approvers when they decide.
+        const approver = step.groupChatId
+          ? await tx.stepApprover.create({
+              data: { stepId: step.id, userVkId: approverVkId },
+            })
+          : step.approvers.find((item) => item.userVkId === approverVkId)!;
+
+        await tx.stepApprover.update({
+          where: { id: approver.id },
+          data: { decision, comment: comment?.trim(), decidedAt: new Date() },
+        });
+        await this.taskEventsService.record(
+          {
+            taskId: task.id,
+            type: TASK_EVENT_TYPE.DECISION,
+            actorVkId: approverVkId,
+            payload: {
+              decision,
+              step: step.order,
+              ...(comment?.trim() && { comment: comment.trim() }),
+            },
+          },
+          tx,
+        );
+
+        const decisions = [
+          ...step.approvers
+            .filter((item) => item.id !== approver.id)
+            .map((item) => item.decision),
+          decision,
+        ];
+        const stepStatus = this.resolveStepStatus(
+          step.rule,
+          decisions,
+          step.quorum,
+          !step.groupChatId
+            ? step.approvers.length
+            : step.groupChatId === currentGroupChatId
+              ? groupMembers?.length
+              : undefined,
+        );
+
+        if (stepStatus === STEP_STATUS.PENDING) {
+          return { result: 'RECORDED', stepOrder: step.order };
+        }
+
+        await tx.approvalStep.update({
+          where: { id: step.id },
+          data: { status: stepStatus },
+        });
+
+        if (stepStatus === STEP_STATUS.REJECTED) {
+          await tx.task.update({
+            where: { id: task.id },
+            data: {
+              status: TASK_STATUS.REJECTED,
+              rejectReason: comment?.trim(),
+            },
+          });
+          await this.recordStatusChange(
+            tx,
+            task.id,
+            approverVkId,
+            TASK_STATUS.REJECTED,
+          );
+          return { result: 'REJECTED' };
+        }
+
+        const nextStep = task.steps.find(
+          (item) => item.order === step.order + 1,
+        );
+
+        if (!nextStep) {
+          await tx.task.update({
+            where: { id: task.id },
+            data: { status: TASK_STATUS.APPROVED },
+          });
+          await this.recordStatusChange(
+            tx,
+            task.id,
+            approverVkId,
+            TASK_STATUS.APPROVED,
+          );
+          return { result: 'APPROVED', stepOrder: step.order };
+        }
+
+        await tx.approvalStep.update({
+          where: { id: nextStep.id },
+          data: { status: STEP_STATUS.PENDING },
+        });
+        // Moving lastRemind to now makes the reminder loop notify the next
+        // step's approvers on its next pass.
+        await tx.task.update({
+          where: { id: task.id },
+          data: { currentStep: nextStep.order, lastRemind: new Date() },
+        });
+        await this.taskEventsService.record(
+          {
+            taskId: task.id,
+            type: TASK_EVENT_TYPE.STEP_ADVANCED,
+            actorVkId: approverVkId,
+            payload: { from: step.order, to: nextStep.order },
+          },
+          tx,
+        );
+        await this.webhooksService.enqueueTaskEvent(
+          WEBHOOK_EVENT_TYPE.TASK_STEP_ADVANCED,
+          task.id,
+          approverVkId,
+          tx,
+        );
+        return {
+          result: 'STEP_APPROVED',
+          stepOrder: step.order,
+          nextStepOrder: nextStep.order,
+        };
+      },
+    );
+
+    await this.notifyAuthor(taskId, approverVkId, result);
+    if (groupChatId) {
+      await this.notifyGroup(taskId, groupChatId, approverVkId, result);
+    }
+    return result;
+  }
+
+  /**
+   * Applies the escalation policy of every pending task whose deadline has
+   * passed. A task is escalated only once.
+   */
+  async escalateOverdueTasks(now: Date): Promise<void> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        status: TASK_STATUS.PENDING,
+        deadline: { lt: now },
+        escalatedAt: null,
+      },
+      include: TASK_WITH_ROUTE,
+    });
+
+    for (const task of tasks) {
+      try {
+        await this.escalateTask(task, now);
+      } catch (error) {
+        this.logger.error(
+          `Failed to escalate task ${task.id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Attaches a comment to the approval the approver gave on the given step
+   * of the task. Returns false if there is no such approval; a rejection
+   * keeps its reason.
+   */
+  async addComment(
+    taskId: string,
+    approverVkId: string,
+    stepOrder: number,
+    comment: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.stepApprover.updateMany({
+      where: {
+        userVkId: approverVkId,
+        decision: APPROVER_DECISION.APPROVED,
+        step: { taskId, order: stepOrder },
+      },
+      data: { comment: comment.trim() },
+    });
+
+    if (count > 0) {
+      await this.taskEventsService.record({
+        taskId,
+        type: TASK_EVENT_TYPE.COMMENT_ADDED,
+        actorVkId: approverVkId,
+        payload: { comment: comment.trim() },
+      });
+    }
+    return count > 0;
+  }
+
+  /**
+   * Forwards an undecided approval of the current step to another user. The
+   * new approver keeps the chain of users the approval passed through.
+   */
+  async delegate(
+    taskId: string,
+    fromVkId: string,
+    toVkId: string,
+    reason = DELEGATION_REASON.MANUAL,
+  ): Promise<DelegationResult> {
+    const result = await this.runSerializable(
+      async (tx): Promise<DelegationResult> => {
+        const task = await tx.task.findUnique({
+          where: { id: taskId },
+          include: TASK_WITH_ROUTE,
+        });
+
+        const blocker = this.findDecisionBlocker(task, fromVkId);
+        if (blocker) {
+          return blocker;
+        }
+        if (fromVkId === toVkId) {
+          return { result: 'SAME_USER' };
+        }
+
+        const step = this.getCurrentStep(task!)!;
+        if (step.groupChatId) {
+          return { result: 'NOT_APPROVER' };
+        }
+        if (step.approvers.some((item) => item.userVkId === toVkId)) {
+          return { result: 'ALREADY_APPROVER' };
+        }
+        const approver = step.approvers.find(
+          (item) => item.userVkId === fromVkId,
+        )!;
+
+        await this.reassignApprovers(
+          tx,
+          step.id,
+          new Map([[fromVkId, toVkId]]),
+        );
+        // The new approver is reminded right away instead of after a full
+        // interval.
+        await tx.task.update({
+          where: { id: taskId },
+          data: { lastRemind: new Date() },
+        });
+        const actorVkId = reason === DELEGATION_REASON.MANUAL ? fromVkId : null;
+        await this.taskEventsService.record(
+          {
+            taskId,
+            type: TASK_EVENT_TYPE.DELEGATED,
+            actorVkId,
+            payload: { from: fromVkId, to: toVkId, reason, step: step.order },
+          },
+          tx,
+        );
+        await this.webhooksService.enqueueTaskEvent(
+          WEBHOOK_EVENT_TYPE.TASK_DELEGATED,
+          taskId,
+          actorVkId,
+          tx,
+        );
+        return {
+          result: 'DELEGATED',
+          chain: [...approver.delegatedFrom, fromVkId, toVkId],
+        };
+      },
+    );
+
+    if (result.result === 'DELEGATED') {
+      this.logger.log(
+        `Task ${taskId} forwarded from ${fromVkId} to ${toVkId} (${reason})`,
+      );
+      try {
+        const task = await this.findTaskWithRoute(taskId);
+        if (task) {
+          await this.notificationsService.notifyDelegation(
+            task,
+            fromVkId,
+            toVkId,
+            reason,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify author of task ${taskId}: ${error.message}`,
+        );
+        await this.taskEventsService.record({
+          taskId,
+          type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+          payload: { kind: 'authorNotification', error: error.message },
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Sets or clears (with null) the absence of a user. Approvals the user is
+   * holding are forwarded at once if the absence has already started.
+   */
+  async setOutOfOffice(
+    vkId: string,
+    input: OutOfOfficeInput | null,
+  ): Promise<User> {
+    const user = await this.prisma.user.update({
+      where: { vkId },
+      data: {
+        outOfOfficeFrom: input?.from ?? null,
+        outOfOfficeUntil: input?.until ?? null,
+        substituteVkId: input?.substituteVkId ?? null,
+      },
+    });
+    if (input) {
+      await this.forwardOutOfOfficeApprovals(new Date());
+    }
+    return user;
+  }
+
+  isOutOfOffice(user: User, now: Date): boolean {
+    return (
+      !!user.substituteVkId &&
+      !!user.outOfOfficeFrom &&
+      !!user.outOfOfficeUntil &&
+      user.outOfOfficeFrom <= now &&
+      now <= user.outOfOfficeUntil
+    );
+  }
+
+  /**
+   * Forwards undecided approvals of the current steps from users who are
+   * out of office to their substitutes. Runs with the reminder loop, so a
+   * task reaches the substitute as soon as the absence starts or the task
+   * moves to a step of an absent user.
+   */
+  async forwardOutOfOfficeApprovals(now: Date): Promise<void> {
+    const absentUsers = await this.prisma.user.findMany({
+      where: {
+        substituteVkId: { not: null },
+        outOfOfficeFrom: { lte: now },
+        outOfOfficeUntil: { gte: now },
+      },
+      select: { vkId: true },
+    });
+    if (absentUsers.length === 0) {
+      return;
+    }
+
+    const approvals = await this.prisma.stepApprover.findMany({
+      where: {
+        userVkId: { in: absentUsers.map((user) => user.vkId) },
+        decision: null,
+        step: {
+          status: STEP_STATUS.PENDING,
+          task: { status: TASK_STATUS.PENDING },
+        },
+      },
+      include: { step: { select: { taskId: true } } },
+    });
+
+    for (const approval of approvals) {
+      const chain = await this.getSubstitutionChain(approval.userVkId, now);
+      try {
+        // Every hop is recorded, so the route shows each absent user the
+        // task passed through.
+        for (let index = 0; index < chain.length - 1; index++) {
+          const delegation = await this.delegate(
+            approval.step.taskId,
+            chain[index],
+            chain[index + 1],
+            DELEGATION_REASON.OUT_OF_OFFICE,
+          );
+          if (delegation.result !== 'DELEGATED') {
+            break;
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to forward task ${approval.step.taskId} from ${approval.userVkId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async escalateTask(task: TaskWithRoute, now: Date): Promise<void> {
+    const policy = task.escalationPolicy || ESCALATION_POLICY.NOTIFY_AUTHOR;
+    const step = this.getCurrentStep(task);
+    const pendingIds = this.getAwaitingApprovers(task);
+    const replacements = new Map<string, string>();
+
+    if (policy === ESCALATION_POLICY.BACKUP_APPROVER) {
+      if (task.backupApproverVkId) {
+        for (const id of pendingIds) {
+          replacements.set(id, task.backupApproverVkId);
+        }
+      }
+    } else if (policy === ESCALATION_POLICY.MANAGER) {
+      const approvers = await this.prisma.user.findMany({
+        where: { vkId: { in: pendingIds } },
+      });
+      for (const approver of approvers) {
+        if (approver.managerVkId && approver.managerVkId !== approver.vkId) {
+          replacements.set(approver.vkId, approver.managerVkId);
+        }
+      }
+    }
+
+    const expire = policy === ESCALATION_POLICY.EXPIRE;
+
+    const escalated = await this.prisma.$transaction(async (tx) => {
+      // The task may have been decided, or moved on to the next step, since
+      // it was loaded; then it is left alone.
+      const { count } = await tx.task.updateMany({
+        where: {
+          id: task.id,
+          status: TASK_STATUS.PENDING,
+          currentStep: task.currentStep,
+          escalatedAt: null,
+        },
+        // A re-routed task is reminded right away so the new approvers
+        // learn about it without waiting for the next interval.
+        data: expire
+          ? { status: TASK_STATUS.EXPIRED, escalatedAt: now }
+          : {
+              escalatedAt: now,
+              ...(replacements.size > 0 && { lastRemind: now }),
+            },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      if (expire) {
+        await this.recordStatusChange(tx, task.id, null, TASK_STATUS.EXPIRED);
+      } else if (step && replacements.size > 0) {
+        await this.reassignApprovers(tx, step.id, replacements);
+      }
+
+      await this.taskEventsService.record(
+        {
+          taskId: task.id,
+          type: TASK_EVENT_TYPE.ESCALATED,
+          payload: {
+            policy,
+            reassigned: Object.fromEntries(replacements),
+          },
+        },
+        tx,
+      );
+      if (!expire) {
+        await this.webhooksService.enqueueTaskEvent(
+          WEBHOOK_EVENT_TYPE.TASK_ESCALATED,
+          task.id,
+          null,
+          tx,
+        );
+      }
+      return true;
+    });
+
+    if (!escalated) {
+      this.logger.log(`Task ${task.id} changed before escalation, skipped`);
+      return;
+    }
+    this.logger.log(`Task ${task.id} escalated with policy ${policy}`);
+
+    try {
+      await this.notificationsService.notifyEscalation(task, expire, [
+        ...new Set(replacements.values()),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify author of task ${task.id}: ${error.message}`,
+      );
+      await this.taskEventsService.record({
+        taskId: task.id,
+        type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+        payload: { kind: 'authorNotification', error: error.message },
+      });
+    }
+  }
+
+  /**
+   * Replaces undecided approvers of a step. Keys of the map are the current
+   * approvers, values are the users who take over. Several approvers may be
+   * replaced by the same user. A new approver inherits the delegation chain
+   * of the approver they replace.
+   */
+  private async reassignApprovers(
+    tx: Prisma.TransactionClient,
+    stepId: string,
+    replacements: Map<string, string>,
+  ): Promise<void> {
+    const replaced = await tx.stepApprover.findMany({
+      where: {
+        stepId,
+        decision: null,
+        userVkId: { in: [...replacements.keys()] },
+      },
+    });
+    await tx.stepApprover.deleteMany({
+      where: { id: { in: replaced.map((approver) => approver.id) } },
+    });
+
+    for (const userVkId of new Set(replacements.values())) {
+      const previous = replaced.find(
+        (approver) => replacements.get(approver.userVkId) === userVkId,
+      );
+      await tx.stepApprover.upsert({
+        where: { stepId_userVkId: { stepId, userVkId } },
+        update: {},
+        create: {
+          stepId,
+          userVkId,
+          delegatedFrom: previous
+            ? [...previous.delegatedFrom, previous.userVkId]
+            : [],
+        },
+      });
+    }
+  }
+
+  /**
+   * Follows out-of-office substitutes starting from the given user. The
+   * last element is who handles the user's approvals right now; the chain
+   * stops before it would come back to a user already in it.
+   */
+  private async getSubstitutionChain(
+    vkId: string,
+    now: Date,
+  ): Promise<string[]> {
+    const chain = [vkId];
+    for (;;) {
+      const user = await this.findUser(chain[chain.length - 1]);
+      if (
+        !user ||
+        !this.isOutOfOffice(user, now) ||
+        chain.includes(user.substituteVkId!)
+      ) {
+        return chain;
+      }
+      chain.push(user.substituteVkId!);
+    }
+  }
+
+  /**
+   * Sends a notification to the approvers of the current step plus the
+   * given extra recipients. Failures are recorded on the task timeline.
+   */
+  private async notifyApprovers(
+    taskId: string,
+    extraRecipients: string[],
+    send: (task: TaskWithRoute, recipients: string[]) => Promise<void>,
+  ): Promise<void> {
+    try {
+      const task = await this.findTaskWithRoute(taskId);
+      if (!task) {
+        return;
+      }
+      const step = this.getCurrentStep(task);
+      const recipients = new Set([
+        ...(step?.approvers ?? []).map((approver) => approver.userVkId),
+        ...(step?.groupChatId ? [step.groupChatId] : []),
+        ...extraRecipients,
+      ]);
+      await send(task, [...recipients]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify approvers of task ${taskId}: ${error.message}`,
+      );
+      await this.taskEventsService.record({
+        taskId,
+        type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+        payload: { kind: 'approverNotification', error: error.message },
+      });
+    }
+  }
+
+  /**
+   * Posts a member's decision to the group chat of the step, so the other
+   * members see who decided and how far the quorum is.
+   */
+  private async notifyGroup(
+    taskId: string,
+    groupChatId: string,
+    memberVkId: string,
+    decision: DecisionResult,
+  ): Promise<void> {
+    try {
+      const task = await this.findTaskWithRoute(taskId);
+      if (task) {
+        await this.notificationsService.notifyGroupDecision(
+          task,
+          groupChatId,
+          memberVkId,
+          decision,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify group ${groupChatId} of task ${taskId}: ${error.message}`,
+      );
+      await this.taskEventsService.record({
+        taskId,
+        type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+        payload: {
+          kind: 'groupNotification',
+          recipient: groupChatId,
+          error: error.message,
+        },
+      });
+    }
+  }
+
+  private async notifyAuthor(
+    taskId: string,
+    approverVkId: string,
+    decision: DecisionResult,
+  ): Promise<void> {
+    try {
+      const task = await this.findTaskWithRoute(taskId);
+      if (task) {
+        await this.notificationsService.notifyDecision(
+          task,
+          decision,
+          approverVkId,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify author of task ${taskId}: ${error.message}`,
+      );
+      await this.taskEventsService.record({
+        taskId,
+        type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+        payload: { kind: 'authorNotification', error: error.message },
+      });
+    }
+  }
+
+  /**
+   * Notifications are queued, so a failed delivery only becomes known once
+   * the queue gives up on the message.
+   */
+  private async handleNotificationOutcome({
+    outcome,
+    message,
+    error,
+  }: MessageOutcome): Promise<void> {
+    const taskId = message.context?.taskId;
+    if (outcome !== MESSAGE_OUTCOME.DROPPED || typeof taskId !== 'string') {
+      return;
+    }
+
+    await this.taskEventsService.record({
+      taskId,
+      type: TASK_EVENT_TYPE.DELIVERY_FAILED,
+      payload: {
+        kind: 'notification',
+        notification: message.context.type,
+        recipient: message.chatId,
+        error,
+      },
+    });
+  }
+
+  /**
+   * Runs a serializable transaction, retrying it a few times when it loses
+   * a write conflict to a concurrent one.
+   */
+  private async runSerializable<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma.$transaction(fn, {
+          isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        });
+      } catch (error) {
+        if (
+          !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+          error.code !== 'P2034' ||
+          attempt >= SERIALIZATION_ATTEMPTS
+        ) {
+          throw error;
+        }
+        this.logger.warn(`Write conflict, retrying (attempt ${attempt})`);
+        await new Promise((resolve) =>
+          setTimeout(resolve, SERIALIZATION_RETRY_DELAY * attempt),
+        );
+      }
+    }
+  }
+
+  private async recordStatusChange(
+    tx: Prisma.TransactionClient,
+    taskId: string,
+    actorVkId: string | null,
+    status: string,
+  ): Promise<void> {
+    await this.taskEventsService.record(
+      {
+        taskId,
+        type: TASK_EVENT_TYPE.STATUS_CHANGED,
+        actorVkId,
+        payload: { from: TASK_STATUS.PENDING, to: status },
+      },
+      tx,
+    );
+    await this.webhooksService.enqueueTaskEvent(
+      STATUS_WEBHOOK_EVENTS[status],
+      taskId,
+      actorVkId,
+      tx,
+    );
+  }
+
+  private findDecisionBlocker(
+    task: TaskWithRoute | null,
+    approverVkId: string,
+  ): DecisionBlocker | null {
+    if (!task) {
+      return { result: 'NOT_FOUND' };
+    }
+    if (task.status !== TASK_STATUS.PENDING) {
+      return { result: 'NOT_PENDING', status: task.status };
+    }
+
+    const step = this.getCurrentStep(task);
+    const approver = step?.approvers.find(
+      (item) => item.userVkId === approverVkId,
+    );
+
+    if (!approver) {
+      // Any member of the group may decide on a group step; membership is
+      // checked separately since it needs the messenger.
+      return step?.groupChatId ? null : { result: 'NOT_APPROVER' };
+    }
+    if (approver.decision) {
+      return { result: 'ALREADY_DECIDED', decision: approver.decision };
+    }
+    return null;
+  }
+
+  /**
+   * Returns NOT_GROUP_MEMBER if the current step of the task is decided in a
+   * group chat the user is not a member of.
+   */
+  private async checkGroupMembership(
+    task: TaskWithRoute | null,
+    vkId: string,
+  ): Promise<DecisionBlocker | null> {
+    const groupChatId = task && this.getCurrentStep(task)?.groupChatId;
+    if (!groupChatId) {
+      return null;
+    }
+    const members = await this.getGroupMembers(groupChatId);
+    return members?.includes(vkId) ? null : { result: 'NOT_GROUP_MEMBER' };
+  }
+
+  /**
+   * Status of a step after a decision. On ALL and ANY steps a single
+   * rejection rejects the step. A QUORUM step is only rejected once the
+   * members who have not decided yet could no longer make up the quorum; if
+   * the size of the group is unknown, it waits for the quorum. The group of
+   * a step without a group chat is its approvers.
+   */
+  resolveStepStatus(
+    rule: string,
+    decisions: (string | null)[],
+    quorum: number | null,
+    groupSize?: number,
+  ): string {
+    const approvedCount = decisions.filter(
+      (decision) => decision === APPROVER_DECISION.APPROVED,
+    ).length;
+
+    if (rule === STEP_RULE.QUORUM) {
+      const required = quorum ?? 1;
+      if (approvedCount >= required) {
+        return STEP_STATUS.APPROVED;
+      }
+      const undecided =
+        groupSize === undefined
+          ? Infinity
+          : Math.max(groupSize - decisions.length, 0);
+      return approvedCount + undecided < required
+        ? STEP_STATUS.REJECTED
+        : STEP_STATUS.PENDING;
+    }
+
+    if (decisions.includes(APPROVER_DECISION.REJECTED)) {
+      return STEP_STATUS.REJECTED;
+    }
+
+    let approved: boolean;
+    if (rule === STEP_RULE.ANY) {
+      approved = approvedCount > 0;
+    } else {
+      approved = approvedCount === decisions.length;
+    }
+
+    return approved ? STEP_STATUS.APPROVED : STEP_STATUS.PENDING;
+  }
+}
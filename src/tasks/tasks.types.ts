@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client';
+import { MessageKey } from 'src/i18n/i18n.types';
+
+export const TASK_STATUS = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  EXPIRED: 'EXPIRED',
+  CANCELLED: 'CANCELLED',
+};
+
+export const ESCALATION_POLICY = {
+  NOTIFY_AUTHOR: 'NOTIFY_AUTHOR',
+  BACKUP_APPROVER: 'BACKUP_APPROVER',
+  MANAGER: 'MANAGER',
+  EXPIRE: 'EXPIRE',
+};
+
+export const STEP_RULE = {
+  ALL: 'ALL',
+  ANY: 'ANY',
+  /**
+   * Group chat steps: approved once `quorum` members have approved, and
+   * rejected once too few members are left undecided to reach the quorum.
+   */
+  QUORUM: 'QUORUM',
+};
+
+export const STEP_STATUS = {
+  WAITING: 'WAITING',
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+};
+
+export const APPROVER_DECISION = {
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+};
+
+export const DELEGATION_REASON = {
+  MANUAL: 'MANUAL',
+  OUT_OF_OFFICE: 'OUT_OF_OFFICE',
+};
+
+export const TASK_EVENT_TYPE = {
+  CREATED: 'CREATED',
+  REMINDER_SENT: 'REMINDER_SENT',
+  BUTTON_PRESSED: 'BUTTON_PRESSED',
+  DECISION: 'DECISION',
+  COMMENT_ADDED: 'COMMENT_ADDED',
+  STEP_ADVANCED: 'STEP_ADVANCED',
+  STATUS_CHANGED: 'STATUS_CHANGED',
+  DELIVERY_FAILED: 'DELIVERY_FAILED',
+  ESCALATED: 'ESCALATED',
+  EDITED: 'EDITED',
+  DELEGATED: 'DELEGATED',
+};
+
+export const TASK_EVENT_LABELS: Record<string, MessageKey> = {
+  [TASK_EVENT_TYPE.CREATED]: 'taskEvent.created',
+  [TASK_EVENT_TYPE.REMINDER_SENT]: 'taskEvent.reminderSent',
+  [TASK_EVENT_TYPE.BUTTON_PRESSED]: 'taskEvent.buttonPressed',
+  [TASK_EVENT_TYPE.DECISION]: 'taskEvent.decision',
+  [TASK_EVENT_TYPE.COMMENT_ADDED]: 'taskEvent.commentAdded',
+  [TASK_EVENT_TYPE.STEP_ADVANCED]: 'taskEvent.stepAdvanced',
+  [TASK_EVENT_TYPE.STATUS_CHANGED]: 'taskEvent.statusChanged',
+  [TASK_EVENT_TYPE.DELIVERY_FAILED]: 'taskEvent.deliveryFailed',
+  [TASK_EVENT_TYPE.ESCALATED]: 'taskEvent.escalated',
+  [TASK_EVENT_TYPE.EDITED]: 'taskEvent.edited',
+  [TASK_EVENT_TYPE.DELEGATED]: 'taskEvent.delegated',
+};
+
+export interface TaskEventInput {
+  taskId: string;
+  type: string;
+  actorVkId?: string | null;
+  payload?: Prisma.InputJsonObject;
+}
+
+export interface RouteStepInput {
+  rule: string;
+  approvers: string[];
+  groupChatId?: string;
+  quorum?: number;
+}
+
+export interface CreateTaskInput {
+  chatId: string;
+  firstName: string;
+  lastName: string;
+  text?: string;
+  fileId?: string;
+  fileCaption?: string;
+  remindInterval: number;
+  deadline?: Date;
+  escalationPolicy?: string;
+  backupApproverVkId?: string;
+  steps: RouteStepInput[];
+}
+
+export interface ListTasksFilter {
+  status?: string;
+  authorVkId?: string;
+  approverVkId?: string;
+  /**
+   * Only pending tasks whose current step waits for this user's decision.
+   */
+  awaitingVkId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  /**
+   * Only tasks authored by or routed to one of these users.
+   */
+  visibleTo?: string[];
+  cursor?: string;
+  /**
+   * Number of tasks to skip, for numbered pages. Ignored with a cursor.
+   */
+  offset?: number;
+  limit: number;
+}
+
+export interface TaskPage {
+  items: TaskWithRoute[];
+  nextCursor: string | null;
+}
+
+export type CancelResult =
+  | { result: 'NOT_FOUND' }
+  | { result: 'NOT_PENDING'; status: string }
+  | { result: 'NOT_AUTHOR' }
+  | { result: 'CANCELLED' };
+
+export interface EditTaskInput {
+  text?: string;
+  fileId?: string;
+  fileCaption?: string;
+  remindInterval?: number;
+  /**
+   * Replaces an approver of the route with another user.
+   */
+  replaceApprover?: { from: string; to: string };
+}
+
+/**
+ * Old and new values of every edited field, keyed by field name. An
+ * approver replacement is stored under `approver`.
+ */
+export type TaskChanges = Record<
+  string,
+  { from: string | number | null; to: string | number | null }
+>;
+
+export type EditResult =
+  | { result: 'NOT_FOUND' }
+  | { result: 'NOT_AUTHOR' }
+  | { result: 'NOT_PENDING'; status: string }
+  | { result: 'HAS_DECISIONS' }
+  | { result: 'NOT_IN_ROUTE' }
+  | { result: 'NO_CHANGES' }
+  | { result: 'EDITED'; changes: TaskChanges };
+
+/**
+ * Reasons an approver cannot act on a task right now.
+ */
+export type DecisionBlocker =
+  | { result: 'NOT_FOUND' }
+  | { result: 'NOT_PENDING'; status: string }
+  | { result: 'NOT_APPROVER' }
+  | { result: 'NOT_GROUP_MEMBER' }
+  | { result: 'ALREADY_DECIDED'; decision: string };
+
+export type DelegationResult =
+  | DecisionBlocker
+  | { result: 'SAME_USER' }
+  | { result: 'ALREADY_APPROVER' }
+  | { result: 'DELEGATED'; chain: string[] };
+
+export interface OutOfOfficeInput {
+  from: Date;
+  until: Date;
+  substituteVkId: string;
+}
+
+export type DecisionResult =
+  | DecisionBlocker
+  | { result: 'RECORDED'; stepOrder: number }
+  | { result: 'STEP_APPROVED'; stepOrder: number; nextStepOrder: number }
+  | { result: 'APPROVED'; stepOrder: number }
+  | { result: 'REJECTED' };
+
+export const TASK_WITH_ROUTE = {
+  steps: {
+    orderBy: { order: 'asc' },
+    include: { approvers: { orderBy: { createdAt: 'asc' } } },
+  },
+} satisfies Prisma.TaskInclude;
+
+export type TaskWithRoute = Prisma.TaskGetPayload<{
+  include: typeof TASK_WITH_ROUTE;
+}>;
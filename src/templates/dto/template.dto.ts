@@ -0,0 +1,41 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { RouteStepDto } from 'src/tasks/dto/create-task.dto';
+
+export class TemplateDto {
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+
+  /**
+   * Text with `{{field}}` placeholders the author fills in.
+   */
+  @IsString()
+  @IsNotEmpty()
+  readonly description: string;
+
+  /**
+   * Default route. Leave empty to let the author choose the approvers.
+   */
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RouteStepDto)
+  readonly steps: RouteStepDto[];
+
+  @IsInt()
+  @Min(1)
+  readonly remindInterval: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  readonly deadlineHours?: number;
+}
@@ -0,0 +1,99 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { TasksService } from 'src/tasks/tasks.service';
+import { TemplatesService } from './templates.service';
+import { TemplateDto } from './dto/template.dto';
+
+@Controller('templates')
+@RequireScopes(API_KEY_SCOPE.ADMIN)
+export class TemplatesController {
+  constructor(
+    private readonly templatesService: TemplatesService,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  @Post()
+  async createTemplate(@Body() dto: TemplateDto) {
+    await this.validate(dto);
+    return this.templatesService.create(this.toInput(dto));
+  }
+
+  @Get()
+  async listTemplates() {
+    return this.templatesService.list();
+  }
+
+  @Get(':id')
+  async getTemplate(@Param('id', ParseUUIDPipe) id: string) {
+    const template = await this.templatesService.findById(id);
+    if (!template) {
+      throw new NotFoundException(`Template ${id} not found`);
+    }
+    return template;
+  }
+
+  @Put(':id')
+  async updateTemplate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: TemplateDto,
+  ) {
+    await this.validate(dto, id);
+    const template = await this.templatesService.update(id, this.toInput(dto));
+    if (!template) {
+      throw new NotFoundException(`Template ${id} not found`);
+    }
+    return template;
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async removeTemplate(@Param('id', ParseUUIDPipe) id: string) {
+    const removed = await this.templatesService.remove(id);
+    if (!removed) {
+      throw new NotFoundException(`Template ${id} not found`);
+    }
+  }
+
+  private async validate(dto: TemplateDto, id?: string) {
+    const existing = await this.templatesService.findByName(dto.name.trim());
+    if (existing && existing.id !== id) {
+      throw new ConflictException(`Template ${dto.name} already exists`);
+    }
+
+    const unknownIds = await this.tasksService.findUnknownUsers(
+      dto.steps.flatMap((step) => (step.groupChatId ? [] : step.approvers)),
+    );
+    if (unknownIds.length > 0) {
+      throw new BadRequestException(`Unknown users: ${unknownIds.join(', ')}`);
+    }
+  }
+
+  private toInput(dto: TemplateDto) {
+    return {
+      name: dto.name,
+      description: dto.description,
+      steps: dto.steps.map((step) => ({
+        rule: step.rule,
+        approvers: step.groupChatId ? [] : [...new Set(step.approvers)],
+        groupChatId: step.groupChatId,
+        quorum: step.quorum,
+      })),
+      remindInterval: dto.remindInterval,
+      deadlineHours: dto.deadlineHours,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { TemplatesService } from './templates.service';
+import { TemplatesController } from './templates.controller';
+
+@Module({
+  imports: [TasksModule],
+  providers: [TemplatesService],
+  controllers: [TemplatesController],
+  exports: [TemplatesService],
+})
+export class TemplatesModule {}
@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApprovalTemplate, Prisma } from '@prisma/client';
+import { PrismaService } from 'src/prisma.service';
+import { RouteStepInput } from 'src/tasks/tasks.types';
+import { TEMPLATE_FIELD_PATTERN, TemplateInput } from './templates.types';
+
+@Injectable()
+export class TemplatesService {
+  private readonly logger = new Logger(TemplatesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(input: TemplateInput): Promise<ApprovalTemplate> {
+    const template = await this.prisma.approvalTemplate.create({
+      data: this.toData(input),
+    });
+    this.logger.log(`Template ${template.id} (${template.name}) created`);
+    return template;
+  }
+
+  async list(): Promise<ApprovalTemplate[]> {
+    return this.prisma.approvalTemplate.findMany({ orderBy: { name: 'asc' } });
+  }
+
+  async findById(id: string): Promise<ApprovalTemplate | null> {
+    return this.prisma.approvalTemplate.findUnique({ where: { id } });
+  }
+
+  async findByName(name: string): Promise<ApprovalTemplate | null> {
+    return this.prisma.approvalTemplate.findUnique({ where: { name } });
+  }
+
+  async update(
+    id: string,
+    input: TemplateInput,
+  ): Promise<ApprovalTemplate | null> {
+    const { count } = await this.prisma.approvalTemplate.updateMany({
+      where: { id },
+      data: this.toData(input),
+    });
+    return count > 0 ? this.findById(id) : null;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const { count } = await this.prisma.approvalTemplate.deleteMany({
+      where: { id },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Names of the placeholders of the description in order of appearance.
+   * Every placeholder is a required field.
+   */
+  getFields(description: string): string[] {
+    return [
+      ...new Set(
+        [...description.matchAll(TEMPLATE_FIELD_PATTERN)].map(
+          (match) => match[1],
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Fills the placeholders with the given values. Returns null while any
+   * field is missing or blank.
+   */
+  render(description: string, values: Record<string, string>): string | null {
+    if (this.getFields(description).some((field) => !values[field]?.trim())) {
+      return null;
+    }
+    return description.replace(TEMPLATE_FIELD_PATTERN, (_, field: string) =>
+      values[field].trim(),
+    );
+  }
+
+  getSteps(template: ApprovalTemplate): RouteStepInput[] {
+    return (template.steps as unknown as RouteStepInput[]) ?? [];
+  }
+
+  private toData(input: TemplateInput) {
+    return {
+      name: input.name.trim(),
+      description: input.description,
+      steps: input.steps as unknown as Prisma.InputJsonArray,
+      remindInterval: input.remindInterval,
+      deadlineHours: input.deadlineHours ?? null,
+    };
+  }
+}
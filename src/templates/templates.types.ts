@@ -0,0 +1,14 @@
+import { RouteStepInput } from 'src/tasks/tasks.types';
+
+/**
+ * Matches `{{field}}` placeholders of a template description.
+ */
+export const TEMPLATE_FIELD_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface TemplateInput {
+  name: string;
+  description: string;
+  steps: RouteStepInput[];
+  remindInterval: number;
+  deadlineHours?: number | null;
+}
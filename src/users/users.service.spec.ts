@@ -0,0 +1,105 @@
+import { User } from '@prisma/client';
+import { ApiKeysService } from 'src/auth/api-keys.service';
+import { PrismaService } from 'src/prisma.service';
+import { UsersService } from './users.service';
+import { USER_ROLE } from './users.types';
+
+function createUser(
+  vkId: string,
+  role: string,
+  department: string | null,
+  overrides: Partial<User> = {},
+): User {
+  return { vkId, role, department, managerVkId: null, ...overrides } as User;
+}
+
+describe('UsersService', () => {
+  let users: User[];
+  let service: UsersService;
+
+  beforeEach(() => {
+    users = [];
+    const prisma = {
+      user: {
+        findUnique: async ({ where }) =>
+          users.find((user) => user.vkId === where.vkId) ?? null,
+        findMany: async ({ where }) =>
+          users.filter((user) => user.department === where.department),
+      },
+    } as unknown as PrismaService;
+    service = new UsersService(prisma, {
+      isAdmin: () => false,
+    } as unknown as ApiKeysService);
+  });
+
+  describe('canAssign', () => {
+    const member = createUser('member', USER_ROLE.MEMBER, 'sales', {
+      managerVkId: 'head',
+    });
+
+    it('lets members assign within their department', () => {
+      expect(
+        service.canAssign(
+          member,
+          createUser('peer', USER_ROLE.MEMBER, 'sales'),
+        ),
+      ).toBe(true);
+      expect(
+        service.canAssign(member, createUser('other', USER_ROLE.MEMBER, 'it')),
+      ).toBe(false);
+    });
+
+    it('lets members assign to the manager set for them', () => {
+      expect(
+        service.canAssign(member, createUser('head', USER_ROLE.MANAGER, 'it')),
+      ).toBe(true);
+    });
+
+    it('lets managers assign to managers of other departments', () => {
+      const manager = createUser('manager', USER_ROLE.MANAGER, 'sales');
+
+      expect(
+        service.canAssign(manager, createUser('head', USER_ROLE.MANAGER, 'it')),
+      ).toBe(true);
+      expect(
+        service.canAssign(manager, createUser('other', USER_ROLE.MEMBER, 'it')),
+      ).toBe(false);
+    });
+  });
+
+  describe('getVisibleUserIds', () => {
+    it('gives a manager the users of their department', async () => {
+      users = [
+        createUser('manager', USER_ROLE.MANAGER, 'sales'),
+        createUser('peer', USER_ROLE.MEMBER, 'sales'),
+        createUser('other', USER_ROLE.MEMBER, 'it'),
+      ];
+
+      expect(await service.getVisibleUserIds('manager')).toEqual(
+        expect.arrayContaining(['manager', 'peer']),
+      );
+      expect(await service.getVisibleUserIds('manager')).not.toContain('other');
+    });
+
+    it('gives a manager without a department only themselves', async () => {
+      users = [
+        createUser('manager', USER_ROLE.MANAGER, null),
+        createUser('loner', USER_ROLE.MEMBER, null),
+      ];
+
+      expect(await service.getVisibleUserIds('manager')).toEqual(['manager']);
+      expect(service.canView(users[0], users[1])).toBe(false);
+    });
+
+    it('gives members only themselves and admins everyone', async () => {
+      users = [
+        createUser('member', USER_ROLE.MEMBER, 'sales'),
+        createUser('admin', USER_ROLE.ADMIN, null),
+      ];
+
+      expect(await service.getVisibleUserIds('member')).toEqual(['member']);
+      expect(await service.getVisibleUserIds('admin')).toBeNull();
+      expect(await service.getVisibleUserIds('unknown')).toEqual([]);
+    });
+  });
+});
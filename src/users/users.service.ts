@@ -0,0 +1,201 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { User } from '@prisma/client';
+import { PrismaService } from 'src/prisma.service';
+import { ApiKeysService } from 'src/auth/api-keys.service';
+import { TaskWithRoute } from 'src/tasks/tasks.types';
+import { USER_ROLE } from './users.types';
+
+/**
+ * Roles and departments decide who may send tasks to whom and whose tasks a
+ * user may look at:
+ *
+ * - admins may do both for everyone;
+ * - managers may assign within their department and to managers and admins
+ *   of other departments, and see the tasks of their department;
+ * - members may assign within their department and to the manager an admin
+ *   set for them, and see only their own tasks.
+ *
+ * Users without a department share one when assigning, so an installation
+ * without departments keeps working as before; a manager without a
+ * department sees only their own tasks.
+ */
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  async findUser(vkId: string): Promise<User | null> {
+    return this.prisma.user.findUnique({ where: { vkId } });
+  }
+
+  async listUsers(): Promise<User[]> {
+    return this.prisma.user.findMany({
+      orderBy: [{ department: 'asc' }, { lastName: 'asc' }],
+    });
+  }
+
+  /**
+   * Users listed in `ADMIN_VK_IDS` are admins regardless of their role, so
+   * the first admin can be set up before anyone has a role.
+   */
+  isAdmin(user: User | null): boolean {
+    return (
+      !!user &&
+      (user.role === USER_ROLE.ADMIN || this.apiKeysService.isAdmin(user.vkId))
+    );
+  }
+
+  async isAdminId(vkId: string): Promise<boolean> {
+    return (
+      this.apiKeysService.isAdmin(vkId) ||
+      this.isAdmin(await this.findUser(vkId))
+    );
+  }
+
+  canAssign(actor: User, target: User): boolean {
+    if (this.isAdmin(actor) || actor.vkId === target.vkId) {
+      return true;
+    }
+    if (actor.department === target.department) {
+      return true;
+    }
+    if (actor.role === USER_ROLE.MANAGER) {
+      return target.role !== USER_ROLE.MEMBER || this.isAdmin(target);
+    }
+    return actor.managerVkId === target.vkId;
+  }
+
+  canView(viewer: User, target: User): boolean {
+    if (this.isAdmin(viewer) || viewer.vkId === target.vkId) {
+      return true;
+    }
+    return (
+      viewer.role === USER_ROLE.MANAGER &&
+      viewer.department !== null &&
+      viewer.department === target.department
+    );
+  }
+
+  /**
+   * Returns the users among `vkIds` the actor may not send tasks to. An
+   * unknown actor may not assign to anyone; unknown targets are left to the
+   * caller's own checks.
+   */
+  async findForbiddenAssignees(
+    actorVkId: string,
+    vkIds: string[],
+  ): Promise<string[]> {
+    const actor = await this.findUser(actorVkId);
+    const targets = await this.prisma.user.findMany({
+      where: { vkId: { in: vkIds } },
+    });
+    return targets
+      .filter((target) => !actor || !this.canAssign(actor, target))
+      .map((target) => target.vkId);
+  }
+
+  async canViewTasksOf(
+    viewerVkId: string,
+    targetVkId: string,
+  ): Promise<boolean> {
+    const [viewer, target] = await Promise.all([
+      this.findUser(viewerVkId),
+      this.findUser(targetVkId),
+    ]);
+    return !!viewer && !!target && this.canView(viewer, target);
+  }
+
+  /**
+   * Users whose tasks the viewer may see, or null if they may see all.
+   */
+  async getVisibleUserIds(viewerVkId: string): Promise<string[] | null> {
+    const viewer = await this.findUser(viewerVkId);
+    if (!viewer) {
+      return [];
+    }
+    if (this.isAdmin(viewer)) {
+      return null;
+    }
+    if (viewer.role !== USER_ROLE.MANAGER || viewer.department === null) {
+      return [viewer.vkId];
+    }
+
+    const colleagues = await this.prisma.user.findMany({
+      where: { department: viewer.department },
+      select: { vkId: true },
+    });
+    return [viewer.vkId, ...colleagues.map((user) => user.vkId)];
+  }
+
+  /**
+   * Whether the viewer may see the task: they take part in it, or they may
+   * view the tasks of its author or of one of its approvers.
+   */
+  async canViewTask(viewerVkId: string, task: TaskWithRoute): Promise<boolean> {
+    const participants = [
+      task.chatId,
+      ...task.steps.flatMap((step) =>
+        step.approvers.map((approver) => approver.userVkId),
+      ),
+    ];
+    if (participants.includes(viewerVkId)) {
+      return true;
+    }
+    const visibleTo = await this.getVisibleUserIds(viewerVkId);
+    return !visibleTo || participants.some((vkId) => visibleTo.includes(vkId));
+  }
+
+  async setRole(vkId: string, role: string): Promise<User | null> {
+    const { count } = await this.prisma.user.updateMany({
+      where: { vkId },
+      data: { role },
+    });
+    if (count > 0) {
+      this.logger.log(`Role of ${vkId} set to ${role}`);
+    }
+    return count > 0 ? this.findUser(vkId) : null;
+  }
+
+  async setDepartment(
+    vkId: string,
+    department: string | null,
+  ): Promise<User | null> {
+    const { count } = await this.prisma.user.updateMany({
+      where: { vkId },
+      data: { department },
+    });
+    if (count > 0) {
+      this.logger.log(`Department of ${vkId} set to ${department ?? 'none'}`);
+    }
+    return count > 0 ? this.findUser(vkId) : null;
+  }
+
+  async setManager(
+    vkId: string,
+    managerVkId: string | null,
+  ): Promise<User | null> {
+    const { count } = await this.prisma.user.updateMany({
+      where: { vkId },
+      data: { managerVkId },
+    });
+    if (count > 0) {
+      this.logger.log(`Manager of ${vkId} set to ${managerVkId ?? 'none'}`);
+    }
+    return count > 0 ? this.findUser(vkId) : null;
+  }
+
+  async setLanguage(vkId: string, language: string): Promise<User | null> {
+    const { count } = await this.prisma.user.updateMany({
+      where: { vkId },
+      data: { language },
+    });
+    if (count > 0) {
+      this.logger.log(`Language of ${vkId} set to ${language}`);
+    }
+    return count > 0 ? this.findUser(vkId) : null;
+  }
+}
@@ -0,0 +1,13 @@
+import { MessageKey } from 'src/i18n/i18n.types';
+
+export const USER_ROLE = {
+  ADMIN: 'ADMIN',
+  MANAGER: 'MANAGER',
+  MEMBER: 'MEMBER',
+};
+
+export const USER_ROLE_LABELS: Record<string, MessageKey> = {
+  [USER_ROLE.ADMIN]: 'role.admin',
+  [USER_ROLE.MANAGER]: 'role.manager',
+  [USER_ROLE.MEMBER]: 'role.member',
+};
@@ -0,0 +1,220 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  VkTeamsButton,
+  VkTeamsCallbackQueryEvent,
+  VkTeamsChat,
+  VkTeamsEvent,
+  VkTeamsKeyboard,
+  VkTeamsNewMessageEvent,
+  VkTeamsPart,
+  VkTeamsUser,
+} from '../vk-teams.types';
+
+export interface FakeSentMessage {
+  msgId: string;
+  method: 'sendText' | 'sendFile';
+  chatId: string;
+  text: string;
+  fileId?: string;
+  parseMode?: string;
+  buttons: VkTeamsButton[];
+}
+
+export interface FakeAnsweredQuery {
+  queryId: string;
+  text?: string;
+}
+
+/**
+ * In-memory stand-in for the VK Teams bot API. It listens on a random local
+ * port, so the real `VkTeamsClient` can be pointed at it through
+ * `VK_TEAMS_API_URL`. Tests push incoming events with `pushMessage` and
+ * `pushCallback` and inspect what the bot sent back. Chats registered with
+ * `setChatMembers` behave as group chats.
+ */
+export class FakeVkTeamsServer {
+  readonly sentMessages: FakeSentMessage[] = [];
+  readonly answeredQueries: FakeAnsweredQuery[] = [];
+
+  private readonly events: VkTeamsEvent[] = [];
+  private readonly chatMembers = new Map<string, string[]>();
+  private server: Server | null = null;
+  private lastId = 0;
+
+  constructor(private readonly token = 'fake-token') {}
+
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) =>
+      this.server!.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/bot/v1`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  reset(): void {
+    this.sentMessages.length = 0;
+    this.answeredQueries.length = 0;
+    this.events.length = 0;
+    this.chatMembers.clear();
+  }
+
+  /**
+   * Creates or replaces a group chat the bot is a member of.
+   */
+  setChatMembers(chatId: string, userIds: string[]): void {
+    this.chatMembers.set(chatId, userIds);
+  }
+
+  pushMessage(
+    from: VkTeamsUser,
+    text: string,
+    parts?: VkTeamsPart[],
+    chatId = from.userId,
+  ): VkTeamsNewMessageEvent {
+    const event: VkTeamsNewMessageEvent = {
+      eventId: this.nextId(),
+      type: 'newMessage',
+      payload: {
+        msgId: String(this.lastId),
+        chat: this.chat(chatId),
+        from,
+        text,
+        parts,
+        timestamp: Math.floor(Date.now() / 1000),
+      },
+    };
+    this.events.push(event);
+    return event;
+  }
+
+  pushCallback(
+    from: VkTeamsUser,
+    callbackData: string,
+    chatId = from.userId,
+  ): VkTeamsCallbackQueryEvent {
+    const event: VkTeamsCallbackQueryEvent = {
+      eventId: this.nextId(),
+      type: 'callbackQuery',
+      payload: {
+        queryId: `query-${this.lastId}`,
+        callbackData,
+        from,
+        message: {
+          msgId: String(this.lastId),
+          chat: this.chat(chatId),
+          from: { userId: 'approval.bot', firstName: 'Bot' },
+          timestamp: Math.floor(Date.now() / 1000),
+        },
+      },
+    };
+    this.events.push(event);
+    return event;
+  }
+
+  messagesTo(chatId: string): FakeSentMessage[] {
+    return this.sentMessages.filter((message) => message.chatId === chatId);
+  }
+
+  lastMessageTo(chatId: string): FakeSentMessage | undefined {
+    const messages = this.messagesTo(chatId);
+    return messages[messages.length - 1];
+  }
+
+  private chat(chatId: string): VkTeamsChat {
+    return this.chatMembers.has(chatId)
+      ? { chatId, type: 'group' }
+      : { chatId, type: 'private' };
+  }
+
+  private nextId(): number {
+    this.lastId += 1;
+    return this.lastId;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const params = Object.fromEntries(url.searchParams);
+    const method = url.pathname.replace(/^\/bot\/v1\//, '');
+
+    if (params.token !== this.token) {
+      return this.reply(res, { ok: false, description: 'Invalid token' });
+    }
+
+    switch (method) {
+      case 'events/get': {
+        const lastEventId = Number(params.lastEventId) || 0;
+        return this.reply(res, {
+          ok: true,
+          events: this.events.filter((event) => event.eventId > lastEventId),
+        });
+      }
+
+      case 'messages/sendText':
+      case 'messages/sendFile': {
+        if (!params.chatId) {
+          return this.reply(res, { ok: false, description: 'Missing chatId' });
+        }
+        const msgId = String(this.nextId());
+        this.sentMessages.push({
+          msgId,
+          method: method === 'messages/sendText' ? 'sendText' : 'sendFile',
+          chatId: params.chatId,
+          text: params.text ?? params.caption ?? '',
+          fileId: params.fileId,
+          parseMode: params.parseMode,
+          buttons: params.inlineKeyboardMarkup
+            ? (
+                JSON.parse(params.inlineKeyboardMarkup) as VkTeamsKeyboard
+              ).flat()
+            : [],
+        });
+        return this.reply(res, { ok: true, msgId });
+      }
+
+      case 'messages/answerCallbackQuery':
+        this.answeredQueries.push({
+          queryId: params.queryId,
+          text: params.text,
+        });
+        return this.reply(res, { ok: true });
+
+      case 'chats/getMembers': {
+        const members = this.chatMembers.get(params.chatId);
+        if (!members) {
+          return this.reply(res, { ok: false, description: 'Chat not found' });
+        }
+        return this.reply(res, {
+          ok: true,
+          members: members.map((userId) => ({ userId })),
+        });
+      }
+
+      case 'self/get':
+        return this.reply(res, {
+          ok: true,
+          userId: 'approval.bot',
+          nick: 'approval.bot',
+          firstName: 'Approval bot',
+        });
+
+      default:
+        res.statusCode = 404;
+        return this.reply(res, { ok: false, description: 'Unknown method' });
+    }
+  }
+
+  private reply(res: ServerResponse, body: object): void {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+}
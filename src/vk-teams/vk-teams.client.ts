@@ -0,0 +1,157 @@
+import { HttpService } from '@nestjs/axios';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { AppConfig } from 'src/app.config';
+import {
+  AnswerCallbackQueryRequest,
+  DEFAULT_VK_TEAMS_API_URL,
+  GetChatMembersResponse,
+  GetEventsRequest,
+  GetEventsResponse,
+  SelfResponse,
+  SendFileRequest,
+  SendMessageResponse,
+  SendTextRequest,
+  UploadFileRequest,
+  VkTeamsResponse,
+} from './vk-teams.types';
+
+/**
+ * Raised when the messenger answers with `ok: false`. Transport errors are
+ * left as they come from axios.
+ */
+export class VkTeamsApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly description?: string,
+  ) {
+    super(`VK Teams ${method} failed: ${description || 'unknown error'}`);
+  }
+}
+
+@Injectable()
+export class VkTeamsClient {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpService: HttpService,
+  ) {}
+
+  getBaseUrl(): string {
+    return this.configService
+      .get<
+        AppConfig['VK_TEAMS_API_URL']
+      >('VK_TEAMS_API_URL', DEFAULT_VK_TEAMS_API_URL)
+      .replace(/\/+$/, '');
+  }
+
+  async getEvents(request: GetEventsRequest): Promise<GetEventsResponse> {
+    return this.call<GetEventsResponse>('get', 'events/get', {
+      lastEventId: request.lastEventId,
+      pollTime: request.pollTime,
+    });
+  }
+
+  async sendText(request: SendTextRequest): Promise<SendMessageResponse> {
+    return this.call<SendMessageResponse>('post', 'messages/sendText', {
+      chatId: request.chatId,
+      text: request.text,
+      parseMode: request.parseMode,
+      inlineKeyboardMarkup: this.serializeKeyboard(
+        request.inlineKeyboardMarkup,
+      ),
+    });
+  }
+
+  async sendFile(request: SendFileRequest): Promise<SendMessageResponse> {
+    return this.call<SendMessageResponse>('get', 'messages/sendFile', {
+      chatId: request.chatId,
+      fileId: request.fileId,
+      caption: request.caption,
+      parseMode: request.parseMode,
+      inlineKeyboardMarkup: this.serializeKeyboard(
+        request.inlineKeyboardMarkup,
+      ),
+    });
+  }
+
+  /**
+   * Uploads a file and sends it to the chat in one call.
+   */
+  async uploadFile(request: UploadFileRequest): Promise<SendMessageResponse> {
+    const form = new FormData();
+    form.append('file', new Blob([request.content]), request.fileName);
+    return this.call<SendMessageResponse>(
+      'post',
+      'messages/sendFile',
+      { chatId: request.chatId, caption: request.caption },
+      form,
+    );
+  }
+
+  async answerCallbackQuery(
+    request: AnswerCallbackQueryRequest,
+  ): Promise<VkTeamsResponse> {
+    return this.call<VkTeamsResponse>('get', 'messages/answerCallbackQuery', {
+      ...request,
+    });
+  }
+
+  async getSelf(): Promise<SelfResponse> {
+    return this.call<SelfResponse>('get', 'self/get', {});
+  }
+
+  /**
+   * Ids of all members of a group chat. Fails if the bot is not in the
+   * chat.
+   */
+  async getChatMembers(chatId: string): Promise<string[]> {
+    const members: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.call<GetChatMembersResponse>(
+        'get',
+        'chats/getMembers',
+        { chatId, cursor },
+      );
+      members.push(...page.members.map((member) => member.userId));
+      cursor = page.cursor;
+    } while (cursor);
+    return members;
+  }
+
+  private async call<T extends VkTeamsResponse>(
+    httpMethod: 'get' | 'post',
+    method: string,
+    params: Record<string, string | number | boolean | undefined>,
+    body: FormData | null = null,
+  ): Promise<T> {
+    const url = `${this.getBaseUrl()}/${method}`;
+    const config = {
+      params: {
+        token:
+          this.configService.get<AppConfig['VK_BOT_TOKEN']>('VK_BOT_TOKEN'),
+        ...params,
+      },
+    };
+
+    const response = await firstValueFrom(
+      httpMethod === 'post'
+        ? this.httpService.post<T>(url, body, config)
+        : this.httpService.get<T>(url, config),
+    );
+
+    if (!response.data?.ok) {
+      throw new VkTeamsApiError(method, response.data?.description);
+    }
+    return response.data;
+  }
+
+  private serializeKeyboard(
+    keyboard: SendTextRequest['inlineKeyboardMarkup'],
+  ): string | undefined {
+    return keyboard && keyboard.length > 0
+      ? JSON.stringify(keyboard)
+      : undefined;
+  }
+}
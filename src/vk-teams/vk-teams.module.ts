@@ -0,0 +1,10 @@
+import { HttpModule } from '@nestjs/axios';
+import { Module } from '@nestjs/common';
+import { VkTeamsClient } from './vk-teams.client';
+
+@Module({
+  imports: [HttpModule],
+  providers: [VkTeamsClient],
+  exports: [VkTeamsClient],
+})
+export class VkTeamsModule {}
@@ -0,0 +1,153 @@
+export const DEFAULT_VK_TEAMS_API_URL = 'https://myteam.mail.ru/bot/v1';
+
+export interface VkTeamsChat {
+  chatId: string;
+  type: 'private' | 'group' | 'channel';
+  title?: string;
+}
+
+export interface VkTeamsUser {
+  userId: string;
+  firstName: string;
+  lastName?: string;
+  nick?: string;
+  /**
+   * Interface language of the user's messenger client, when it is reported.
+   */
+  language?: string;
+}
+
+export interface VkTeamsFilePart {
+  type: 'file';
+  payload: {
+    fileId: string;
+    type?: string;
+    caption?: string;
+  };
+}
+
+export interface VkTeamsMentionPart {
+  type: 'mention';
+  payload: VkTeamsUser;
+}
+
+export type VkTeamsPart =
+  | VkTeamsFilePart
+  | VkTeamsMentionPart
+  | { type: string; payload: Record<string, unknown> };
+
+export interface VkTeamsMessage {
+  msgId: string;
+  chat: VkTeamsChat;
+  from: VkTeamsUser;
+  text?: string;
+  parts?: VkTeamsPart[];
+  timestamp: number;
+}
+
+export interface VkTeamsNewMessageEvent {
+  eventId: number;
+  type: 'newMessage';
+  payload: VkTeamsMessage;
+}
+
+export interface VkTeamsCallbackQueryEvent {
+  eventId: number;
+  type: 'callbackQuery';
+  payload: {
+    queryId: string;
+    callbackData: string;
+    from: VkTeamsUser;
+    message: VkTeamsMessage;
+  };
+}
+
+/**
+ * Only the events the bot reacts to are modelled. Other types (edited or
+ * deleted messages, chat membership changes) still arrive in the feed and
+ * are skipped by the dispatcher.
+ */
+export type VkTeamsEvent = VkTeamsNewMessageEvent | VkTeamsCallbackQueryEvent;
+
+export interface VkTeamsButton {
+  text: string;
+  callbackData?: string;
+  url?: string;
+  style?: 'primary' | 'attention' | 'base';
+}
+
+export type VkTeamsKeyboard = VkTeamsButton[][];
+
+export type VkTeamsParseMode = 'MarkdownV2' | 'HTML';
+
+export interface VkTeamsResponse {
+  ok: boolean;
+  description?: string;
+}
+
+export interface GetEventsRequest {
+  lastEventId: number;
+  pollTime: number;
+}
+
+export interface GetEventsResponse extends VkTeamsResponse {
+  events: VkTeamsEvent[];
+}
+
+export interface SendTextRequest {
+  chatId: string;
+  text: string;
+  parseMode?: VkTeamsParseMode;
+  inlineKeyboardMarkup?: VkTeamsKeyboard;
+}
+
+export interface SendFileRequest {
+  chatId: string;
+  fileId: string;
+  caption?: string;
+  parseMode?: VkTeamsParseMode;
+  inlineKeyboardMarkup?: VkTeamsKeyboard;
+}
+
+/**
+ * A new file: unlike `SendFileRequest`, the content is uploaded instead of
+ * referring to a file already stored by the messenger.
+ */
+export interface UploadFileRequest {
+  chatId: string;
+  fileName: string;
+  content: Buffer;
+  caption?: string;
+}
+
+export interface SendMessageResponse extends VkTeamsResponse {
+  msgId?: string;
+}
+
+export interface AnswerCallbackQueryRequest {
+  queryId: string;
+  text?: string;
+  showAlert?: boolean;
+  url?: string;
+}
+
+export interface VkTeamsChatMember {
+  userId: string;
+  creator?: boolean;
+  admin?: boolean;
+}
+
+export interface GetChatMembersResponse extends VkTeamsResponse {
+  members: VkTeamsChatMember[];
+  /**
+   * Present while there are more members to fetch.
+   */
+  cursor?: string;
+}
+
+export interface SelfResponse extends VkTeamsResponse {
+  userId: string;
+  nick: string;
+  firstName: string;
+  about?: string;
+}
@@ -0,0 +1,25 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MinLength,
+} from 'class-validator';
+import { WEBHOOK_EVENT_TYPE } from '../webhooks.types';
+
+export class CreateWebhookSubscriptionDto {
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  readonly url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(WEBHOOK_EVENT_TYPE), { each: true })
+  readonly eventTypes: string[];
+
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  readonly secret?: string;
+}
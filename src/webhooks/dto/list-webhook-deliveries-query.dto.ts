@@ -0,0 +1,12 @@
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+import { WEBHOOK_DELIVERY_STATUS } from '../webhooks.types';
+
+export class ListWebhookDeliveriesQueryDto {
+  @IsOptional()
+  @IsIn(Object.values(WEBHOOK_DELIVERY_STATUS))
+  readonly status?: string;
+
+  @IsOptional()
+  @IsUUID()
+  readonly subscriptionId?: string;
+}
@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireScopes } from 'src/auth/auth.decorators';
+import { API_KEY_SCOPE } from 'src/auth/auth.types';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookSubscriptionDto } from './dto/create-webhook-subscription.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries-query.dto';
+
+@Controller('webhooks')
+@RequireScopes(API_KEY_SCOPE.ADMIN)
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  /**
+   * The secret is returned only here, receivers need it to verify
+   * signatures.
+   */
+  @Post('subscriptions')
+  async createSubscription(@Body() dto: CreateWebhookSubscriptionDto) {
+    return this.webhooksService.createSubscription(
+      dto.url,
+      dto.eventTypes,
+      dto.secret,
+    );
+  }
+
+  @Get('subscriptions')
+  async listSubscriptions() {
+    return this.webhooksService.listSubscriptions();
+  }
+
+  @Delete('subscriptions/:id')
+  @HttpCode(204)
+  async removeSubscription(@Param('id', ParseUUIDPipe) id: string) {
+    const removed = await this.webhooksService.removeSubscription(id);
+    if (!removed) {
+      throw new NotFoundException(`Webhook subscription ${id} not found`);
+    }
+  }
+
+  @Get('deliveries')
+  async listDeliveries(@Query() query: ListWebhookDeliveriesQueryDto) {
+    return this.webhooksService.listDeliveries(query);
+  }
+
+  @Post('deliveries/:id/redeliver')
+  @HttpCode(200)
+  async redeliver(@Param('id', ParseUUIDPipe) id: string) {
+    const delivery = await this.webhooksService.redeliver(id);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    return delivery;
+  }
+}
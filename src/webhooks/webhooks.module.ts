@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+
+@Module({
+  providers: [WebhooksService],
+  controllers: [WebhooksController],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,174 @@
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { createHmac } from 'crypto';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { PrismaService } from 'src/prisma.service';
+import { WebhooksService } from './webhooks.service';
+import {
+  WEBHOOK_DELIVERY_STATUS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhooks.types';
+
+interface Delivery {
+  id: string;
+  subscriptionId: string;
+  eventType: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  lastStatusCode: number | null;
+  deliveredAt: Date | null;
+}
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const SECRET = 'test-secret';
+
+/**
+ * The part of the webhook delivery table the worker uses, kept in memory.
+ */
+function createPrisma(deliveries: Delivery[], url: string) {
+  const subscription = { id: 'subscription', url, secret: SECRET };
+  const matches = (delivery: Delivery, where: Partial<Delivery>) =>
+    Object.entries(where).every(([key, value]) =>
+      value instanceof Date
+        ? delivery[key].getTime() === value.getTime()
+        : delivery[key] === value,
+    );
+
+  return {
+    webhookDelivery: {
+      findMany: async ({ where, take }) =>
+        deliveries
+          .filter(
+            (delivery) =>
+              delivery.status === where.status &&
+              delivery.nextAttemptAt <= where.nextAttemptAt.lte,
+          )
+          .slice(0, take)
+          .map((delivery) => ({ ...delivery, subscription })),
+      updateMany: async ({ where, data }) => {
+        const matched = deliveries.filter((delivery) =>
+          matches(delivery, where),
+        );
+        matched.forEach((delivery) => Object.assign(delivery, data));
+        return { count: matched.length };
+      },
+    },
+  };
+}
+
+function createDelivery(overrides: Partial<Delivery> = {}): Delivery {
+  return {
+    id: 'delivery',
+    subscriptionId: 'subscription',
+    eventType: 'task.approved',
+    payload: { event: 'task.approved', task: { id: 'task' } },
+    status: WEBHOOK_DELIVERY_STATUS.PENDING,
+    attempts: 0,
+    nextAttemptAt: new Date(Date.now() - 1000),
+    lastError: null,
+    lastStatusCode: null,
+    deliveredAt: null,
+    ...overrides,
+  };
+}
+
+describe('WebhooksService', () => {
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let schedulerRegistry: SchedulerRegistry;
+
+  const createService = (deliveries: Delivery[]) =>
+    new WebhooksService(
+      createPrisma(deliveries, url) as unknown as PrismaService,
+      schedulerRegistry,
+    );
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+    schedulerRegistry = new SchedulerRegistry();
+  });
+
+  afterEach(() => {
+    schedulerRegistry.deleteInterval('webhookDeliveries');
+  });
+
+  it('signs the payload with the subscription secret', async () => {
+    const delivery = createDelivery();
+    await createService([delivery]).processDueDeliveries(new Date());
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const expected = createHmac('sha256', SECRET)
+      .update(`${headers[WEBHOOK_TIMESTAMP_HEADER]}.${body}`)
+      .digest('hex');
+    expect(headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body)).toEqual(delivery.payload);
+    expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.DELIVERED);
+    expect(delivery.attempts).toBe(1);
+  });
+
+  it('retries a failed delivery with a backoff', async () => {
+    responseStatus = 500;
+    const delivery = createDelivery({ attempts: 2 });
+    await createService([delivery]).processDueDeliveries(new Date());
+
+    expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.PENDING);
+    expect(delivery.attempts).toBe(3);
+    expect(delivery.lastStatusCode).toBe(500);
+    const delay = delivery.nextAttemptAt.getTime() - Date.now();
+    expect(delay).toBeGreaterThan(110 * 1000);
+    expect(delay).toBeLessThanOrEqual(120 * 1000);
+  });
+
+  it('moves a delivery to dead letters after the last attempt', async () => {
+    responseStatus = 503;
+    const delivery = createDelivery({ attempts: 7 });
+    await createService([delivery]).processDueDeliveries(new Date());
+
+    expect(delivery.status).toBe(WEBHOOK_DELIVERY_STATUS.DEAD);
+    expect(delivery.attempts).toBe(8);
+  });
+
+  it('sends a delivery once when runs overlap', async () => {
+    const delivery = createDelivery();
+    const service = createService([delivery]);
+    await Promise.all([
+      service.processDueDeliveries(new Date()),
+      service.processDueDeliveries(new Date()),
+    ]);
+
+    expect(received).toHaveLength(1);
+    expect(delivery.attempts).toBe(1);
+  });
+});
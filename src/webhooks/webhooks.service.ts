@@ -0,0 +1,310 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Prisma, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+import { PrismaService } from 'src/prisma.service';
+import { TASK_WITH_ROUTE, TaskWithRoute } from 'src/tasks/tasks.types';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_DELIVERY_STATUS,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhooks.types';
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT = 10 * 1000;
+const DELIVERY_BATCH_SIZE = 20;
+// How long a claimed delivery is hidden from other workers. It outlasts the
+// request timeout, so it only expires if the worker died mid-delivery.
+const DELIVERY_LEASE = 3 * DELIVERY_TIMEOUT;
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+  private processingDeliveries = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.startDeliveryWorker();
+  }
+
+  async createSubscription(
+    url: string,
+    eventTypes: string[],
+    secret?: string,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: {
+        url,
+        eventTypes: [...new Set(eventTypes)],
+        secret: secret || randomBytes(24).toString('base64url'),
+      },
+    });
+    this.logger.log(`Webhook subscription ${subscription.id} created`);
+    return subscription;
+  }
+
+  async listSubscriptions(): Promise<Omit<WebhookSubscription, 'secret'>[]> {
+    return this.prisma.webhookSubscription.findMany({
+      omit: { secret: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async removeSubscription(id: string): Promise<boolean> {
+    const { count } = await this.prisma.webhookSubscription.deleteMany({
+      where: { id },
+    });
+    return count > 0;
+  }
+
+  async listDeliveries(filter: {
+    status?: string;
+    subscriptionId?: string;
+  }): Promise<WebhookDelivery[]> {
+    return this.prisma.webhookDelivery.findMany({
+      where: { status: filter.status, subscriptionId: filter.subscriptionId },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Queues a task event for every active subscription interested in it.
+   * The payload is a snapshot of the task taken through the same client, so
+   * inside a transaction the deliveries are committed together with the
+   * state change and errors are rethrown; otherwise they are only logged.
+   */
+  async enqueueTaskEvent(
+    eventType: string,
+    taskId: string,
+    actorVkId: string | null,
+    tx?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const client = tx ?? this.prisma;
+
+    try {
+      const subscriptions = await client.webhookSubscription.findMany({
+        where: { active: true, eventTypes: { has: eventType } },
+        select: { id: true },
+      });
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const task = await client.task.findUnique({
+        where: { id: taskId },
+        include: TASK_WITH_ROUTE,
+      });
+      if (!task) {
+        return;
+      }
+
+      const payload = {
+        event: eventType,
+        occurredAt: new Date().toISOString(),
+        actorVkId,
+        task: this.serializeTask(task),
+      };
+
+      await client.webhookDelivery.createMany({
+        data: subscriptions.map((subscription) => ({
+          subscriptionId: subscription.id,
+          eventType,
+          payload,
+          status: WEBHOOK_DELIVERY_STATUS.PENDING,
+        })),
+      });
+    } catch (error) {
+      if (tx) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to enqueue ${eventType} webhooks for task ${taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Puts a delivery back into the queue with a fresh attempt budget.
+   * Returns null if there is no such delivery.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery | null> {
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: { id },
+      data: {
+        status: WEBHOOK_DELIVERY_STATUS.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    this.logger.log(`Webhook delivery ${id} queued for redelivery`);
+    return this.prisma.webhookDelivery.findUnique({ where: { id } });
+  }
+
+  /**
+   * Signature of a payload: hex HMAC-SHA256 of `<timestamp>.<body>` keyed
+   * with the subscription secret. Receivers recompute it to verify both the
+   * sender and that the timestamp was not altered.
+   */
+  sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  /**
+   * Sends the deliveries that are due. Each one is claimed first by moving
+   * its next attempt past the lease, so overlapping runs or other instances
+   * never send the same delivery twice.
+   */
+  async processDueDeliveries(now: Date): Promise<void> {
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: WEBHOOK_DELIVERY_STATUS.PENDING,
+        nextAttemptAt: { lte: now },
+      },
+      include: { subscription: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE,
+    });
+
+    for (const delivery of deliveries) {
+      const leaseUntil = new Date(Date.now() + DELIVERY_LEASE);
+      const { count } = await this.prisma.webhookDelivery.updateMany({
+        where: {
+          id: delivery.id,
+          status: WEBHOOK_DELIVERY_STATUS.PENDING,
+          nextAttemptAt: delivery.nextAttemptAt,
+        },
+        data: { nextAttemptAt: leaseUntil },
+      });
+      if (count === 0) {
+        continue;
+      }
+      await this.attemptDelivery(delivery, delivery.subscription, leaseUntil);
+    }
+  }
+
+  private startDeliveryWorker() {
+    const deliveryCheckInterval = 10 * 1000;
+    const interval = setInterval(async () => {
+      // A batch of slow receivers can take longer than the interval.
+      if (this.processingDeliveries) {
+        return;
+      }
+      this.processingDeliveries = true;
+      try {
+        await this.processDueDeliveries(new Date());
+      } catch (error) {
+        this.logger.error(`Error processing webhooks: ${error.message}`);
+      } finally {
+        this.processingDeliveries = false;
+      }
+    }, deliveryCheckInterval);
+
+    this.schedulerRegistry.addInterval('webhookDeliveries', interval);
+  }
+
+  /**
+   * Sends a claimed delivery and records the outcome. The outcome is only
+   * written while the claim still holds, so a redelivery requested in the
+   * meantime is not overwritten.
+   */
+  private async attemptDelivery(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription,
+    leaseUntil: Date,
+  ): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const attempts = delivery.attempts + 1;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_SIGNATURE_HEADER]: `sha256=${this.sign(subscription.secret, timestamp, body)}`,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        },
+        timeout: DELIVERY_TIMEOUT,
+        maxRedirects: 0,
+      });
+
+      await this.prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, nextAttemptAt: leaseUntil },
+        data: {
+          status: WEBHOOK_DELIVERY_STATUS.DELIVERED,
+          attempts,
+          lastStatusCode: response.status,
+          lastError: null,
+          deliveredAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const dead = attempts >= MAX_ATTEMPTS;
+      // 30s, 1m, 2m, ... capped at an hour between attempts.
+      const delay = Math.min(
+        BASE_RETRY_DELAY * 2 ** (attempts - 1),
+        MAX_RETRY_DELAY,
+      );
+
+      await this.prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, nextAttemptAt: leaseUntil },
+        data: {
+          status: dead
+            ? WEBHOOK_DELIVERY_STATUS.DEAD
+            : WEBHOOK_DELIVERY_STATUS.PENDING,
+          attempts,
+          lastStatusCode: error.response?.status ?? null,
+          lastError: error.message,
+          nextAttemptAt: new Date(Date.now() + delay),
+        },
+      });
+
+      this.logger.warn(
+        dead
+          ? `Webhook delivery ${delivery.id} moved to dead letters after ${attempts} attempts: ${error.message}`
+          : `Webhook delivery ${delivery.id} failed (attempt ${attempts}): ${error.message}`,
+      );
+    }
+  }
+
+  private serializeTask(task: TaskWithRoute) {
+    return {
+      id: task.id,
+      status: task.status,
+      authorVkId: task.chatId,
+      text: task.text,
+      fileId: task.fileId,
+      rejectReason: task.rejectReason,
+      currentStep: task.currentStep,
+      deadline: task.deadline?.toISOString() ?? null,
+      createdAt: task.createdAt.toISOString(),
+      updatedAt: task.updatedAt.toISOString(),
+      steps: task.steps.map((step) => ({
+        order: step.order,
+        rule: step.rule,
+        status: step.status,
+        approvers: step.approvers.map((approver) => ({
+          vkId: approver.userVkId,
+          decision: approver.decision,
+          comment: approver.comment,
+          decidedAt: approver.decidedAt?.toISOString() ?? null,
+        })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Prisma } from '@prisma/client';
+
+export const WEBHOOK_EVENT_TYPE = {
+  TASK_CREATED: 'task.created',
+  TASK_UPDATED: 'task.updated',
+  TASK_STEP_ADVANCED: 'task.step_advanced',
+  TASK_APPROVED: 'task.approved',
+  TASK_REJECTED: 'task.rejected',
+  TASK_ESCALATED: 'task.escalated',
+  TASK_DELEGATED: 'task.delegated',
+  TASK_EXPIRED: 'task.expired',
+  TASK_CANCELLED: 'task.cancelled',
+};
+
+export const WEBHOOK_DELIVERY_STATUS = {
+  PENDING: 'PENDING',
+  DELIVERED: 'DELIVERED',
+  DEAD: 'DEAD',
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_EVENT_HEADER = 'x-webhook-event';
+export const WEBHOOK_DELIVERY_HEADER = 'x-webhook-delivery';
+
+export interface WebhookEventInput {
+  eventType: string;
+  payload: Prisma.InputJsonObject;
+}
@@ -0,0 +1,245 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { PrismaService } from 'src/prisma.service';
+import { MessageQueueService } from 'src/message-queue/message-queue.service';
+import { TASK_STATUS, TASK_WITH_ROUTE } from 'src/tasks/tasks.types';
+import { FakeVkTeamsServer } from 'src/vk-teams/testing/fake-vk-teams.server';
+import { VkTeamsEvent, VkTeamsUser } from 'src/vk-teams/vk-teams.types';
+
+const WEBHOOK_SECRET = 'e2e-webhook-secret';
+
+describe('Bot approval flows (e2e)', () => {
+  const fake = new FakeVkTeamsServer('e2e-token');
+  const suffix = Date.now();
+  const author: VkTeamsUser = {
+    userId: `author.${suffix}@example.com`,
+    firstName: 'Анна',
+    lastName: 'Автор',
+  };
+  const approver: VkTeamsUser = {
+    userId: `approver.${suffix}@example.com`,
+    firstName: 'Олег',
+    lastName: 'Согласующий',
+  };
+  const member: VkTeamsUser = {
+    userId: `member.${suffix}@example.com`,
+    firstName: 'Ирина',
+    lastName: 'Дежурная',
+  };
+  const groupChatId = `oncall.${suffix}@chat.agent`;
+
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let messageQueue: MessageQueueService;
+
+  // Replies are sent by the message queue worker, so wait until it has
+  // flushed everything the last event produced.
+  const drainQueue = async () => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      await messageQueue.processDueMessages();
+      if ((await messageQueue.getMetrics()).queuedChats === 0) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    throw new Error('Message queue was not drained');
+  };
+
+  const deliver = async (event: VkTeamsEvent) => {
+    await request(app.getHttpServer())
+      .post('/bot/webhook')
+      .set('x-bot-webhook-secret', WEBHOOK_SECRET)
+      .send({ events: [event] })
+      .expect(200);
+    await drainQueue();
+  };
+
+  const createTaskViaDialog = async (description: string) => {
+    await deliver(fake.pushCallback(author, 'create_task'));
+    await deliver(fake.pushMessage(author, description));
+    await deliver(
+      fake.pushMessage(
+        author,
+        `https://u.internal.myteam.mail.ru/profile/${approver.userId}`,
+      ),
+    );
+    await deliver(fake.pushCallback(author, 'route_done'));
+    await deliver(fake.pushMessage(author, '60'));
+    await deliver(fake.pushCallback(author, 'deadline_skip'));
+
+    return prisma.task.findFirst({
+      where: { chatId: author.userId, text: description },
+      include: TASK_WITH_ROUTE,
+    });
+  };
+
+  beforeAll(async () => {
+    process.env.VK_TEAMS_API_URL = await fake.start();
+    process.env.VK_BOT_TOKEN = 'e2e-token';
+    process.env.BOT_EVENTS_MODE = 'webhook';
+    process.env.BOT_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    process.env.MESSENGER_RATE_LIMIT = '1000';
+
+    // The module reads its configuration on import, so it is loaded only
+    // after the fake server address is known.
+    const { AppModule } = await import('./../src/app.module');
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    prisma = app.get(PrismaService);
+    messageQueue = app.get(MessageQueueService);
+    // Event ids of the fake start from 1, so a cursor left by an earlier
+    // run would make the bot skip them.
+    await prisma.botState.deleteMany({ where: { key: 'lastEventId' } });
+    await app.init();
+
+    await deliver(fake.pushMessage(approver, '/start'));
+    await deliver(fake.pushMessage(author, '/start'));
+  });
+
+  afterAll(async () => {
+    // The fake server is stopped even when the app failed to start, so a
+    // broken setup fails the suite instead of leaving Jest hanging.
+    try {
+      if (app) {
+        await prisma.task.deleteMany({ where: { chatId: author.userId } });
+        await prisma.user.deleteMany({
+          where: {
+            vkId: { in: [author.userId, approver.userId, member.userId] },
+          },
+        });
+      }
+    } finally {
+      await app?.close();
+      await fake.stop();
+    }
+  });
+
+  it('creates a task through the dialog', async () => {
+    const task = await createTaskViaDialog('Оплатить счёт');
+
+    expect(fake.lastMessageTo(author.userId)?.text).toBe(
+      'Задача успешно создана\\!',
+    );
+    expect(task?.status).toBe(TASK_STATUS.PENDING);
+    expect(task?.remindInterval).toBe(60);
+    expect(task?.steps[0].approvers.map((item) => item.userVkId)).toEqual([
+      approver.userId,
+    ]);
+  });
+
+  it('approves a task from the inline button', async () => {
+    const task = await createTaskViaDialog('Согласовать отпуск');
+    const callback = fake.pushCallback(approver, `approve_${task!.id}`);
+    await deliver(callback);
+
+    const updated = await prisma.task.findUnique({ where: { id: task!.id } });
+    expect(updated?.status).toBe(TASK_STATUS.APPROVED);
+    expect(fake.answeredQueries.map((query) => query.queryId)).toContain(
+      callback.payload.queryId,
+    );
+    expect(fake.lastMessageTo(approver.userId)?.text).toBe(
+      'Задача успешно подтверждена\\!',
+    );
+    expect(fake.lastMessageTo(author.userId)?.text).toContain(
+      'Ваша задача согласована',
+    );
+  });
+
+  it('rejects a task with a reason', async () => {
+    const task = await createTaskViaDialog('Купить сервер');
+    await deliver(fake.pushCallback(approver, `reject_${task!.id}`));
+    expect(fake.lastMessageTo(approver.userId)?.text).toBe(
+      'Укажите причину отклонения задачи:',
+    );
+
+    await deliver(fake.pushMessage(approver, 'Нет бюджета'));
+
+    const updated = await prisma.task.findUnique({ where: { id: task!.id } });
+    expect(updated?.status).toBe(TASK_STATUS.REJECTED);
+    expect(updated?.rejectReason).toBe('Нет бюджета');
+    expect(fake.lastMessageTo(author.userId)?.text).toContain(
+      'Ваша задача отклонена',
+    );
+  });
+
+  it('browses the tasks awaiting a decision and opens one', async () => {
+    const task = await createTaskViaDialog('Подписать договор');
+    await deliver(fake.pushCallback(approver, 'tasks_awaiting_any_0'));
+
+    const page = fake.lastMessageTo(approver.userId);
+    expect(page?.text).toContain('Подписать договор');
+    expect(page?.text).not.toContain('Купить сервер');
+    expect(page?.buttons.map((button) => button.callbackData)).toContain(
+      `task_${task!.id}`,
+    );
+
+    await deliver(fake.pushCallback(approver, `task_${task!.id}`));
+
+    const detail = fake.lastMessageTo(approver.userId);
+    expect(detail?.text).toContain(`\`${task!.id}\``);
+    expect(detail?.buttons.map((button) => button.callbackData)).toEqual([
+      `approve_${task!.id}`,
+      `reject_${task!.id}`,
+      `history_${task!.id}`,
+    ]);
+  });
+
+  it('lets members of a group chat decide a group step', async () => {
+    fake.setChatMembers(groupChatId, [member.userId, approver.userId]);
+
+    await deliver(fake.pushCallback(author, 'create_task'));
+    await deliver(fake.pushMessage(author, 'Выкатить релиз'));
+    await deliver(
+      fake.pushMessage(
+        author,
+        `https://u.internal.myteam.mail.ru/profile/${groupChatId}`,
+      ),
+    );
+    await deliver(fake.pushMessage(author, '1'));
+    await deliver(fake.pushCallback(author, 'route_done'));
+    await deliver(fake.pushMessage(author, '60'));
+    await deliver(fake.pushCallback(author, 'deadline_skip'));
+
+    const task = await prisma.task.findFirst({
+      where: { chatId: author.userId, text: 'Выкатить релиз' },
+      include: TASK_WITH_ROUTE,
+    });
+    expect(task?.steps[0].groupChatId).toBe(groupChatId);
+
+    const outsider: VkTeamsUser = {
+      userId: `outsider.${suffix}@example.com`,
+      firstName: 'Пётр',
+    };
+    const outsiderPress = fake.pushCallback(
+      outsider,
+      `approve_${task!.id}`,
+      groupChatId,
+    );
+    await deliver(outsiderPress);
+    expect(
+      fake.answeredQueries.find(
+        (query) => query.queryId === outsiderPress.payload.queryId,
+      )?.text,
+    ).toBe('Решение могут принять только участники группы.');
+
+    await deliver(
+      fake.pushCallback(member, `approve_${task!.id}`, groupChatId),
+    );
+
+    const updated = await prisma.task.findUnique({
+      where: { id: task!.id },
+      include: TASK_WITH_ROUTE,
+    });
+    expect(updated?.status).toBe(TASK_STATUS.APPROVED);
+    expect(updated?.steps[0].approvers.map((item) => item.userVkId)).toEqual([
+      member.userId,
+    ]);
+    expect(fake.lastMessageTo(groupChatId)?.text).toContain(
+      'подтвердил\\(а\\) задачу',
+    );
+  });
+});